@@ -6,6 +6,8 @@ import {
   hasScope,
   requireScope,
   describePermissions,
+  filterReadableInSession,
+  setProfileScopes,
 } from "./scopes";
 
 describe("parseScopes", () => {
@@ -125,6 +127,7 @@ describe("PRESETS", () => {
     expect(hasScope(readonly, SCOPES.VAULT_LIST)).toBe(true);
     expect(hasScope(readonly, SCOPES.VAULT_SEARCH)).toBe(true);
     expect(hasScope(readonly, SCOPES.PLUGINS_READ)).toBe(true);
+    expect(hasScope(readonly, SCOPES.WEB_FETCH)).toBe(true);
 
     expect(hasScope(readonly, SCOPES.VAULT_WRITE)).toBe(false);
     expect(hasScope(readonly, SCOPES.VAULT_DELETE)).toBe(false);
@@ -155,5 +158,124 @@ describe("PRESETS", () => {
     expect(hasScope(full, SCOPES.VAULT_LIST)).toBe(true);
     expect(hasScope(full, SCOPES.PLUGINS_READ)).toBe(true);
     expect(hasScope(full, SCOPES.PLUGINS_EXECUTE)).toBe(true);
+    expect(hasScope(full, SCOPES.WEB_FETCH)).toBe(true);
+    expect(hasScope(full, SCOPES.ADMIN)).toBe(false);
+  });
+});
+
+describe("path-scoped scopes", () => {
+  test("parses path grants and denials, keeping the case of globs", () => {
+    expect(
+      parseScopes("VAULT:WRITE:Inbox/**, !vault:*:Private/**, !vault:delete"),
+    ).toEqual(["vault:write:Inbox/**", "!vault:*:Private/**", "!vault:delete"]);
+  });
+
+  test("expands presets combined with path rules", () => {
+    expect(parseScopes("readonly,!vault:read:Private/**")).toEqual([
+      ...PRESETS.readonly,
+      "!vault:read:Private/**",
+    ]);
+  });
+
+  test("only allows paths on vault scopes", () => {
+    expect(() => parseScopes("plugins:read:Inbox/**")).toThrow(
+      /Only vault scopes/,
+    );
+  });
+
+  test("grants a path scope only for matching paths", () => {
+    const granted = parseScopes("vault:read,vault:write:Inbox/**");
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Inbox/idea.md")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Inbox/a/b.md")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Inbox")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Projects/x.md")).toBe(false);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "InboxOld/x.md")).toBe(false);
+  });
+
+  test("counts a path grant as granted when no path is given", () => {
+    const granted = parseScopes("vault:delete:Scratch/**");
+    expect(hasScope(granted, SCOPES.VAULT_DELETE)).toBe(true);
+  });
+
+  test("matches single-folder and character wildcards", () => {
+    const granted = parseScopes("vault:write:Daily/*.md,vault:read:Notes/??.md");
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Daily/2024-01-01.md")).toBe(
+      true,
+    );
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Daily/old/x.md")).toBe(false);
+    expect(hasScope(granted, SCOPES.VAULT_READ, "Notes/ab.md")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_READ, "Notes/abc.md")).toBe(false);
+  });
+
+  test("denials override grants, including admin", () => {
+    const granted = parseScopes("admin,!vault:read:Private/**");
+    expect(hasScope(granted, SCOPES.VAULT_READ, "Private/diary.md")).toBe(
+      false,
+    );
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Private/diary.md")).toBe(
+      true,
+    );
+    expect(hasScope(granted, SCOPES.VAULT_READ, "Public/post.md")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_READ)).toBe(true);
+  });
+
+  test("wildcard denials cover every vault scope", () => {
+    const granted = parseScopes("full,!vault:*:Private/**");
+    expect(hasScope(granted, SCOPES.VAULT_LIST, "Private")).toBe(false);
+    expect(hasScope(granted, SCOPES.VAULT_SEARCH, "Private/x.md")).toBe(false);
+    expect(hasScope(granted, SCOPES.PLUGINS_READ, "Private/x.md")).toBe(true);
+  });
+
+  test("denials without a path apply everywhere", () => {
+    const granted = parseScopes("full,!vault:delete");
+    expect(hasScope(granted, SCOPES.VAULT_DELETE)).toBe(false);
+    expect(hasScope(granted, SCOPES.VAULT_DELETE, "Scratch/x.md")).toBe(false);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Scratch/x.md")).toBe(true);
+  });
+
+  test("ignores leading and trailing slashes in paths", () => {
+    const granted = parseScopes("vault:write:/Inbox/**");
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "./Inbox/x.md")).toBe(true);
+    expect(hasScope(granted, SCOPES.VAULT_WRITE, "Inbox/")).toBe(true);
+  });
+
+  test("matches globs case-insensitively", () => {
+    const granted = parseScopes("full,!vault:read:Private/**");
+    expect(hasScope(granted, SCOPES.VAULT_READ, "private/diary.md")).toBe(
+      false,
+    );
+    expect(hasScope(granted, SCOPES.VAULT_READ, "PRIVATE")).toBe(false);
+  });
+
+  test("listings and search results leave out notes that can't be read", () => {
+    setProfileScopes("full,!vault:read:Private/**,!vault:list:Archive/**");
+    try {
+      expect(
+        filterReadableInSession(
+          SCOPES.VAULT_SEARCH,
+          ["Public/post.md", "Private/diary.md", "Archive/old.md"],
+          (path) => path,
+        ),
+      ).toEqual(["Public/post.md", "Archive/old.md"]);
+      expect(
+        filterReadableInSession(
+          SCOPES.VAULT_LIST,
+          ["Public/post.md", "Private/diary.md", "Archive/old.md"],
+          (path) => path,
+        ),
+      ).toEqual(["Public/post.md"]);
+    } finally {
+      setProfileScopes(undefined);
+    }
+  });
+
+  test("requireScope names the path that was denied", () => {
+    const granted = parseScopes("vault:write:Inbox/**");
+    expect(() =>
+      requireScope(granted, SCOPES.VAULT_WRITE, "Projects/x.md"),
+    ).toThrow(/not granted for 'Projects\/x.md'/);
+    expect(() =>
+      requireScope(granted, SCOPES.VAULT_WRITE, "Inbox/x.md"),
+    ).not.toThrow();
   });
 });
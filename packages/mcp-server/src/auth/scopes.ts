@@ -14,9 +14,10 @@ import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
  *   │   ├── vault:move
  *   │   ├── vault:search
  *   │   └── vault:list
- *   └── plugins:* (all plugin operations)
- *       ├── plugins:read
- *       └── plugins:execute
+ *   ├── plugins:* (all plugin operations)
+ *   │   ├── plugins:read
+ *   │   └── plugins:execute
+ *   └── web:fetch (fetch pages from the internet)
  */
 
 export const SCOPES = {
@@ -32,6 +33,9 @@ export const SCOPES = {
   PLUGINS_READ: "plugins:read",
   PLUGINS_EXECUTE: "plugins:execute",
 
+  // Network access
+  WEB_FETCH: "web:fetch",
+
   // Wildcards
   VAULT_ALL: "vault:*",
   PLUGINS_ALL: "plugins:*",
@@ -50,6 +54,7 @@ export const PRESETS: Record<string, Scope[]> = {
     SCOPES.VAULT_LIST,
     SCOPES.VAULT_SEARCH,
     SCOPES.PLUGINS_READ,
+    SCOPES.WEB_FETCH,
   ],
 
   // Editor access - read and write, but no delete/move
@@ -60,18 +65,114 @@ export const PRESETS: Record<string, Scope[]> = {
     SCOPES.VAULT_SEARCH,
     SCOPES.PLUGINS_READ,
     SCOPES.PLUGINS_EXECUTE,
+    SCOPES.WEB_FETCH,
   ],
 
   // Full access - all operations except admin
   full: [
     SCOPES.VAULT_ALL,
     SCOPES.PLUGINS_ALL,
+    SCOPES.WEB_FETCH,
   ],
 
   // Admin access - everything
   admin: [SCOPES.ADMIN],
 };
 
+/**
+ * A granted scope, optionally limited to vault paths:
+ * - `vault:write:Inbox/**` grants the scope only for paths matching the glob
+ * - `!vault:read:Private/**` denies the scope for matching paths, overriding
+ *   any grant
+ * - `!vault:delete` denies the scope everywhere, e.g. to narrow a preset
+ */
+export type GrantedScope =
+  | Scope
+  | `${Scope}:${string}`
+  | `!${Scope}`
+  | `!${Scope}:${string}`;
+
+/**
+ * A parsed granted scope
+ */
+interface ScopeRule {
+  scope: Scope;
+  /** Paths the rule applies to (default: all) */
+  pattern?: RegExp;
+  deny: boolean;
+}
+
+const SCOPE_RULE = /^(!?)([a-z]+:[a-z*]+)(?::(.+))?$/i;
+
+/**
+ * Convert a path glob to a RegExp:
+ * - `*` matches within one folder and `?` matches one character
+ * - `**` matches across folders; `dir/**` also matches `dir` itself
+ * - Matching ignores case, like the file systems vaults usually live on
+ */
+function globToRegExp(glob: string): RegExp {
+  const folder = glob.endsWith("/**") ? glob.slice(0, -3) : undefined;
+  const body = folder ?? glob;
+
+  let source = "";
+  for (let index = 0; index < body.length; index++) {
+    const char = body[index];
+    if (char === "*" && body[index + 1] === "*") {
+      if (body[index + 2] === "/") {
+        source += "(?:.*/)?";
+        index += 2;
+      } else {
+        source += ".*";
+        index += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+
+  return new RegExp(
+    `^${source}${folder === undefined ? "" : "(?:/.*)?"}$`,
+    "i"
+  );
+}
+
+/**
+ * Vault paths are matched without leading "./" or "/" and trailing "/"
+ */
+function normalizePath(path: string): string {
+  return path.replace(/^(\.?\/)+/, "").replace(/\/+$/, "");
+}
+
+const ruleCache = new Map<string, ScopeRule>();
+
+function parseRule(grant: GrantedScope): ScopeRule {
+  let rule = ruleCache.get(grant);
+  if (!rule) {
+    const [, deny, scope, glob] = SCOPE_RULE.exec(grant) ?? [];
+    rule = {
+      scope: scope as Scope,
+      pattern:
+        glob === undefined ? undefined : globToRegExp(normalizePath(glob)),
+      deny: deny === "!",
+    };
+    ruleCache.set(grant, rule);
+  }
+  return rule;
+}
+
+/**
+ * Whether a granted scope covers the required one, ignoring paths
+ */
+function covers(granted: Scope, required: Scope): boolean {
+  if (granted === SCOPES.ADMIN || granted === required) return true;
+  const [category] = required.split(":");
+  return granted === `${category}:*`;
+}
+
 /**
  * Parse scopes from environment variable or preset name
  *
@@ -79,8 +180,10 @@ export const PRESETS: Record<string, Scope[]> = {
  * - Preset name: "readonly", "editor", "full", "admin"
  * - Comma-separated scopes: "vault:read,vault:list,vault:search"
  * - Wildcard scopes: "vault:*,plugins:read"
+ * - Path-scoped vault grants and denials, alone or with presets:
+ *   "readonly,vault:write:Inbox/**,!vault:*:Private/**"
  */
-export function parseScopes(scopeString: string | undefined): Scope[] {
+export function parseScopes(scopeString: string | undefined): GrantedScope[] {
   if (!scopeString || scopeString.trim() === "") {
     // Default to admin for backward compatibility
     return [SCOPES.ADMIN];
@@ -93,17 +196,30 @@ export function parseScopes(scopeString: string | undefined): Scope[] {
     return PRESETS[trimmed];
   }
 
-  // Parse comma-separated scopes
-  const scopes = trimmed.split(",").map((s) => s.trim()) as Scope[];
+  // Parse comma-separated scopes, keeping the case of path globs
+  const validScopes: string[] = Object.values(SCOPES);
+  const scopes: GrantedScope[] = [];
+  for (const token of scopeString.split(",").map((s) => s.trim())) {
+    if (token.toLowerCase() in PRESETS) {
+      scopes.push(...PRESETS[token.toLowerCase()]);
+      continue;
+    }
 
-  // Validate each scope
-  const validScopes = Object.values(SCOPES);
-  for (const scope of scopes) {
-    if (!validScopes.includes(scope)) {
+    const [, deny, scope = token, glob] = SCOPE_RULE.exec(token) ?? [];
+    const normalized = scope.toLowerCase();
+    if (!validScopes.includes(normalized)) {
+      throw new Error(
+        `Invalid scope: "${token}". Valid scopes: ${validScopes.join(", ")} or presets: ${Object.keys(PRESETS).join(", ")}`
+      );
+    }
+    if (glob !== undefined && !normalized.startsWith("vault:")) {
       throw new Error(
-        `Invalid scope: "${scope}". Valid scopes: ${validScopes.join(", ")} or presets: ${Object.keys(PRESETS).join(", ")}`
+        `Invalid scope: "${token}". Only vault scopes can be limited to paths`
       );
     }
+
+    const suffix = glob === undefined ? "" : `:${glob}`;
+    scopes.push(`${deny}${normalized}${suffix}` as GrantedScope);
   }
 
   return scopes;
@@ -116,38 +232,52 @@ export function parseScopes(scopeString: string | undefined): Scope[] {
  * - "admin:*" grants everything
  * - "vault:*" grants all vault:X scopes
  * - "plugins:*" grants all plugins:X scopes
+ *
+ * With a path, path-scoped grants and denials apply to it. Without one, a
+ * scope counts as granted if it's granted for at least some paths, which
+ * only suits checks like whether a tool is listed: calls that act on a file
+ * must check its path too, or a path-scoped denial doesn't apply to them.
  */
-export function hasScope(granted: Scope[], required: Scope): boolean {
-  // admin:* grants everything
-  if (granted.includes(SCOPES.ADMIN)) {
-    return true;
-  }
+export function hasScope(
+  granted: GrantedScope[],
+  required: Scope,
+  path?: string
+): boolean {
+  const rules = granted.map(parseRule);
+  const target = path === undefined ? undefined : normalizePath(path);
+  const matches = (rule: ScopeRule) =>
+    !rule.pattern || target === undefined || rule.pattern.test(target);
 
-  // Check exact match
-  if (granted.includes(required)) {
-    return true;
-  }
+  const denied = rules.some(
+    (rule) =>
+      rule.deny &&
+      covers(rule.scope, required) &&
+      (!rule.pattern || (target !== undefined && rule.pattern.test(target)))
+  );
+  if (denied) return false;
 
-  // Check wildcard match
-  const [category] = required.split(":");
-  const wildcard = `${category}:*` as Scope;
-  if (granted.includes(wildcard)) {
-    return true;
-  }
-
-  return false;
+  return rules.some(
+    (rule) => !rule.deny && covers(rule.scope, required) && matches(rule)
+  );
 }
 
 /**
  * Require a scope, throwing McpError if not granted
  */
-export function requireScope(granted: Scope[], required: Scope): void {
-  if (!hasScope(granted, required)) {
+export function requireScope(
+  granted: GrantedScope[],
+  required: Scope,
+  path?: string
+): void {
+  if (!hasScope(granted, required, path)) {
     throw new McpError(
       ErrorCode.InvalidRequest,
-      `Permission denied: operation requires scope '${required}'. ` +
-        `Granted scopes: ${granted.join(", ") || "(none)"}. ` +
-        `To enable this operation, set OBSIDIAN_MCP_SCOPES to include '${required}' or use a preset like 'full' or 'admin'.`
+      path === undefined
+        ? `Permission denied: operation requires scope '${required}'. ` +
+            `Granted scopes: ${granted.join(", ") || "(none)"}. ` +
+            `To enable this operation, set OBSIDIAN_MCP_SCOPES to include '${required}' or use a preset like 'full' or 'admin'.`
+        : `Permission denied: scope '${required}' is not granted for '${path}'. ` +
+            `Granted scopes: ${granted.join(", ") || "(none)"}.`
     );
   }
 }
@@ -155,9 +285,9 @@ export function requireScope(granted: Scope[], required: Scope): void {
 /**
  * Get current scopes from environment
  */
-let cachedScopes: Scope[] | null = null;
+let cachedScopes: GrantedScope[] | null = null;
 
-export function getGrantedScopes(): Scope[] {
+export function getGrantedScopes(): GrantedScope[] {
   if (cachedScopes === null) {
     cachedScopes = parseScopes(process.env.OBSIDIAN_MCP_SCOPES);
   }
@@ -165,17 +295,70 @@ export function getGrantedScopes(): Scope[] {
 }
 
 /**
- * Check if current session has a scope
+ * Use a config profile's scopes instead of OBSIDIAN_MCP_SCOPES, or go back
+ * to OBSIDIAN_MCP_SCOPES with undefined
+ *
+ * @throws Error if the scopes are invalid
+ */
+export function setProfileScopes(scopeString: string | undefined): void {
+  cachedScopes = scopeString === undefined ? null : parseScopes(scopeString);
+}
+
+/**
+ * Check if current session has a scope, for a path if given
+ */
+export function currentSessionHasScope(
+  required: Scope,
+  path?: string
+): boolean {
+  return hasScope(getGrantedScopes(), required, path);
+}
+
+/**
+ * Require a scope in current session, for a path if given
  */
-export function currentSessionHasScope(required: Scope): boolean {
-  return hasScope(getGrantedScopes(), required);
+export function requireScopeInSession(required: Scope, path?: string): void {
+  requireScope(getGrantedScopes(), required, path);
 }
 
 /**
- * Require a scope in current session
+ * Keep the items whose path the current session has a scope for
  */
-export function requireScopeInSession(required: Scope): void {
-  requireScope(getGrantedScopes(), required);
+export function filterByScopeInSession<T>(
+  required: Scope,
+  items: T[],
+  getPath: (item: T) => string
+): T[] {
+  return items.filter((item) =>
+    currentSessionHasScope(required, getPath(item))
+  );
+}
+
+/**
+ * Keep the items whose path the current session has a scope for and may
+ * also read, for listings and search results: a note denied with
+ * `!vault:read:...` shouldn't show up in them or their snippets
+ */
+export function filterReadableInSession<T>(
+  required: Scope,
+  items: T[],
+  getPath: (item: T) => string
+): T[] {
+  return items.filter((item) => {
+    const path = getPath(item);
+    return (
+      currentSessionHasScope(required, path) &&
+      currentSessionHasScope(SCOPES.VAULT_READ, path)
+    );
+  });
+}
+
+/**
+ * Whether the current session has path-scoped grants or denials, so checks
+ * need the target path
+ */
+export function sessionHasPathRules(): boolean {
+  return getGrantedScopes().some((grant) => parseRule(grant).pattern);
 }
 
 /**
@@ -184,7 +367,11 @@ export function requireScopeInSession(required: Scope): void {
 export function describePermissions(): string {
   const scopes = getGrantedScopes();
 
-  if (scopes.includes(SCOPES.ADMIN)) {
+  const rules = scopes.filter(
+    (grant) => parseRule(grant).pattern || parseRule(grant).deny
+  );
+
+  if (scopes.includes(SCOPES.ADMIN) && rules.length === 0) {
     return "Full admin access (all operations allowed)";
   }
 
@@ -198,8 +385,13 @@ export function describePermissions(): string {
   if (hasScope(scopes, SCOPES.VAULT_LIST)) capabilities.push("list files");
   if (hasScope(scopes, SCOPES.PLUGINS_READ)) capabilities.push("read plugin data");
   if (hasScope(scopes, SCOPES.PLUGINS_EXECUTE)) capabilities.push("execute plugins");
+  if (hasScope(scopes, SCOPES.WEB_FETCH)) capabilities.push("fetch web pages");
 
-  return capabilities.length > 0
-    ? `Allowed: ${capabilities.join(", ")}`
-    : "No permissions granted";
+  const summary =
+    capabilities.length > 0
+      ? `Allowed: ${capabilities.join(", ")}`
+      : "No permissions granted";
+  return rules.length > 0
+    ? `${summary} (restricted by: ${rules.join(", ")})`
+    : summary;
 }
@@ -0,0 +1,99 @@
+/**
+ * Tests for searching the audit log
+ */
+
+import type { AuditEntry } from "$/shared";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, test } from "bun:test";
+import { queryAuditLog, type AuditQuery } from "./services";
+
+function entry(
+  timestamp: string,
+  tool: string,
+  path: string,
+  operation?: string,
+): AuditEntry {
+  return {
+    timestamp,
+    tool,
+    operation,
+    arguments: {},
+    targets: [{ path, before: null, after: "hash" }],
+    scopes: ["admin:*"],
+    outcome: "success",
+  };
+}
+
+const log = [
+  entry("2024-05-01T10:00:00.000Z", "create_vault_file", "Inbox/a.md"),
+  entry("2024-05-02T10:00:00.000Z", "vault", "Projects/b.md", "delete"),
+  "not json",
+  entry("2024-05-03T10:00:00.000Z", "vault", "Inbox/c.md", "write"),
+]
+  .map((line) => (typeof line === "string" ? line : JSON.stringify(line)))
+  .join("\n");
+
+function query(filter: AuditQuery) {
+  return queryAuditLog(filter, {
+    logPath: "/logs/audit.jsonl",
+    readLog: async () => log,
+  });
+}
+
+describe("queryAuditLog", () => {
+  test("returns entries newest first, skipping invalid lines", async () => {
+    const { entries, truncated } = await query({});
+    expect(entries.map((entry) => entry.timestamp)).toEqual([
+      "2024-05-03T10:00:00.000Z",
+      "2024-05-02T10:00:00.000Z",
+      "2024-05-01T10:00:00.000Z",
+    ]);
+    expect(truncated).toBe(false);
+  });
+
+  test("filters by path, time range and tool", async () => {
+    const paths = async (filter: AuditQuery) =>
+      (await query(filter)).entries.map((entry) => entry.targets[0].path);
+
+    expect(await paths({ path: "Inbox/" })).toEqual([
+      "Inbox/c.md",
+      "Inbox/a.md",
+    ]);
+    expect(await paths({ path: "Inbox/a.md" })).toEqual(["Inbox/a.md"]);
+    expect(await paths({ path: "Inbox/a" })).toEqual([]);
+    expect(
+      await paths({ since: "2024-05-02", until: "2024-05-02T23:59:59Z" }),
+    ).toEqual(["Projects/b.md"]);
+    expect(await paths({ tool: "vault" })).toEqual([
+      "Inbox/c.md",
+      "Projects/b.md",
+    ]);
+    expect(await paths({ tool: "vault.delete" })).toEqual(["Projects/b.md"]);
+  });
+
+  test("limits the number of entries", async () => {
+    const { entries, truncated } = await query({ limit: 1 });
+    expect(entries).toHaveLength(1);
+    expect(truncated).toBe(true);
+  });
+
+  test("rejects invalid times", async () => {
+    await expect(query({ since: "yesterday" })).rejects.toBeInstanceOf(
+      McpError,
+    );
+  });
+
+  test("returns nothing before the first change", async () => {
+    const missing = Object.assign(new Error("missing"), { code: "ENOENT" });
+    const result = await queryAuditLog(
+      {},
+      {
+        logPath: "/logs/audit.jsonl",
+        readLog: async () => {
+          throw missing;
+        },
+      },
+    );
+    expect(result).toEqual({ entries: [], truncated: false });
+  });
+});
@@ -0,0 +1,46 @@
+import { SCOPES, type ToolRegistry } from "$/shared";
+import { type } from "arktype";
+import { queryAuditLog } from "./services";
+
+export * from "./services";
+
+/**
+ * Register the `audit` tool, which searches the log of vault changes
+ */
+export function registerAuditTool(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"audit"',
+      arguments: {
+        "path?": type("string").describe(
+          "Only changes to this file, or to files under this folder",
+        ),
+        "since?": type("string").describe(
+          "Only changes at or after this ISO 8601 date or time",
+        ),
+        "until?": type("string").describe(
+          "Only changes at or before this ISO 8601 date or time",
+        ),
+        "tool?": type("string").describe(
+          'Only calls to this tool, or to a dispatcher operation such as "vault.delete"',
+        ),
+        "limit?": type("number.integer>0").describe(
+          "Maximum entries to return (default: 100)",
+        ),
+      },
+    }).describe(
+      "Search the audit log of vault changes made through this server, newest first. Each entry has the time, tool, arguments (with file content redacted), changed paths with content hashes before and after, and the session's scopes.",
+    ),
+    async ({ arguments: args }) => {
+      const result = await queryAuditLog(args);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.ADMIN,
+      annotations: { readOnlyHint: true },
+      vault: false,
+    },
+  );
+}
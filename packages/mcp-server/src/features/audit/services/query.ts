@@ -0,0 +1,116 @@
+import { getAuditLogPath, type AuditEntry } from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { readFile } from "node:fs/promises";
+
+const DEFAULT_LIMIT = 100;
+
+export interface AuditQuery {
+  /** A file, or a folder to match everything under it */
+  path?: string;
+  /** ISO 8601 date or time; entries before it are skipped */
+  since?: string;
+  /** ISO 8601 date or time; entries after it are skipped */
+  until?: string;
+  /** Tool name, or `tool.operation` for a dispatcher operation */
+  tool?: string;
+  /** Maximum entries to return (default: 100) */
+  limit?: number;
+}
+
+export interface AuditQueryResult {
+  /** Matching entries, newest first */
+  entries: AuditEntry[];
+  /** More entries matched than `limit` */
+  truncated: boolean;
+}
+
+export interface AuditQueryOptions {
+  /** Log file (default: `getAuditLogPath()`) */
+  logPath?: string;
+  readLog?: (path: string) => Promise<string>;
+}
+
+function parseTime(name: string, value?: string): number | undefined {
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} must be an ISO 8601 date or time, e.g. 2024-05-01T12:00:00Z`,
+    );
+  }
+  return time;
+}
+
+function matchesPath(entry: AuditEntry, path: string): boolean {
+  const folder = path.replace(/\/+$/, "");
+  return entry.targets.some(
+    (target) => target.path === folder || target.path.startsWith(`${folder}/`),
+  );
+}
+
+function matchesTool(entry: AuditEntry, tool: string): boolean {
+  return (
+    entry.tool === tool ||
+    (entry.operation !== undefined &&
+      `${entry.tool}.${entry.operation}` === tool)
+  );
+}
+
+/**
+ * Read the audit log and return the entries matching every filter.
+ * Lines that aren't valid JSON, e.g. from an interrupted write, are skipped.
+ *
+ * @throws McpError if the audit log is turned off or a time is invalid
+ */
+export async function queryAuditLog(
+  query: AuditQuery,
+  {
+    logPath = getAuditLogPath(),
+    readLog = (path) => readFile(path, "utf8"),
+  }: AuditQueryOptions = {},
+): Promise<AuditQueryResult> {
+  if (!logPath) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "The audit log is turned off (OBSIDIAN_MCP_AUDIT_LOG=off)",
+    );
+  }
+  const since = parseTime("since", query.since);
+  const until = parseTime("until", query.until);
+  const limit = query.limit ?? DEFAULT_LIMIT;
+
+  let text: string;
+  try {
+    text = await readLog(logPath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { entries: [], truncated: false };
+    }
+    throw error;
+  }
+
+  const matches: AuditEntry[] = [];
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      continue;
+    }
+
+    const time = Date.parse(entry.timestamp);
+    if (since !== undefined && time < since) continue;
+    if (until !== undefined && time > until) continue;
+    if (query.path && !matchesPath(entry, query.path)) continue;
+    if (query.tool && !matchesTool(entry, query.tool)) continue;
+    matches.push(entry);
+  }
+
+  matches.reverse();
+  return {
+    entries: matches.slice(0, limit),
+    truncated: matches.length > limit,
+  };
+}
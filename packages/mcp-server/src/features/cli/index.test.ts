@@ -0,0 +1,123 @@
+/**
+ * Tests for the command line subcommands, using a small tool registry
+ */
+
+import { ToolRegistryClass, type ToolRegistry } from "$/shared";
+import { type } from "arktype";
+import { describe, expect, it } from "bun:test";
+import { parseCallArgs, runCli } from ".";
+
+function createCli() {
+  const tools: ToolRegistry = new ToolRegistryClass();
+  tools.register(
+    type({
+      name: '"echo"',
+      arguments: { text: "string", "times?": "number" },
+    }).describe("Echo text"),
+    async ({ arguments: args }) => ({
+      content: [{ type: "text", text: args.text.repeat(args.times ?? 1) }],
+      isError: args.text === "fail",
+    }),
+  );
+
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const run = (argv: string[]) =>
+    runCli(argv, {
+      loadTools: async () => tools,
+      stdout: (text) => stdout.push(text),
+      stderr: (text) => stderr.push(text),
+    });
+  return { run, stdout, stderr };
+}
+
+describe("runCli", () => {
+  it("calls a tool and prints its result as JSON", async () => {
+    const { run, stdout } = createCli();
+
+    expect(await run(["call", "echo", "--text", "ab", "--times", "2"])).toBe(0);
+    expect(JSON.parse(stdout[0])).toEqual({
+      content: [{ type: "text", text: "abab" }],
+      isError: false,
+    });
+  });
+
+  it("exits with 1 when the tool reports an error", async () => {
+    const { run } = createCli();
+    expect(await run(["call", "echo", "--text", "fail"])).toBe(1);
+  });
+
+  it("prints errors to stderr", async () => {
+    const { run, stdout, stderr } = createCli();
+
+    expect(await run(["call", "missing"])).toBe(1);
+    expect(stdout).toEqual([]);
+    expect(JSON.parse(stderr[0]).error.message).toContain(
+      "Unknown tool: missing",
+    );
+  });
+
+  it("lists tools", async () => {
+    const { run, stdout } = createCli();
+
+    expect(await run(["list-tools"])).toBe(0);
+    expect(JSON.parse(stdout[0])).toMatchObject([
+      { name: "echo", description: "Echo text" },
+    ]);
+  });
+
+  it("prints usage for a missing tool name", async () => {
+    const { run, stderr } = createCli();
+    expect(await run(["call"])).toBe(2);
+    expect(stderr[0]).toContain("Usage:");
+  });
+});
+
+describe("parseCallArgs", () => {
+  const schema = {
+    properties: {
+      path: { type: "string" },
+      limit: { type: "number" },
+      exclude: { type: "array" },
+      dryRun: { type: "boolean" },
+    },
+  };
+
+  it("converts values to the types in the tool's schema", () => {
+    expect(
+      parseCallArgs(
+        [
+          "--path",
+          "2024",
+          "--limit=5",
+          "--exclude",
+          '["a/**"]',
+          "--dryRun",
+          "false",
+        ],
+        schema,
+      ),
+    ).toEqual({ path: "2024", limit: 5, exclude: ["a/**"], dryRun: false });
+  });
+
+  it("treats a flag without a value as true", () => {
+    expect(parseCallArgs(["--dryRun", "--path", "x.md"], schema)).toEqual({
+      dryRun: true,
+      path: "x.md",
+    });
+  });
+
+  it("merges --args JSON with flags", () => {
+    expect(
+      parseCallArgs(
+        ['--args={"path":"a.md","limit":1}', "--limit", "2"],
+        schema,
+      ),
+    ).toEqual({ path: "a.md", limit: 2 });
+    expect(() => parseCallArgs(["--args", "[1]"])).toThrow(/JSON object/);
+  });
+
+  it("rejects positional values", () => {
+    expect(() => parseCallArgs(["x.md"])).toThrow(/Unexpected argument/);
+  });
+});
@@ -0,0 +1,100 @@
+import { formatMcpError, withVault, type ToolRegistry } from "$/shared";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SERVER_INFO } from "../core";
+import { runDiagnostics, type DiagnosticsReport } from "../diagnostics";
+import { parseCallArgs, type InputSchema } from "./services";
+
+export * from "./services";
+
+/** Subcommands that run a tool from the command line instead of serving MCP */
+export const CLI_COMMANDS = ["call", "list-tools", "diagnose"] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+export function isCliCommand(command?: string): command is CliCommand {
+  return CLI_COMMANDS.includes(command as CliCommand);
+}
+
+export const CLI_USAGE = `Usage:
+  mcp-server list-tools
+  mcp-server diagnose [--vault <name>]
+  mcp-server call <tool> [--<argument> <value>]... [--args <json>]
+
+Examples:
+  mcp-server call vault --operation read --path Inbox/x.md
+  mcp-server call bulk_delete_files --match "Archive/**" --dryRun false`;
+
+export interface CliOptions {
+  /** Registers the tools, as the server would */
+  loadTools: () => Promise<ToolRegistry>;
+  /** Checks the setup (default: `runDiagnostics`) */
+  diagnose?: () => Promise<DiagnosticsReport>;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+}
+
+/**
+ * Run a command line subcommand and return the process exit code.
+ *
+ * `list-tools` prints the tools the session's scopes allow. `call` runs a
+ * tool through the same registry (and scope checks) MCP clients use and
+ * prints its result. `diagnose` checks the setup without loading the tools,
+ * so it works even when the server can't start. Output is JSON; errors go
+ * to stderr as `{ "error": { "code", "message" } }`.
+ */
+export async function runCli(
+  [command, ...argv]: string[],
+  {
+    loadTools,
+    diagnose = runDiagnostics,
+    stdout = (text) => process.stdout.write(`${text}\n`),
+    stderr = (text) => process.stderr.write(`${text}\n`),
+  }: CliOptions,
+): Promise<number> {
+  const print = (value: unknown) => stdout(JSON.stringify(value, null, 2));
+
+  try {
+    if (command === "list-tools") {
+      const tools = await loadTools();
+      print(tools.list().tools);
+      return 0;
+    }
+
+    if (command === "diagnose") {
+      const { vault } = parseCallArgs(argv);
+      const report = await withVault(
+        typeof vault === "string" ? vault : undefined,
+        () => diagnose(),
+      );
+      print(report);
+      return report.ok ? 0 : 1;
+    }
+
+    if (command === "call") {
+      const [name, ...flags] = argv;
+      if (!name || name.startsWith("--")) {
+        stderr(CLI_USAGE);
+        return 2;
+      }
+
+      const tools = await loadTools();
+      const tool = tools.list().tools.find((tool) => tool.name === name);
+      const args = parseCallArgs(flags, tool?.inputSchema as InputSchema);
+      // No client is connected: sampling tools refuse to run and deletes
+      // follow OBSIDIAN_MCP_CONFIRM_FALLBACK
+      const result = await tools.dispatch(
+        { name, arguments: args },
+        { server: new Server(SERVER_INFO, { capabilities: {} }) },
+      );
+      print(result);
+      return result.isError ? 1 : 0;
+    }
+
+    stderr(CLI_USAGE);
+    return 2;
+  } catch (error) {
+    const { code, message } = formatMcpError(error);
+    stderr(JSON.stringify({ error: { code, message } }, null, 2));
+    return 1;
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * The parts of a tool's JSON input schema used to read command line values
+ */
+export interface InputSchema {
+  properties?: Record<string, { type?: string | string[] }>;
+}
+
+/**
+ * Convert a command line value to the type the tool's schema expects.
+ * Numbers, booleans, arrays and objects are parsed; anything else stays a
+ * string, so `--path 2024` is still a path.
+ */
+function coerceValue(value: string, schemaType?: string | string[]): unknown {
+  const types = [schemaType ?? []].flat();
+  if (types.length === 0 || types.includes("string")) return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Read tool arguments from command line flags:
+ * - `--name value` or `--name=value` sets an argument
+ * - `--name` on its own sets it to true
+ * - `--args '{"name": "value"}'` sets several at once from JSON; flags win
+ *
+ * @throws Error if a positional value is given or `--args` isn't a JSON object
+ */
+export function parseCallArgs(
+  argv: string[],
+  inputSchema: InputSchema = {},
+): Record<string, unknown> {
+  const flags: Record<string, unknown> = {};
+  let base: Record<string, unknown> = {};
+
+  for (let index = 0; index < argv.length; index++) {
+    const token = argv[index];
+    if (!token.startsWith("--") || token === "--") {
+      throw new Error(`Unexpected argument: "${token}". Use --name value`);
+    }
+
+    const [name, inline] = splitFlag(token.slice(2));
+    const next = argv[index + 1];
+    let value: string | undefined = inline;
+    if (value === undefined && next !== undefined && !next.startsWith("--")) {
+      value = next;
+      index++;
+    }
+
+    if (name === "args") {
+      const parsed = value === undefined ? undefined : tryParseJson(value);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("--args must be a JSON object");
+      }
+      base = parsed as Record<string, unknown>;
+      continue;
+    }
+
+    flags[name] =
+      value === undefined
+        ? true
+        : coerceValue(value, inputSchema.properties?.[name]?.type);
+  }
+
+  return { ...base, ...flags };
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+  const equals = flag.indexOf("=");
+  return equals === -1
+    ? [flag, undefined]
+    : [flag.slice(0, equals), flag.slice(equals + 1)];
+}
+
+function tryParseJson(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  filterReadableInSession,
+  formatMcpError,
+  listVaultFiles,
+  logger,
+  makeRequest,
+  parseTemplateParameters,
+  SCOPES,
+} from "$/shared";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CompleteRequestSchema,
+  type CompleteResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { LocalRestAPI } from "shared";
+import { pluginRegistry } from "../dispatchers";
+import { PROMPT_DIRNAME } from "../prompts";
+import {
+  NOTE_URI_TEMPLATE,
+  PLUGIN_URI_TEMPLATE,
+  TEMPLATE_URI_TEMPLATE,
+} from "../resources";
+import { rankCompletions } from "./services";
+
+export * from "./services";
+
+/** How long the vault file list is reused between keystrokes */
+const FILE_CACHE_TTL_MS = 10_000;
+
+type CompletionSource = "path" | "template" | "plugin";
+
+const EMPTY_COMPLETION: CompleteResult = {
+  completion: { values: [], total: 0, hasMore: false },
+};
+
+let fileCache: { files: string[]; expires: number } | undefined;
+let pendingFiles: Promise<string[]> | undefined;
+
+/**
+ * Lists vault files, caching the result briefly so that completion
+ * requests sent on every keystroke don't walk the vault each time.
+ */
+async function getVaultFiles(): Promise<string[]> {
+  if (fileCache && fileCache.expires > Date.now()) return fileCache.files;
+
+  pendingFiles ??= listVaultFiles()
+    .then((files) => {
+      fileCache = { files, expires: Date.now() + FILE_CACHE_TTL_MS };
+      return files;
+    })
+    .finally(() => {
+      pendingFiles = undefined;
+    });
+  return pendingFiles;
+}
+
+/**
+ * Markdown files inside a templates folder, or every Markdown file if the
+ * vault has no folder named like "Templates".
+ */
+function getTemplateCandidates(files: string[]): string[] {
+  const markdown = files.filter((file) => file.endsWith(".md"));
+  const templates = markdown.filter((file) =>
+    file
+      .split("/")
+      .slice(0, -1)
+      .some((segment) => /templates?/i.test(segment)),
+  );
+  return templates.length > 0 ? templates : markdown;
+}
+
+/**
+ * Vault files the session may list and read, like listings and search
+ * results: completions mustn't reveal paths its scopes hide
+ */
+async function getReadableFiles(): Promise<string[]> {
+  return filterReadableInSession(
+    SCOPES.VAULT_LIST,
+    await getVaultFiles(),
+    (file) => file,
+  );
+}
+
+async function getCandidates(source: CompletionSource): Promise<string[]> {
+  switch (source) {
+    case "plugin":
+      return pluginRegistry.listIds();
+    case "template":
+      return getTemplateCandidates(await getReadableFiles());
+    case "path":
+      return getReadableFiles();
+  }
+}
+
+/**
+ * Picks a completion source for a resource template variable
+ */
+function getResourceSource(
+  uri: string,
+  argument: string,
+): CompletionSource | undefined {
+  if (uri === NOTE_URI_TEMPLATE && argument === "path") return "path";
+  if (uri === TEMPLATE_URI_TEMPLATE && argument === "name") return "template";
+  if (uri === PLUGIN_URI_TEMPLATE && argument === "plugin") return "plugin";
+  return undefined;
+}
+
+/**
+ * Picks a completion source for a prompt argument from its name.
+ * Arguments are declared in the prompt file via `tp.mcpTools.prompt()`;
+ * only arguments that exist in the prompt are completed.
+ */
+async function getPromptSource(
+  name: string,
+  argument: string,
+): Promise<CompletionSource | undefined> {
+  const { content } = await makeRequest(
+    LocalRestAPI.ApiVaultFileResponse,
+    `/vault/${PROMPT_DIRNAME}/${name}`,
+    { headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON } },
+  );
+  const parameter = parseTemplateParameters(content).find(
+    (param) => param.name === argument,
+  );
+  if (!parameter) return undefined;
+
+  if (/plugin/i.test(argument)) return "plugin";
+  if (/template/i.test(argument)) return "template";
+  if (/path|file|note|folder|directory/i.test(argument)) return "path";
+  return undefined;
+}
+
+/**
+ * Register the `completion/complete` handler on a session's server.
+ *
+ * Completes resource template variables (note paths, template names and
+ * plugin ids) and prompt arguments whose names refer to one of those.
+ */
+export function setupObsidianCompletion(server: Server) {
+  server.setRequestHandler(CompleteRequestSchema, async ({ params }) => {
+    try {
+      const { ref, argument } = params;
+      const source =
+        ref.type === "ref/resource"
+          ? getResourceSource(ref.uri, argument.name)
+          : await getPromptSource(ref.name, argument.name);
+      if (!source) return EMPTY_COMPLETION;
+
+      const candidates = await getCandidates(source);
+      return { completion: rankCompletions(candidates, argument.value) };
+    } catch (err) {
+      const error = formatMcpError(err);
+      logger.error("Error in CompleteRequestSchema handler", {
+        error,
+        message: error.message,
+      });
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import { describe, expect, test } from "bun:test";
+import { rankCompletions, scoreCompletion } from "./match";
+
+describe("scoreCompletion", () => {
+  test("prefers full-path prefix matches", () => {
+    expect(scoreCompletion("Inbox/Idea.md", "inb")).toBe(0);
+  });
+
+  test("matches the basename prefix", () => {
+    expect(scoreCompletion("Inbox/Idea.md", "ide")).toBe(1);
+  });
+
+  test("matches substrings", () => {
+    expect(scoreCompletion("Inbox/Idea.md", "dea")).toBe(2);
+  });
+
+  test("matches fuzzy subsequences", () => {
+    expect(scoreCompletion("Inbox/Idea.md", "ixmd")).toBe(3);
+  });
+
+  test("returns undefined when nothing matches", () => {
+    expect(scoreCompletion("Inbox/Idea.md", "zzz")).toBeUndefined();
+  });
+});
+
+describe("rankCompletions", () => {
+  const files = [
+    "Projects/Daily Review.md",
+    "Daily/2024-01-01.md",
+    "Templates/Daily.md",
+    "Archive/old-daily-notes.md",
+    "Inbox/Idea.md",
+  ];
+
+  test("orders by match quality, then length", () => {
+    const { values } = rankCompletions(files, "daily");
+    expect(values).toEqual([
+      "Daily/2024-01-01.md",
+      "Templates/Daily.md",
+      "Projects/Daily Review.md",
+      "Archive/old-daily-notes.md",
+    ]);
+  });
+
+  test("returns everything for empty input", () => {
+    const { values, total } = rankCompletions(files, "");
+    expect(total).toBe(files.length);
+    expect(values[0]).toBe("Inbox/Idea.md");
+  });
+
+  test("limits results and reports hasMore", () => {
+    const result = rankCompletions(files, "", 2);
+    expect(result.values).toHaveLength(2);
+    expect(result.total).toBe(5);
+    expect(result.hasMore).toBe(true);
+  });
+
+  test("deduplicates candidates", () => {
+    const { values } = rankCompletions(["a.md", "a.md"], "a");
+    expect(values).toEqual(["a.md"]);
+  });
+});
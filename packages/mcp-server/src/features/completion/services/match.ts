@@ -0,0 +1,71 @@
+/** Maximum number of values in a completion/complete response (MCP spec) */
+export const MAX_COMPLETION_VALUES = 100;
+
+export interface RankedCompletions {
+  values: string[];
+  total: number;
+  hasMore: boolean;
+}
+
+/**
+ * Scores how well a candidate matches the typed input (lower is better).
+ * Returns undefined if the candidate does not match at all.
+ *
+ * - 0: the full value starts with the input
+ * - 1: the last path segment starts with the input
+ * - 2: the input appears anywhere in the value
+ * - 3: the input characters appear in order (fuzzy subsequence)
+ */
+export function scoreCompletion(
+  candidate: string,
+  input: string,
+): number | undefined {
+  const value = candidate.toLowerCase();
+  const query = input.toLowerCase();
+
+  if (value.startsWith(query)) return 0;
+  const basename = value.slice(value.lastIndexOf("/") + 1);
+  if (basename.startsWith(query)) return 1;
+  if (value.includes(query)) return 2;
+
+  let position = 0;
+  for (const char of query) {
+    position = value.indexOf(char, position);
+    if (position === -1) return undefined;
+    position++;
+  }
+  return 3;
+}
+
+/**
+ * Ranks candidates against the typed input using prefix and fuzzy matching.
+ * Ties are broken by length, then alphabetically.
+ *
+ * @param candidates - All possible values
+ * @param input - The partial value typed so far
+ * @param limit - Maximum number of values returned
+ */
+export function rankCompletions(
+  candidates: Iterable<string>,
+  input: string,
+  limit = MAX_COMPLETION_VALUES,
+): RankedCompletions {
+  const scored: { value: string; score: number }[] = [];
+  for (const value of new Set(candidates)) {
+    const score = scoreCompletion(value, input);
+    if (score !== undefined) scored.push({ value, score });
+  }
+
+  scored.sort(
+    (a, b) =>
+      a.score - b.score ||
+      a.value.length - b.value.length ||
+      a.value.localeCompare(b.value),
+  );
+
+  return {
+    values: scored.slice(0, limit).map(({ value }) => value),
+    total: scored.length,
+    hasMore: scored.length > limit,
+  };
+}
@@ -0,0 +1,310 @@
+import { logger } from "$/shared";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import {
+  ErrorCode,
+  isInitializeRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { isLoopbackHost, type TransportOptions } from "./transport";
+
+/** Largest request body read before the session exists, like the SDK's */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * How long a session has to finish initializing (the client's
+ * `notifications/initialized`) before it's closed
+ */
+const INITIALIZE_TIMEOUT_MS = 30_000;
+
+/** Thrown by `readJsonBody` when the body is over `MAX_BODY_BYTES` */
+class BodyTooLargeError extends Error {}
+
+export interface HttpTransportHandle {
+  /** Address the HTTP server is listening on */
+  url: string;
+  /** Number of open MCP sessions */
+  sessionCount: () => number;
+  /** Close all sessions and stop listening */
+  close: () => Promise<void>;
+}
+
+/**
+ * Serve MCP over Streamable HTTP.
+ *
+ * Every client session gets its own `Server` instance (and therefore its
+ * own negotiated capabilities and notification channel) from
+ * `createSessionServer`, while the tool registry behind it is shared.
+ * Sessions are keyed by the `Mcp-Session-Id` header issued on initialize,
+ * and closed after `options.sessionTtlMs` without a request or an open SSE
+ * stream, or if they don't finish initializing.
+ *
+ * With `options.token`, every request needs `Authorization: Bearer <token>`.
+ * Without one the server refuses to listen on anything but loopback.
+ */
+export async function startHttpTransport(
+  createSessionServer: () => Server,
+  options: TransportOptions,
+): Promise<HttpTransportHandle> {
+  if (!options.token && !isLoopbackHost(options.host)) {
+    throw new Error(
+      `Refusing to serve HTTP on ${options.host} without a token. Set OBSIDIAN_MCP_HTTP_TOKEN, or bind to 127.0.0.1.`,
+    );
+  }
+
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+  const lastSeen = new Map<string, number>();
+  /** When each session that hasn't finished initializing was opened */
+  const initializing = new Map<string, number>();
+  /** Number of open SSE streams of each session */
+  const openStreams = new Map<string, number>();
+
+  // A session listening on a stream isn't idle, however long it's quiet
+  const trackStream = (sessionId: string, res: ServerResponse) => {
+    openStreams.set(sessionId, (openStreams.get(sessionId) ?? 0) + 1);
+    res.on("close", () => {
+      const count = (openStreams.get(sessionId) ?? 1) - 1;
+      if (count > 0) openStreams.set(sessionId, count);
+      else openStreams.delete(sessionId);
+      if (transports.has(sessionId)) lastSeen.set(sessionId, Date.now());
+    });
+  };
+
+  // Guard against DNS rebinding when only serving the local machine
+  const allowedHosts = isLoopbackHost(options.host)
+    ? [
+        `${options.host}:${options.port}`,
+        `localhost:${options.port}`,
+        `127.0.0.1:${options.port}`,
+        `[::1]:${options.port}`,
+      ]
+    : undefined;
+
+  const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+    const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+    if (url.pathname !== options.path) {
+      sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Not found");
+      return;
+    }
+
+    if (options.token && !hasBearerToken(req, options.token)) {
+      res.setHeader("WWW-Authenticate", "Bearer");
+      sendJsonRpcError(res, 401, ErrorCode.InvalidRequest, "Unauthorized");
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const transport = transports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, ErrorCode.InvalidRequest, "Session not found");
+        return;
+      }
+      lastSeen.set(sessionId, Date.now());
+      if (req.method === "GET") trackStream(sessionId, res);
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== "POST") {
+      sendJsonRpcError(
+        res,
+        400,
+        ErrorCode.InvalidRequest,
+        "Bad Request: No valid session ID provided",
+      );
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      if (!(error instanceof BodyTooLargeError)) throw error;
+      res.setHeader("Connection", "close");
+      sendJsonRpcError(
+        res,
+        413,
+        ErrorCode.InvalidRequest,
+        `Request body is larger than ${MAX_BODY_BYTES} bytes`,
+      );
+      return;
+    }
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(
+        res,
+        400,
+        ErrorCode.InvalidRequest,
+        "Bad Request: Server not initialized",
+      );
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        transports.set(id, transport);
+        lastSeen.set(id, Date.now());
+        initializing.set(id, Date.now());
+        logger.debug("HTTP session opened", { sessionId: id });
+      },
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts,
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        transports.delete(transport.sessionId);
+        lastSeen.delete(transport.sessionId);
+        initializing.delete(transport.sessionId);
+        openStreams.delete(transport.sessionId);
+        logger.debug("HTTP session closed", { sessionId: transport.sessionId });
+      }
+    };
+
+    const server = createSessionServer();
+    const { oninitialized } = server;
+    server.oninitialized = () => {
+      if (transport.sessionId) initializing.delete(transport.sessionId);
+      oninitialized?.();
+    };
+    await server.connect(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A failed initialize leaves no session to close the server with later
+      if (!transport.sessionId || !transports.has(transport.sessionId)) {
+        await server.close().catch((error) => {
+          logger.warn("Failed to close uninitialized HTTP session", { error });
+        });
+      }
+    }
+  };
+
+  const httpServer = createServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      logger.error("Error handling HTTP request", {
+        error: error instanceof Error ? error.message : String(error),
+        method: req.method,
+        url: req.url,
+      });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, ErrorCode.InternalError, "Internal server error");
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  // Close sessions whose client went away without ending them, or never
+  // finished initializing
+  const sweep = setInterval(
+    () => {
+      const idleSince = Date.now() - options.sessionTtlMs;
+      const initializingSince = Date.now() - INITIALIZE_TIMEOUT_MS;
+      for (const [id, seen] of lastSeen) {
+        const opened = initializing.get(id);
+        const stale =
+          opened === undefined
+            ? seen <= idleSince && !openStreams.has(id)
+            : opened <= initializingSince;
+        if (!stale) continue;
+        logger.debug("Closing idle HTTP session", { sessionId: id });
+        lastSeen.delete(id);
+        const transport = transports.get(id);
+        transport?.close().catch((error) => {
+          logger.warn("Failed to close idle HTTP session", { error });
+        });
+      }
+    },
+    Math.min(options.sessionTtlMs, INITIALIZE_TIMEOUT_MS),
+  );
+  sweep.unref();
+
+  const url = `http://${options.host}:${options.port}${options.path}`;
+  logger.info("Streamable HTTP transport listening", { url });
+
+  return {
+    url,
+    sessionCount: () => transports.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(
+        Array.from(transports.values()).map((transport) => transport.close()),
+      );
+      transports.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+/**
+ * Whether the request carries the bearer token, compared in constant time
+ */
+function hasBearerToken(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer (.+)$/i.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(token));
+}
+
+/**
+ * Read and parse a JSON request body, or undefined if it isn't JSON
+ *
+ * @throws BodyTooLargeError if the body is over `MAX_BODY_BYTES`; the rest
+ *   of it is drained so a 413 can still be sent
+ */
+function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+    req.resume();
+    return Promise.reject(new BodyTooLargeError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer | string) => {
+      if (size > MAX_BODY_BYTES) return;
+      const buffer = typeof chunk === "string" ? Buffer.from(chunk) : chunk;
+      size += buffer.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new BodyTooLargeError());
+        return;
+      }
+      chunks.push(buffer);
+    });
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        resolve(undefined);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  code: ErrorCode,
+  message: string,
+) {
+  res.writeHead(status, { "Content-Type": "application/json" }).end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code, message },
+      id: null,
+    }),
+  );
+}
@@ -1,85 +1,274 @@
-import { logger, type ToolRegistry, ToolRegistryClass } from "$/shared";
+import {
+  logger,
+  redactArguments,
+  SCOPES,
+  setProfileScopes,
+  type ToolRegistry,
+  ToolRegistryClass,
+} from "$/shared";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { registerAuditTool } from "../audit";
+import { setupObsidianCompletion } from "../completion";
+import { registerDiagnosticsTool } from "../diagnostics";
 import { registerFetchTool } from "../fetch";
+import { registerHistoryTool } from "../history";
 import { registerLocalRestApiTools } from "../local-rest-api";
+import { ClientLogging } from "../logging";
+import { registerPendingChangesTool } from "../pending-changes";
 import { setupObsidianPrompts } from "../prompts";
+import { ResourceSubscriptions, setupObsidianResources } from "../resources";
+import { registerSamplingTools } from "../sampling";
 import { registerSmartConnectionsTools } from "../smart-connections";
 import { registerTemplaterTools } from "../templates";
-import { registerDispatcherTools } from "../dispatchers";
+import { registerTrashTool } from "../trash";
+import {
+  applyLegacyConfig,
+  CONFIG_FILENAME,
+  configManager,
+  loadConfigFile,
+  PluginConfigSync,
+  PluginMonitor,
+  registerDispatcherTools,
+  type DispatcherConfig,
+} from "../dispatchers";
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
+import { startHttpTransport, type HttpTransportHandle } from "./http";
+import { parseTransportOptions, type TransportOptions } from "./transport";
+
+/** Name and version the server reports to clients */
+export const SERVER_INFO = {
+  name: "obsidian-mcp-tools",
+  version: "0.1.0",
+};
 
 export class ObsidianMcpServer {
-  private server: Server;
   private tools: ToolRegistry;
+  private sessions = new Set<Server>();
+  private subscriptions = new ResourceSubscriptions();
+  private logging = new ClientLogging();
+  private removeLogSink: () => void;
+  private http?: HttpTransportHandle;
+  private legacyTools: string[] = [];
+  private configSync = new PluginConfigSync({
+    onChange: (config) => this.applyConfig(config),
+  });
+  private pluginMonitor = new PluginMonitor({
+    onChange: () => {
+      this.applyConfig();
+      // The plugin tool's description lists the available plugins
+      this.tools.notifyListChanged();
+    },
+  });
+  private toolListChangePending = false;
+  /** Settles once the config and plugin state have been loaded */
+  private configLoaded: Promise<void> = Promise.resolve();
 
   constructor() {
-    this.server = new Server(
-      {
-        name: "obsidian-mcp-tools",
-        version: "0.1.0",
-      },
-      {
-        capabilities: {
-          tools: {},
-          prompts: {},
-        },
-      },
-    );
-
     this.tools = new ToolRegistryClass();
+    this.tools.onListChanged(() => this.sendToolListChanged());
+    this.removeLogSink = logger.addSink(this.logging.forward);
 
-    this.setupHandlers();
-
-    // Error handling
-    this.server.onerror = (error) => {
-      logger.error("Server error", { error });
-      console.error("[MCP Tools Error]", error);
-    };
     process.on("SIGINT", async () => {
-      await this.server.close();
+      await this.close();
       process.exit(0);
     });
   }
 
-  private setupHandlers() {
-    setupObsidianPrompts(this.server);
+  /**
+   * Register every tool with the default dispatcher config
+   */
+  private registerTools() {
+    // These have no dispatcher equivalent, so they are not legacy tools
+    registerFetchTool(this.tools);
+    registerSamplingTools(this.tools);
+    registerDiagnosticsTool(this.tools);
+    registerAuditTool(this.tools);
+    registerTrashTool(this.tools);
+    registerHistoryTool(this.tools);
+    registerPendingChangesTool(this.tools);
 
     // Register legacy tools (backward compatibility)
-    registerFetchTool(this.tools, this.server);
-    registerLocalRestApiTools(this.tools, this.server);
+    const existing = new Set(this.tools.names());
+    registerLocalRestApiTools(this.tools);
     registerSmartConnectionsTools(this.tools);
     registerTemplaterTools(this.tools);
+    this.legacyTools = this.tools.names().filter((name) => !existing.has(name));
 
     // Register new unified dispatcher tools
     // These provide the same functionality with ~70% less context usage
-    registerDispatcherTools(this.tools);
-
-    this.server.setRequestHandler(ListToolsRequestSchema, this.tools.list);
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      logger.debug("Handling request", { request });
-      const response = await this.tools.dispatch(request.params, {
-        server: this.server,
-      });
-      logger.debug("Request handled", { response });
-      return response;
+    this.applyConfig();
+  }
+
+  /**
+   * Load the dispatcher config and apply it, then check which plugins are
+   * available. Sessions are told the tool list changed.
+   *
+   * @param watch - Keep following plugin settings and plugin availability
+   *   (false for one-off command line calls)
+   */
+  private async loadConfig({ watch = true } = {}) {
+    const loaded = await loadConfigFile();
+    if (loaded) {
+      logger.info("Loaded MCP Tools config", { source: loaded.source });
+      this.applyConfig(loaded.config);
+    }
+
+    // Without a config file, follow the settings saved in the Obsidian plugin
+    if (!loaded) {
+      await this.configSync.refresh();
+      if (watch) this.configSync.start();
+    }
+
+    // Serving every tool would defeat the point of choosing a profile
+    const profile = process.env.OBSIDIAN_MCP_PROFILE?.trim();
+    if (profile && !configManager.getProfileName()) {
+      throw new Error(
+        `OBSIDIAN_MCP_PROFILE is "${profile}", but no MCP Tools config was found. Define the profile in ${CONFIG_FILENAME}.`,
+      );
+    }
+
+    // Follow plugins being enabled or disabled in Obsidian
+    await this.pluginMonitor.refresh();
+    if (watch) this.pluginMonitor.start();
+  }
+
+  /**
+   * Register the tools once, as `run` would, without serving MCP.
+   * Used by the command line to call tools directly.
+   */
+  async loadTools(): Promise<ToolRegistry> {
+    this.registerTools();
+    await this.loadConfig({ watch: false });
+    return this.tools;
+  }
+
+  /**
+   * Apply a dispatcher config (or re-apply the current one) to the tools
+   */
+  private applyConfig(config?: DispatcherConfig) {
+    registerDispatcherTools(this.tools, config);
+    applyLegacyConfig(this.tools, this.legacyTools);
+  }
+
+  /**
+   * Send `notifications/tools/list_changed` to every session, once for all
+   * the changes made in the same tick
+   */
+  private sendToolListChanged() {
+    if (this.toolListChangePending) return;
+    this.toolListChangePending = true;
+    queueMicrotask(() => {
+      this.toolListChangePending = false;
+      for (const server of this.sessions) {
+        server.sendToolListChanged().catch((error) => {
+          logger.warn("Failed to send tool list change", { error });
+        });
+      }
     });
   }
 
-  async run() {
-    logger.debug("Starting server...");
-    const transport = new StdioServerTransport();
+  /**
+   * Create an MCP server for a single client session.
+   *
+   * stdio mode creates exactly one; HTTP mode creates one per session.
+   * All sessions share the same tool registry.
+   */
+  createServer(): Server {
+    const server = new Server(SERVER_INFO, {
+      capabilities: {
+        tools: { listChanged: true },
+        prompts: {},
+        resources: { subscribe: true, listChanged: true },
+        completions: {},
+        logging: {},
+      },
+    });
+
+    setupObsidianPrompts(server);
+    setupObsidianResources(server, this.subscriptions);
+    setupObsidianCompletion(server);
+    this.logging.attach(server);
+
+    server.setRequestHandler(ListToolsRequestSchema, this.tools.list);
+    server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+      this.logging.runInSession(server, async () => {
+        // Calls wait for the config, whose profile may narrow the scopes
+        await this.configLoaded;
+        logger.debug("Handling request", {
+          tool: request.params.name,
+          arguments: redactArguments(request.params.arguments),
+        });
+        const response = await this.tools.dispatch(request.params, {
+          server,
+          progressToken: request.params._meta?.progressToken,
+          signal: extra.signal,
+        });
+        logger.debug("Request handled", { response });
+        return response;
+      }),
+    );
+
+    // Error handling
+    server.onerror = (error) => {
+      logger.error("Server error", { error });
+      console.error("[MCP Tools Error]", error);
+    };
+    server.onclose = () => {
+      this.sessions.delete(server);
+      this.subscriptions.detach(server);
+      this.logging.detach(server);
+    };
+
+    this.sessions.add(server);
+    return server;
+  }
+
+  async run(options: TransportOptions = parseTransportOptions()) {
+    logger.debug("Starting server...", { transport: options.mode });
     try {
-      await this.server.connect(transport);
+      // Serve the default tools while the config loads, so clients can
+      // connect without waiting on Obsidian. A profile may narrow the
+      // scopes, so with one selected nothing is allowed until it's loaded.
+      if (process.env.OBSIDIAN_MCP_PROFILE?.trim()) {
+        setProfileScopes(`!${SCOPES.ADMIN}`);
+      }
+      this.registerTools();
+      this.configLoaded = this.loadConfig().catch((err) => this.fail(err));
+
+      if (options.mode === "http") {
+        this.http = await startHttpTransport(
+          () => this.createServer(),
+          options,
+        );
+        console.error(`MCP Tools for Obsidian listening on ${this.http.url}`);
+      } else {
+        await this.createServer().connect(new StdioServerTransport());
+      }
       logger.debug("Server started successfully");
     } catch (err) {
-      logger.fatal("Failed to start server", {
-        error: err instanceof Error ? err.message : String(err),
-      });
-      process.exit(1);
+      this.fail(err);
     }
   }
+
+  private fail(err: unknown): never {
+    const message = err instanceof Error ? err.message : String(err);
+    logger.fatal("Failed to start server", { error: message });
+    console.error(`Failed to start MCP Tools for Obsidian: ${message}`);
+    process.exit(1);
+  }
+
+  async close() {
+    this.configSync.stop();
+    this.pluginMonitor.stop();
+    this.removeLogSink();
+    this.subscriptions.stop();
+    await this.http?.close();
+    await Promise.all(
+      Array.from(this.sessions).map((server) => server.close()),
+    );
+  }
 }
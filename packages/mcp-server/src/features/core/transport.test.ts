@@ -0,0 +1,102 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DEFAULT_TRANSPORT_OPTIONS,
+  isLoopbackHost,
+  parseTransportOptions,
+} from "./transport";
+
+describe("parseTransportOptions", () => {
+  test("defaults to stdio", () => {
+    expect(parseTransportOptions([], {})).toEqual(DEFAULT_TRANSPORT_OPTIONS);
+  });
+
+  test("selects http via --http flag", () => {
+    const options = parseTransportOptions(["--http"], {});
+    expect(options.mode).toBe("http");
+    expect(options.host).toBe("127.0.0.1");
+    expect(options.port).toBe(27125);
+  });
+
+  test("selects http via environment variable", () => {
+    expect(
+      parseTransportOptions([], { OBSIDIAN_MCP_TRANSPORT: "HTTP" }).mode,
+    ).toBe("http");
+  });
+
+  test("CLI flags override environment variables", () => {
+    const options = parseTransportOptions(
+      ["--transport", "http", "--port", "9000", "--host", "0.0.0.0"],
+      {
+        OBSIDIAN_MCP_TRANSPORT: "stdio",
+        OBSIDIAN_MCP_HTTP_PORT: "8000",
+        OBSIDIAN_MCP_HTTP_HOST: "localhost",
+      },
+    );
+    expect(options).toEqual({
+      mode: "http",
+      host: "0.0.0.0",
+      port: 9000,
+      path: "/mcp",
+      sessionTtlMs: 30 * 60_000,
+    });
+  });
+
+  test("reads host and port from environment", () => {
+    const options = parseTransportOptions([], {
+      OBSIDIAN_MCP_HTTP_HOST: "localhost",
+      OBSIDIAN_MCP_HTTP_PORT: "8123",
+    });
+    expect(options.host).toBe("localhost");
+    expect(options.port).toBe(8123);
+  });
+
+  test("reads the token and session TTL from environment", () => {
+    const options = parseTransportOptions(["--http"], {
+      OBSIDIAN_MCP_HTTP_TOKEN: " s3cret ",
+      OBSIDIAN_MCP_HTTP_SESSION_TTL: "5",
+    });
+    expect(options.token).toBe("s3cret");
+    expect(options.sessionTtlMs).toBe(5 * 60_000);
+    expect(
+      parseTransportOptions([], { OBSIDIAN_MCP_HTTP_TOKEN: " " }).token,
+    ).toBeUndefined();
+  });
+
+  test("throws on invalid session TTL", () => {
+    expect(() =>
+      parseTransportOptions([], { OBSIDIAN_MCP_HTTP_SESSION_TTL: "0" }),
+    ).toThrow(/Invalid OBSIDIAN_MCP_HTTP_SESSION_TTL/);
+  });
+
+  test("ignores unrelated flags", () => {
+    expect(parseTransportOptions(["--version"], {}).mode).toBe("stdio");
+  });
+
+  test("throws on invalid transport", () => {
+    expect(() => parseTransportOptions(["--transport", "sse"], {})).toThrow(
+      /Invalid transport/,
+    );
+  });
+
+  test("throws on invalid port", () => {
+    expect(() => parseTransportOptions(["--port", "abc"], {})).toThrow(
+      /Invalid HTTP port/,
+    );
+    expect(() => parseTransportOptions(["--port", "70000"], {})).toThrow(
+      /Invalid HTTP port/,
+    );
+  });
+});
+
+describe("isLoopbackHost", () => {
+  test("recognizes loopback addresses", () => {
+    expect(isLoopbackHost("127.0.0.1")).toBe(true);
+    expect(isLoopbackHost("localhost")).toBe(true);
+    expect(isLoopbackHost("::1")).toBe(true);
+  });
+
+  test("rejects non-loopback addresses", () => {
+    expect(isLoopbackHost("0.0.0.0")).toBe(false);
+    expect(isLoopbackHost("192.168.1.10")).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { parseArgs } from "node:util";
+
+/**
+ * How the server talks to MCP clients.
+ *
+ * - stdio: one client per process (the default, used by Claude Desktop)
+ * - http: Streamable HTTP, one long-lived process shared by many clients
+ */
+export type TransportMode = "stdio" | "http";
+
+export interface TransportOptions {
+  mode: TransportMode;
+  /** Interface to bind the HTTP server to (default: 127.0.0.1) */
+  host: string;
+  /** Port to bind the HTTP server to (default: 27125) */
+  port: number;
+  /** URL path of the MCP endpoint (default: /mcp) */
+  path: string;
+  /** Bearer token HTTP clients must send (required off loopback) */
+  token?: string;
+  /** Idle time after which an HTTP session is closed (default: 30 minutes) */
+  sessionTtlMs: number;
+}
+
+export const DEFAULT_TRANSPORT_OPTIONS: TransportOptions = {
+  mode: "stdio",
+  host: "127.0.0.1",
+  // Next to the Local REST API's 27123 (HTTP) and 27124 (HTTPS)
+  port: 27125,
+  path: "/mcp",
+  sessionTtlMs: 30 * 60_000,
+};
+
+/**
+ * Resolve transport options from CLI flags and environment variables.
+ * CLI flags take precedence over environment variables.
+ *
+ * Flags:
+ *   --http                 Shorthand for --transport http
+ *   --transport <mode>     "stdio" or "http"
+ *   --host <host>          HTTP bind address
+ *   --port <port>          HTTP port
+ *
+ * Environment:
+ *   OBSIDIAN_MCP_TRANSPORT, OBSIDIAN_MCP_HTTP_HOST, OBSIDIAN_MCP_HTTP_PORT,
+ *   OBSIDIAN_MCP_HTTP_TOKEN (only from the environment, so it isn't visible
+ *   in the process list), OBSIDIAN_MCP_HTTP_SESSION_TTL (minutes)
+ */
+export function parseTransportOptions(
+  argv: string[] = process.argv.slice(2),
+  env: Record<string, string | undefined> = process.env,
+): TransportOptions {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      http: { type: "boolean" },
+      transport: { type: "string" },
+      host: { type: "string" },
+      port: { type: "string" },
+    },
+    strict: false,
+    allowPositionals: true,
+  });
+
+  const mode =
+    values.http === true
+      ? "http"
+      : (stringValue(values.transport) ?? env.OBSIDIAN_MCP_TRANSPORT ?? "")
+          .trim()
+          .toLowerCase() || DEFAULT_TRANSPORT_OPTIONS.mode;
+  if (mode !== "stdio" && mode !== "http") {
+    throw new Error(
+      `Invalid transport: "${mode}". Valid transports: stdio, http`,
+    );
+  }
+
+  const host =
+    stringValue(values.host) ??
+    env.OBSIDIAN_MCP_HTTP_HOST ??
+    DEFAULT_TRANSPORT_OPTIONS.host;
+
+  const rawPort = stringValue(values.port) ?? env.OBSIDIAN_MCP_HTTP_PORT;
+  const port = rawPort ? Number(rawPort) : DEFAULT_TRANSPORT_OPTIONS.port;
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(
+      `Invalid HTTP port: "${rawPort}". Expected an integer between 1 and 65535`,
+    );
+  }
+
+  const rawTtl = env.OBSIDIAN_MCP_HTTP_SESSION_TTL?.trim();
+  const ttlMinutes = rawTtl ? Number(rawTtl) : undefined;
+  if (
+    ttlMinutes !== undefined &&
+    (!Number.isFinite(ttlMinutes) || ttlMinutes <= 0)
+  ) {
+    throw new Error(
+      `Invalid OBSIDIAN_MCP_HTTP_SESSION_TTL: "${rawTtl}". Expected a positive number of minutes`,
+    );
+  }
+
+  return {
+    mode,
+    host,
+    port,
+    path: DEFAULT_TRANSPORT_OPTIONS.path,
+    token: env.OBSIDIAN_MCP_HTTP_TOKEN?.trim() || undefined,
+    sessionTtlMs:
+      ttlMinutes === undefined
+        ? DEFAULT_TRANSPORT_OPTIONS.sessionTtlMs
+        : ttlMinutes * 60_000,
+  };
+}
+
+/**
+ * Check whether a bind address only accepts local connections
+ */
+export function isLoopbackHost(host: string): boolean {
+  return (
+    host === "localhost" ||
+    host === "::1" ||
+    host === "[::1]" ||
+    host.startsWith("127.")
+  );
+}
+
+function stringValue(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
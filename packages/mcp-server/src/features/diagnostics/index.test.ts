@@ -0,0 +1,151 @@
+/**
+ * Tests for the setup diagnostics, using a stub Local REST API
+ */
+
+import type { VaultConnection } from "$/shared";
+import { describe, expect, it } from "bun:test";
+import type { PluginAdapter } from "../dispatchers";
+import { runDiagnostics, type DiagnosticsOptions } from "./services";
+
+const connection: VaultConnection = {
+  name: "default",
+  host: "127.0.0.1",
+  port: 27124,
+  protocol: "https",
+  apiKey: "key",
+};
+
+function status(authenticated: boolean, validityDays = 300) {
+  return {
+    status: "OK",
+    manifest: {
+      id: "obsidian-local-rest-api",
+      name: "Local REST API",
+      version: "3.0.0",
+      minAppVersion: "0.15.0",
+      description: "Local REST API for Obsidian",
+      author: "Adam Coddington",
+      authorUrl: "https://github.com/coddingtonbear",
+      isDesktopOnly: true,
+      dir: ".obsidian/plugins/obsidian-local-rest-api",
+    },
+    versions: { obsidian: "1.7.0", self: "3.0.0" },
+    service: "Obsidian Local REST API",
+    authenticated,
+    certificateInfo: { validityDays, regenerateRecommended: false },
+    apiExtensions: [],
+  };
+}
+
+/**
+ * Stub fetch: the HTTPS port answers with `body` (authenticated requests
+ * only if `validKey`), the HTTP port is closed
+ */
+function stubFetch(validKey: boolean, validityDays?: number) {
+  return (async (url: string, init?: RequestInit) => {
+    if (url.startsWith("http://")) throw new Error("ECONNREFUSED");
+    const headers = new Headers(init?.headers);
+    const authenticated = validKey && headers.has("Authorization");
+    return Response.json(status(authenticated, validityDays));
+  }) as unknown as typeof fetch;
+}
+
+function plugin(id: string, available: boolean): PluginAdapter {
+  return { id, name: id, probe: async () => available } as PluginAdapter;
+}
+
+function options(overrides: DiagnosticsOptions = {}): DiagnosticsOptions {
+  return {
+    connection: () => connection,
+    fetch: stubFetch(true),
+    loadConfig: async () => undefined,
+    plugins: () => [
+      plugin("templater", true),
+      plugin("smart-connections", false),
+    ],
+    ...overrides,
+  };
+}
+
+function byName(checks: { name: string }[]) {
+  return Object.fromEntries(checks.map((check) => [check.name, check]));
+}
+
+describe("runDiagnostics", () => {
+  it("passes a working setup and warns about missing plugins", async () => {
+    const report = await runDiagnostics(options());
+    const checks = byName(report.checks);
+
+    expect(report.ok).toBe(true);
+    expect(report.vault).toEqual({
+      name: "default",
+      url: "https://127.0.0.1:27124",
+    });
+    expect(checks["https-port"]).toMatchObject({ status: "pass" });
+    expect(checks["http-port"]).toMatchObject({ status: "skip" });
+    expect(checks["api-key"]).toMatchObject({ status: "pass" });
+    expect(checks.certificate).toMatchObject({ status: "pass" });
+    expect(checks["plugin:templater"]).toMatchObject({ status: "pass" });
+    expect(checks["plugin:smart-connections"]).toMatchObject({
+      status: "warn",
+      fix: expect.stringContaining("Install and enable"),
+    });
+  });
+
+  it("reports a rejected API key with a fix", async () => {
+    const report = await runDiagnostics(options({ fetch: stubFetch(false) }));
+    const checks = byName(report.checks);
+
+    expect(report.ok).toBe(false);
+    expect(checks["api-key"]).toMatchObject({
+      status: "fail",
+      fix: expect.stringContaining("OBSIDIAN_API_KEY"),
+    });
+    expect(checks.plugins).toMatchObject({ status: "skip" });
+  });
+
+  it("flags certificates about to expire", async () => {
+    const report = await runDiagnostics(options({ fetch: stubFetch(true, 5) }));
+    expect(byName(report.checks).certificate).toMatchObject({ status: "warn" });
+  });
+
+  it("reports an unreachable API and an invalid config file", async () => {
+    const report = await runDiagnostics(
+      options({
+        fetch: (async () => {
+          throw new Error("ECONNREFUSED");
+        }) as unknown as typeof fetch,
+        loadConfig: async () => {
+          throw new Error(
+            "Invalid MCP Tools config x.json: legacy.enabled must be boolean",
+          );
+        },
+      }),
+    );
+    const checks = byName(report.checks);
+
+    expect(report.ok).toBe(false);
+    expect(checks["https-port"]).toMatchObject({
+      status: "fail",
+      fix: expect.stringContaining("OBSIDIAN_USE_HTTP=true"),
+    });
+    expect(checks["api-key"]).toMatchObject({ status: "skip" });
+    expect(checks["config-file"]).toMatchObject({
+      status: "fail",
+      message: expect.stringContaining("x.json"),
+    });
+  });
+
+  it("reports a missing API key", async () => {
+    const report = await runDiagnostics(
+      options({
+        connection: () => {
+          throw new Error("OBSIDIAN_API_KEY environment variable is required");
+        },
+      }),
+    );
+
+    expect(report.ok).toBe(false);
+    expect(report.checks[0]).toMatchObject({ name: "api-key", status: "fail" });
+  });
+});
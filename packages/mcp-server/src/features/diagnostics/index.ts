@@ -0,0 +1,26 @@
+import type { ToolRegistry } from "$/shared";
+import { type } from "arktype";
+import { runDiagnostics } from "./services";
+
+export * from "./services";
+
+/**
+ * Register the `diagnose` tool, which checks the setup end to end
+ */
+export function registerDiagnosticsTool(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"diagnose"',
+      arguments: "Record<string, unknown>",
+    }).describe(
+      "Check the server's setup: Local REST API reachability (HTTP and HTTPS), API key, certificate, official plugins, granted scopes and the config file. Every problem comes with a suggested fix. Use this when other tools fail with connection or permission errors.",
+    ),
+    async () => {
+      const report = await runDiagnostics();
+      return {
+        content: [{ type: "text", text: JSON.stringify(report, null, 2) }],
+      };
+    },
+    { annotations: { readOnlyHint: true } },
+  );
+}
@@ -0,0 +1,340 @@
+import {
+  describePermissions,
+  getGrantedScopes,
+  getLimits,
+  getVaultConnection,
+  getVaultUrl,
+  type VaultConnection,
+} from "$/shared";
+import { type } from "arktype";
+import { LocalRestAPI } from "shared";
+import {
+  getProfile,
+  loadConfigFile,
+  pluginRegistry,
+  type LoadedConfig,
+  type PluginAdapter,
+} from "../../dispatchers";
+
+/** How long to wait for the Local REST API before calling it unreachable */
+const REQUEST_TIMEOUT_MS = 3_000;
+
+/** Certificates expiring sooner than this are flagged */
+const CERTIFICATE_WARNING_DAYS = 30;
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface DiagnosticCheck {
+  name: string;
+  status: CheckStatus;
+  message: string;
+  /** What to do about a warning or failure */
+  fix?: string;
+}
+
+export interface DiagnosticsReport {
+  /** False if any check failed */
+  ok: boolean;
+  vault?: { name: string; url: string };
+  checks: DiagnosticCheck[];
+}
+
+export interface DiagnosticsOptions {
+  /** Connection to check (default: the current request's vault) */
+  connection?: () => VaultConnection;
+  fetch?: typeof fetch;
+  loadConfig?: () => Promise<LoadedConfig | undefined>;
+  /** Official plugins to probe */
+  plugins?: () => PluginAdapter[];
+}
+
+const LOCAL_REST_API_FIX =
+  "Make sure Obsidian is running with the Local REST API plugin enabled, and that OBSIDIAN_HOST points to the machine running it.";
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Check whether a Local REST API port answers, without authenticating
+ */
+async function checkPort(
+  fetchFn: typeof fetch,
+  connection: VaultConnection,
+  protocol: VaultConnection["protocol"],
+): Promise<DiagnosticCheck> {
+  const configured = protocol === connection.protocol;
+  const port = configured
+    ? connection.port
+    : protocol === "http"
+      ? 27123
+      : 27124;
+  const url = getVaultUrl({ ...connection, protocol, port });
+  const name = `${protocol}-port`;
+
+  try {
+    await fetchFn(`${url}/`, {
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    return {
+      name,
+      status: "pass",
+      message: `Local REST API answers on ${url}${configured ? " (in use)" : ""}`,
+    };
+  } catch (error) {
+    if (!configured) {
+      return {
+        name,
+        status: "skip",
+        message: `Nothing answers on ${url}; the server doesn't use it`,
+      };
+    }
+    return {
+      name,
+      status: "fail",
+      message: `Can't reach the Local REST API on ${url}: ${describeError(error)}`,
+      fix:
+        protocol === "https"
+          ? `${LOCAL_REST_API_FIX} If only the non-encrypted server is enabled, set OBSIDIAN_USE_HTTP=true.`
+          : `${LOCAL_REST_API_FIX} Enable the non-encrypted (HTTP) server in the Local REST API settings, or unset OBSIDIAN_USE_HTTP to use HTTPS.`,
+    };
+  }
+}
+
+/**
+ * Fetch the authenticated status, which reports the key and certificate
+ */
+async function fetchStatus(fetchFn: typeof fetch, connection: VaultConnection) {
+  const response = await fetchFn(`${getVaultUrl(connection)}/`, {
+    headers: { Authorization: `Bearer ${connection.apiKey}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  const status = LocalRestAPI.ApiStatusResponse(await response.json());
+  if (status instanceof type.errors) {
+    throw new Error(`Unexpected status response: ${status.summary}`);
+  }
+  return status;
+}
+
+function checkCertificate(
+  certificate: LocalRestAPI.ApiStatusResponseType["certificateInfo"],
+): DiagnosticCheck {
+  const fix =
+    "Regenerate the certificate in Obsidian: Settings → Local REST API → Advanced Settings.";
+  const days = certificate.validityDays;
+  if (days <= 0) {
+    return {
+      name: "certificate",
+      status: "fail",
+      message: "The Local REST API certificate has expired",
+      fix,
+    };
+  }
+  if (certificate.regenerateRecommended || days < CERTIFICATE_WARNING_DAYS) {
+    return {
+      name: "certificate",
+      status: "warn",
+      message: `The Local REST API certificate is valid for ${Math.floor(days)} more days`,
+      fix,
+    };
+  }
+  return {
+    name: "certificate",
+    status: "pass",
+    message: `The Local REST API certificate is valid for ${Math.floor(days)} more days`,
+  };
+}
+
+async function checkPlugin(plugin: PluginAdapter): Promise<DiagnosticCheck> {
+  const name = `plugin:${plugin.id}`;
+  try {
+    if (await plugin.probe()) {
+      return { name, status: "pass", message: `${plugin.name} is available` };
+    }
+    return {
+      name,
+      status: "warn",
+      message: `${plugin.name} isn't available; its tools are hidden`,
+      fix: `Install and enable ${plugin.name} in Obsidian, or turn it off with plugins.official["${plugin.id}"]: false in mcp-tools.config.json.`,
+    };
+  } catch (error) {
+    return {
+      name,
+      status: "warn",
+      message: `Checking ${plugin.name} failed: ${describeError(error)}`,
+      fix: `Restart Obsidian and make sure ${plugin.name} is up to date.`,
+    };
+  }
+}
+
+function checkScopes(): DiagnosticCheck {
+  try {
+    const scopes = getGrantedScopes();
+    return {
+      name: "scopes",
+      status: "pass",
+      message: `${describePermissions()} (${scopes.join(", ")})`,
+    };
+  } catch (error) {
+    return {
+      name: "scopes",
+      status: "fail",
+      message: describeError(error),
+      fix: "Fix OBSIDIAN_MCP_SCOPES, or unset it for full access.",
+    };
+  }
+}
+
+function checkLimits(): DiagnosticCheck {
+  try {
+    const { rates, quotas } = getLimits();
+    const limits = [
+      ...Object.entries(rates).map(
+        ([key, { limit, period }]) => `${key} ${limit}/${period}`,
+      ),
+      ...Object.entries(quotas).map(
+        ([key, quota]) => `${key} ${quota} per session`,
+      ),
+    ];
+    return {
+      name: "limits",
+      status: "pass",
+      message:
+        limits.length > 0
+          ? `Limits: ${limits.join(", ")}`
+          : "No rate limits or quotas",
+    };
+  } catch (error) {
+    return {
+      name: "limits",
+      status: "fail",
+      message: describeError(error),
+      fix: 'Fix OBSIDIAN_MCP_LIMITS, e.g. {"rates": {"fetch": "10/minute"}, "quotas": {"files-deleted": 100}}, or unset it.',
+    };
+  }
+}
+
+async function checkConfigFile(
+  loadConfig: () => Promise<LoadedConfig | undefined>,
+): Promise<DiagnosticCheck> {
+  const profile = process.env.OBSIDIAN_MCP_PROFILE?.trim();
+  try {
+    const loaded = await loadConfig();
+    if (profile) {
+      if (!loaded) {
+        throw new Error(
+          `OBSIDIAN_MCP_PROFILE is "${profile}", but there is no mcp-tools.config.json to define it`,
+        );
+      }
+      getProfile(loaded.config, profile);
+    }
+    return {
+      name: "config-file",
+      status: "pass",
+      message: loaded
+        ? `Using ${loaded.source}${profile ? ` with profile "${profile}"` : ""}`
+        : "No mcp-tools.config.json; using the plugin's settings",
+    };
+  } catch (error) {
+    return {
+      name: "config-file",
+      status: "fail",
+      message: describeError(error),
+      fix: profile
+        ? "Define the profile in mcp-tools.config.json, or unset OBSIDIAN_MCP_PROFILE. The server won't start until it's valid."
+        : "Fix the file named above (see src/features/dispatchers/config.ts for the format) or remove it. The server won't start until it's valid.",
+    };
+  }
+}
+
+/**
+ * Check the whole setup end to end, from the vault connection to the
+ * plugins and config, and suggest a fix for every problem found
+ */
+export async function runDiagnostics({
+  connection: getConnection = () => getVaultConnection(),
+  fetch: fetchFn = fetch,
+  loadConfig = loadConfigFile,
+  plugins = () => pluginRegistry.listOfficial(),
+}: DiagnosticsOptions = {}): Promise<DiagnosticsReport> {
+  const checks: DiagnosticCheck[] = [];
+  const report = (vault?: DiagnosticsReport["vault"]): DiagnosticsReport => ({
+    ok: checks.every((check) => check.status !== "fail"),
+    vault,
+    checks,
+  });
+
+  let connection: VaultConnection;
+  try {
+    connection = getConnection();
+  } catch (error) {
+    checks.push({
+      name: "api-key",
+      status: "fail",
+      message: describeError(error),
+      fix: "Copy the API key from Obsidian (Settings → Local REST API) into OBSIDIAN_API_KEY in your MCP client's config.",
+    });
+    checks.push(checkScopes(), checkLimits());
+    return report();
+  }
+  const vault = { name: connection.name, url: getVaultUrl(connection) };
+
+  const ports = await Promise.all([
+    checkPort(fetchFn, connection, "https"),
+    checkPort(fetchFn, connection, "http"),
+  ]);
+  checks.push(...ports);
+
+  let authenticated = false;
+  if (ports.some((check) => check.status === "fail")) {
+    checks.push({
+      name: "api-key",
+      status: "skip",
+      message: "Skipped: the Local REST API is unreachable",
+    });
+  } else {
+    try {
+      const status = await fetchStatus(fetchFn, connection);
+      authenticated = status.authenticated;
+      checks.push(
+        authenticated
+          ? {
+              name: "api-key",
+              status: "pass",
+              message: `Authenticated with Local REST API ${status.versions.self} (Obsidian ${status.versions.obsidian})`,
+            }
+          : {
+              name: "api-key",
+              status: "fail",
+              message: `The API key for vault "${connection.name}" was rejected`,
+              fix: "Copy the API key from Obsidian (Settings → Local REST API) into OBSIDIAN_API_KEY, or reinstall the server from the MCP Tools plugin settings.",
+            },
+      );
+      if (connection.protocol === "https") {
+        checks.push(checkCertificate(status.certificateInfo));
+      }
+    } catch (error) {
+      checks.push({
+        name: "api-key",
+        status: "fail",
+        message: `Reading the Local REST API status failed: ${describeError(error)}`,
+        fix: "Update the Local REST API plugin in Obsidian.",
+      });
+    }
+  }
+
+  if (authenticated) {
+    checks.push(...(await Promise.all(plugins().map(checkPlugin))));
+  } else {
+    checks.push({
+      name: "plugins",
+      status: "skip",
+      message: "Skipped: not authenticated with the Local REST API",
+    });
+  }
+
+  checks.push(checkScopes());
+  checks.push(checkLimits());
+  checks.push(await checkConfigFile(loadConfig));
+  return report(vault);
+}
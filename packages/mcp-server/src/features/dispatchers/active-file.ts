@@ -9,7 +9,18 @@
  * - delete: delete_active_file
  */
 
-import { makeRequest, MCP_TAGS } from "$/shared";
+import {
+  copyToTrash,
+  createTrashBatch,
+  DELETED_FILES_QUOTA,
+  describeUnappliedChanges,
+  makeRequest,
+  MCP_TAGS,
+  requireActiveFileScope,
+  requireScopeInSession,
+  saveRevision,
+  SCOPES,
+} from "$/shared";
 import { LocalRestAPI } from "shared";
 import { OperationRegistry, type OperationResult } from "./types";
 
@@ -18,6 +29,7 @@ export const activeFileOperations = new OperationRegistry();
 // READ operation
 activeFileOperations.register({
   name: "read",
+  scope: SCOPES.VAULT_READ,
   description: "Get the content of the currently active file in Obsidian",
   parameters: {
     format: {
@@ -25,7 +37,8 @@ activeFileOperations.register({
       description: "Output format (default: markdown)",
     },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal } = {}): Promise<OperationResult> => {
+    await requireActiveFileScope(SCOPES.VAULT_READ, signal);
     const format =
       params.format === "json"
         ? "application/vnd.olrapi.note+json"
@@ -47,14 +60,16 @@ activeFileOperations.register({
 // UPDATE operation
 activeFileOperations.register({
   name: "update",
+  scope: SCOPES.VAULT_WRITE,
   description: "Replace the content of the active file. Respects mcp-readonly tag.",
   parameters: {
     content: { type: "string", description: "New file content", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     // Check if active file is readonly
     const activeFile = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
       headers: { Accept: "application/vnd.olrapi.note+json" },
+      signal,
     });
 
     if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
@@ -68,10 +83,14 @@ activeFileOperations.register({
         isError: true,
       };
     }
+    requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+    await saveRevision(activeFile.path, signal);
+    await audit?.track(activeFile.path);
 
     await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
       method: "PUT",
       body: params.content as string,
+      signal,
     });
 
     return {
@@ -83,13 +102,15 @@ activeFileOperations.register({
 // APPEND operation
 activeFileOperations.register({
   name: "append",
+  scope: SCOPES.VAULT_WRITE,
   description: "Append content to the active file. Respects mcp-readonly tag.",
   parameters: {
     content: { type: "string", description: "Content to append", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const activeFile = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
       headers: { Accept: "application/vnd.olrapi.note+json" },
+      signal,
     });
 
     if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
@@ -103,10 +124,14 @@ activeFileOperations.register({
         isError: true,
       };
     }
+    requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+    await saveRevision(activeFile.path, signal);
+    await audit?.track(activeFile.path);
 
     await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
       method: "POST",
       body: params.content as string,
+      signal,
     });
 
     return {
@@ -118,6 +143,7 @@ activeFileOperations.register({
 // PATCH operation
 activeFileOperations.register({
   name: "patch",
+  scope: SCOPES.VAULT_WRITE,
   description:
     "Insert or modify content relative to a heading, block, or frontmatter. Respects mcp-readonly tag.",
   parameters: {
@@ -137,9 +163,10 @@ activeFileOperations.register({
     trimTargetWhitespace: { type: "boolean", description: "Trim whitespace" },
     contentType: { type: "string", description: "Content type header" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const activeFile = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
       headers: { Accept: "application/vnd.olrapi.note+json" },
+      signal,
     });
 
     if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
@@ -153,6 +180,9 @@ activeFileOperations.register({
         isError: true,
       };
     }
+    requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+    await saveRevision(activeFile.path, signal);
+    await audit?.track(activeFile.path);
 
     const headers: Record<string, string> = {
       Operation: params.operation as string,
@@ -174,9 +204,12 @@ activeFileOperations.register({
     const response = await makeRequest(
       LocalRestAPI.ApiContentResponse,
       "/active/",
-      { method: "PATCH", headers, body: params.content as string },
+      { method: "PATCH", headers, body: params.content as string, signal },
     );
 
+    const unapplied = describeUnappliedChanges();
+    if (unapplied) return { content: [{ type: "text", text: unapplied }] };
+
     return {
       content: [
         { type: "text", text: "File patched successfully" },
@@ -189,11 +222,16 @@ activeFileOperations.register({
 // DELETE operation
 activeFileOperations.register({
   name: "delete",
+  scope: SCOPES.VAULT_DELETE,
   description: "Delete the currently active file. Respects mcp-protected tag.",
   parameters: {},
-  handler: async (): Promise<OperationResult> => {
+  handler: async (
+    _params,
+    { signal, confirm, consumeLimit, audit } = {},
+  ): Promise<OperationResult> => {
     const activeFile = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
       headers: { Accept: "application/vnd.olrapi.note+json" },
+      signal,
     });
 
     if (activeFile.tags?.includes(MCP_TAGS.PROTECTED)) {
@@ -207,9 +245,19 @@ activeFileOperations.register({
         isError: true,
       };
     }
+    requireScopeInSession(SCOPES.VAULT_DELETE, activeFile.path);
+
+    await confirm?.({
+      action: "Delete the active file",
+      files: [activeFile.path],
+    });
+    consumeLimit?.(DELETED_FILES_QUOTA, 1);
 
+    await copyToTrash(activeFile.path, createTrashBatch(), { signal });
+    await audit?.track(activeFile.path);
     await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
       method: "DELETE",
+      signal,
     });
 
     return {
@@ -0,0 +1,136 @@
+/**
+ * Unit tests for config file discovery and validation
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  CONFIG_FILENAME,
+  loadConfigFile,
+  parseConfigFile,
+} from "./config-file";
+
+const noVault = async () => undefined;
+
+describe("parseConfigFile()", () => {
+  it("should accept a valid config", () => {
+    const config = parseConfigFile(
+      JSON.stringify({ dispatchers: { vault: false } }),
+      "test.json",
+    );
+    expect(config.dispatchers?.vault).toBe(false);
+  });
+
+  it("should name the source on invalid JSON", () => {
+    expect(() => parseConfigFile("{ nope", "test.json")).toThrow(
+      /Invalid JSON in MCP Tools config test\.json/,
+    );
+  });
+
+  it("should report schema errors", () => {
+    expect(() =>
+      parseConfigFile(
+        JSON.stringify({ legacy: { disabled: "search_vault" } }),
+        "test.json",
+      ),
+    ).toThrow(/Invalid MCP Tools config test\.json: legacy\.disabled/);
+  });
+});
+
+describe("loadConfigFile()", () => {
+  it("should prefer the path from OBSIDIAN_MCP_CONFIG", async () => {
+    const files: Record<string, string> = {
+      "/custom/config.json": '{"legacy":{"enabled":false}}',
+      [`/bin/${CONFIG_FILENAME}`]: '{"legacy":{"enabled":true}}',
+    };
+    const loaded = await loadConfigFile({
+      env: { OBSIDIAN_MCP_CONFIG: "/custom/config.json" },
+      binaryDir: "/bin",
+      readLocalFile: (path) => files[path],
+      readVaultFile: noVault,
+    });
+    expect(loaded?.source).toBe("/custom/config.json");
+    expect(loaded?.config.legacy?.enabled).toBe(false);
+  });
+
+  it("should fail if OBSIDIAN_MCP_CONFIG points to a missing file", async () => {
+    await expect(
+      loadConfigFile({
+        env: { OBSIDIAN_MCP_CONFIG: "/missing.json" },
+        readLocalFile: () => undefined,
+        readVaultFile: noVault,
+      }),
+    ).rejects.toThrow(/not found: \/missing\.json/);
+  });
+
+  it("should look next to the binary, then in the vault", async () => {
+    const fromBinary = await loadConfigFile({
+      env: {},
+      binaryDir: "/bin",
+      readLocalFile: (path) =>
+        path === `/bin/${CONFIG_FILENAME}` ? "{}" : undefined,
+      readVaultFile: async () => '{"dispatchers":{"plugin":false}}',
+    });
+    expect(fromBinary?.source).toBe(`/bin/${CONFIG_FILENAME}`);
+
+    const fromVault = await loadConfigFile({
+      env: {},
+      binaryDir: "/bin",
+      readLocalFile: () => undefined,
+      readVaultFile: async () => '{"dispatchers":{"plugin":false}}',
+    });
+    expect(fromVault?.source).toBe(`vault:${CONFIG_FILENAME}`);
+    expect(fromVault?.config.dispatchers?.plugin).toBe(false);
+  });
+
+  it("should only accept profile scopes from OBSIDIAN_MCP_CONFIG outside the vault", async () => {
+    const text = JSON.stringify({
+      profiles: { research: { scopes: "readonly" }, open: {} },
+    });
+
+    const outside = await loadConfigFile({
+      env: { OBSIDIAN_MCP_CONFIG: "/etc/mcp/config.json" },
+      readLocalFile: () => text,
+      readVaultFile: noVault,
+      isInVault: () => false,
+    });
+    expect(outside?.config.profiles?.research?.scopes).toBe("readonly");
+
+    await expect(
+      loadConfigFile({
+        env: { OBSIDIAN_MCP_CONFIG: "/vault/config.json" },
+        readLocalFile: () => text,
+        readVaultFile: noVault,
+        isInVault: () => true,
+      }),
+    ).rejects.toThrow(
+      /\/vault\/config\.json sets scopes in profile\(s\) research\./,
+    );
+
+    await expect(
+      loadConfigFile({
+        env: {},
+        binaryDir: "/bin",
+        readLocalFile: (path) =>
+          path === `/bin/${CONFIG_FILENAME}` ? text : undefined,
+        readVaultFile: noVault,
+      }),
+    ).rejects.toThrow(/sets scopes in profile\(s\) research/);
+
+    await expect(
+      loadConfigFile({
+        env: {},
+        readLocalFile: () => undefined,
+        readVaultFile: async () => text,
+      }),
+    ).rejects.toThrow(/vault:mcp-tools\.config\.json sets scopes/);
+  });
+
+  it("should return undefined when there is no config", async () => {
+    const loaded = await loadConfigFile({
+      env: {},
+      readLocalFile: () => undefined,
+      readVaultFile: noVault,
+    });
+    expect(loaded).toBeUndefined();
+  });
+});
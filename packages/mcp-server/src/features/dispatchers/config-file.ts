@@ -0,0 +1,162 @@
+/**
+ * Dispatcher Configuration File
+ *
+ * Finds and validates `mcp-tools.config.json`. Locations, in order:
+ * 1. The path in `OBSIDIAN_MCP_CONFIG` (must exist if set)
+ * 2. `mcp-tools.config.json` next to the server binary
+ * 3. `mcp-tools.config.json` in the vault root (via the Local REST API)
+ *
+ * Profile scopes are only accepted from the first, and only if the file is
+ * outside the vault: anything that can write to the vault could otherwise
+ * grant itself more permissions.
+ */
+
+import { existsSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { logger, makeRequest } from "$/shared";
+import { type } from "arktype";
+import {
+  DispatcherConfigSchema,
+  profilesWithScopes,
+  type DispatcherConfig,
+} from "./config";
+
+/** Config file name looked up next to the binary and in the vault */
+export const CONFIG_FILENAME = "mcp-tools.config.json";
+
+export interface LoadedConfig {
+  config: DispatcherConfig;
+  /** Where the config was read from (file path or vault URL) */
+  source: string;
+}
+
+export interface ConfigFileOptions {
+  env?: Record<string, string | undefined>;
+  /** Directory of the server binary (default: `dirname(process.execPath)`) */
+  binaryDir?: string;
+  /** Read a local file, or return undefined if it doesn't exist */
+  readLocalFile?: (path: string) => string | undefined;
+  /** Read a file from the vault, or return undefined if it doesn't exist */
+  readVaultFile?: (path: string) => Promise<string | undefined>;
+  /** Whether a local file is in an Obsidian vault */
+  isInVault?: (path: string) => boolean;
+}
+
+function readLocalFile(path: string): string | undefined {
+  return existsSync(path) ? readFileSync(path, "utf8") : undefined;
+}
+
+async function readVaultFile(path: string): Promise<string | undefined> {
+  try {
+    const content = await makeRequest(
+      type("unknown"),
+      `/vault/${encodeURIComponent(path)}`,
+      { headers: { Accept: "text/markdown" } },
+    );
+    return typeof content === "string" ? content : JSON.stringify(content);
+  } catch (error) {
+    // Missing file or unreachable API: fall back to defaults
+    logger.debug("No config file in vault", { path, error });
+    return undefined;
+  }
+}
+
+/**
+ * A file is in a vault if a folder above it has an `.obsidian` folder
+ */
+function isInVault(path: string): boolean {
+  let dir = dirname(resolve(path));
+  while (true) {
+    if (existsSync(join(dir, ".obsidian"))) return true;
+    const parent = dirname(dir);
+    if (parent === dir) return false;
+    dir = parent;
+  }
+}
+
+/**
+ * Refuse profile scopes from a config the vault could have written
+ *
+ * @throws Error naming the source and the profiles that set scopes
+ */
+function rejectProfileScopes(config: DispatcherConfig, source: string) {
+  const profiles = profilesWithScopes(config);
+  if (profiles.length > 0) {
+    throw new Error(
+      `MCP Tools config ${source} sets scopes in profile(s) ${profiles.join(", ")}. ` +
+        "Profile scopes are only read from a config file named by OBSIDIAN_MCP_CONFIG outside the vault; move the file there or use OBSIDIAN_MCP_SCOPES.",
+    );
+  }
+}
+
+/**
+ * Parse and validate a config file's contents.
+ * Throws an Error naming the source if it is invalid.
+ */
+export function parseConfigFile(
+  text: string,
+  source: string,
+): DispatcherConfig {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid JSON in MCP Tools config ${source}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const config = DispatcherConfigSchema(json);
+  if (config instanceof type.errors) {
+    throw new Error(`Invalid MCP Tools config ${source}: ${config.summary}`);
+  }
+  return config as DispatcherConfig;
+}
+
+/**
+ * Find and load the dispatcher configuration file
+ *
+ * @returns The validated config and its source, or undefined if there is none
+ */
+export async function loadConfigFile(
+  options: ConfigFileOptions = {},
+): Promise<LoadedConfig | undefined> {
+  const env = options.env ?? process.env;
+  const readLocal = options.readLocalFile ?? readLocalFile;
+  const readVault = options.readVaultFile ?? readVaultFile;
+  const inVault = options.isInVault ?? isInVault;
+
+  const envPath = env.OBSIDIAN_MCP_CONFIG;
+  if (envPath) {
+    const text = readLocal(envPath);
+    if (text === undefined) {
+      throw new Error(
+        `MCP Tools config not found: ${envPath} (from OBSIDIAN_MCP_CONFIG)`,
+      );
+    }
+    const config = parseConfigFile(text, envPath);
+    if (inVault(envPath)) rejectProfileScopes(config, envPath);
+    return { config, source: envPath };
+  }
+
+  const binaryPath = join(
+    options.binaryDir ?? dirname(process.execPath),
+    CONFIG_FILENAME,
+  );
+  const binaryText = readLocal(binaryPath);
+  if (binaryText !== undefined) {
+    const config = parseConfigFile(binaryText, binaryPath);
+    rejectProfileScopes(config, binaryPath);
+    return { config, source: binaryPath };
+  }
+
+  const vaultText = await readVault(CONFIG_FILENAME);
+  if (vaultText !== undefined) {
+    const source = `vault:${CONFIG_FILENAME}`;
+    const config = parseConfigFile(vaultText, source);
+    rejectProfileScopes(config, source);
+    return { config, source };
+  }
+
+  return undefined;
+}
@@ -0,0 +1,54 @@
+/**
+ * Unit tests for syncing dispatcher settings from the Obsidian plugin
+ */
+
+import { describe, expect, it } from "bun:test";
+import type { DispatcherConfig } from "./config";
+import { PluginConfigSync } from "./config-sync";
+
+function createSync(responses: Array<DispatcherConfig | undefined>) {
+  const applied: DispatcherConfig[] = [];
+  const sync = new PluginConfigSync({
+    onChange: (config) => applied.push(config),
+    fetchConfig: async () => responses.shift(),
+  });
+  return { sync, applied };
+}
+
+describe("PluginConfigSync", () => {
+  it("should apply the first config it fetches", async () => {
+    const { sync, applied } = createSync([{ legacy: { enabled: false } }]);
+
+    expect(await sync.refresh()).toBe(true);
+    expect(applied).toEqual([{ legacy: { enabled: false } }]);
+  });
+
+  it("should only apply a config when it changes", async () => {
+    const { sync, applied } = createSync([
+      { dispatchers: { vault: false } },
+      { dispatchers: { vault: false } },
+      { dispatchers: { vault: true } },
+    ]);
+
+    expect(await sync.refresh()).toBe(true);
+    expect(await sync.refresh()).toBe(false);
+    expect(await sync.refresh()).toBe(true);
+    expect(applied).toEqual([
+      { dispatchers: { vault: false } },
+      { dispatchers: { vault: true } },
+    ]);
+  });
+
+  it("should keep the last config while the plugin is unreachable", async () => {
+    const { sync, applied } = createSync([
+      { dispatchers: { discover: false } },
+      undefined,
+      { dispatchers: { discover: false } },
+    ]);
+
+    await sync.refresh();
+    expect(await sync.refresh()).toBe(false);
+    expect(await sync.refresh()).toBe(false);
+    expect(applied).toHaveLength(1);
+  });
+});
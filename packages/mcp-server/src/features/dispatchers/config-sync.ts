@@ -0,0 +1,121 @@
+/**
+ * Plugin Config Sync
+ *
+ * The Obsidian plugin's settings tab saves a `DispatcherConfig` in its
+ * `data.json` and serves it at `/mcp-tools/config`. This module fetches it
+ * at startup and polls for changes, so settings changed in Obsidian reach a
+ * running server.
+ */
+
+import { logger, makeRequest } from "$/shared";
+import { type } from "arktype";
+import {
+  DispatcherConfigSchema,
+  profilesWithScopes,
+  type DispatcherConfig,
+} from "./config";
+
+/** Local REST API route served by the Obsidian plugin */
+export const PLUGIN_CONFIG_PATH = "/mcp-tools/config";
+
+export const DEFAULT_CONFIG_REFRESH_MS = 30_000;
+
+export interface PluginConfigSyncOptions {
+  /** Apply a config that differs from the last one seen */
+  onChange: (config: DispatcherConfig) => void;
+  /** Refresh interval in milliseconds (default: 30000) */
+  intervalMs?: number;
+  /** Fetch the plugin's config, or return undefined if unavailable */
+  fetchConfig?: () => Promise<DispatcherConfig | undefined>;
+}
+
+/**
+ * Fetch the dispatcher settings saved in the Obsidian plugin
+ *
+ * @returns The validated config, or undefined if the plugin doesn't serve
+ * one (not installed, too old, or Obsidian isn't running)
+ */
+export async function fetchPluginConfig(): Promise<
+  DispatcherConfig | undefined
+> {
+  let json: unknown;
+  try {
+    json = await makeRequest(type("unknown"), PLUGIN_CONFIG_PATH);
+  } catch (error) {
+    logger.debug("Plugin config unavailable", { error });
+    return undefined;
+  }
+
+  const config = DispatcherConfigSchema(json);
+  if (config instanceof type.errors) {
+    logger.warn("Ignoring invalid dispatcher settings from the plugin", {
+      summary: config.summary,
+    });
+    return undefined;
+  }
+  // Anything that can write to the vault can change the plugin's settings
+  const profiles = profilesWithScopes(config as DispatcherConfig);
+  if (profiles.length > 0) {
+    logger.warn(
+      "Ignoring dispatcher settings from the plugin: profile scopes are only read from OBSIDIAN_MCP_CONFIG",
+      { profiles },
+    );
+    return undefined;
+  }
+  return config as DispatcherConfig;
+}
+
+export class PluginConfigSync {
+  private fingerprint?: string;
+  private timer?: ReturnType<typeof setInterval>;
+  private refreshing = false;
+
+  private onChange: (config: DispatcherConfig) => void;
+  private intervalMs: number;
+  private fetchConfig: () => Promise<DispatcherConfig | undefined>;
+
+  constructor(options: PluginConfigSyncOptions) {
+    this.onChange = options.onChange;
+    this.intervalMs = options.intervalMs ?? DEFAULT_CONFIG_REFRESH_MS;
+    this.fetchConfig = options.fetchConfig ?? fetchPluginConfig;
+  }
+
+  /**
+   * Fetch the plugin's config and apply it if it changed.
+   * The last config seen stays in effect while the plugin is unreachable.
+   *
+   * @returns Whether a changed config was applied
+   */
+  async refresh(): Promise<boolean> {
+    if (this.refreshing) return false;
+    this.refreshing = true;
+    try {
+      const config = await this.fetchConfig();
+      if (config === undefined) return false;
+
+      const fingerprint = JSON.stringify(config);
+      if (fingerprint === this.fingerprint) return false;
+      this.fingerprint = fingerprint;
+      this.onChange(config);
+      return true;
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch((error) => {
+        logger.error("Plugin config refresh failed", { error });
+      });
+    }, this.intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
@@ -4,7 +4,8 @@
  * Addresses PR-1#6: mergeConfig() deep merge behavior was untested
  */
 
-import { describe, expect, it, beforeEach } from "bun:test";
+import { describe, expect, it, beforeEach, afterEach } from "bun:test";
+import { getGrantedScopes, SCOPES } from "$/shared";
 import {
   mergeConfig,
   configManager,
@@ -281,3 +282,79 @@ describe("ConfigManager", () => {
     });
   });
 });
+
+describe("profiles", () => {
+  const config: DispatcherConfig = {
+    dispatchers: { plugin: false },
+    legacy: { disabled: ["search_vault"] },
+    profiles: {
+      journal: {
+        scopes: "vault:read:Journal/**,vault:write:Journal/**",
+        dispatchers: { vault: true, activeFile: false },
+        legacy: { tools: ["get_active_file"] },
+      },
+      research: {
+        dispatchers: { discover: false },
+      },
+    },
+  };
+
+  afterEach(() => {
+    configManager.load({}, undefined);
+  });
+
+  it("should apply nothing without a profile", () => {
+    configManager.load(config, undefined);
+
+    expect(configManager.getProfileName()).toBeUndefined();
+    expect(configManager.isDispatcherEnabled("plugin")).toBe(false);
+    expect(configManager.isLegacyToolDisabled("search_vault")).toBe(true);
+  });
+
+  it("should replace dispatcher and legacy settings", () => {
+    configManager.load(config, "journal");
+
+    expect(configManager.getProfileName()).toBe("journal");
+    expect(configManager.isDispatcherEnabled("activeFile")).toBe(false);
+    expect(configManager.isDispatcherEnabled("plugin")).toBe(true);
+    expect(configManager.isLegacyToolDisabled("get_active_file")).toBe(false);
+    expect(configManager.isLegacyToolDisabled("search_vault")).toBe(true);
+    expect(configManager.isLegacyToolDisabled("list_vault_files")).toBe(true);
+  });
+
+  it("should use the profile's scopes", () => {
+    configManager.load(config, "journal");
+    expect(getGrantedScopes()).toEqual([
+      "vault:read:Journal/**",
+      "vault:write:Journal/**",
+    ]);
+
+    configManager.load(config, "research");
+    expect(getGrantedScopes()).toEqual([SCOPES.ADMIN]);
+  });
+
+  it("should only show the profile in use", () => {
+    configManager.load(config, "research");
+
+    const effective = configManager.getEffective();
+    expect(effective).toMatchObject({
+      profile: "research",
+      scopes: [SCOPES.ADMIN],
+      dispatchers: { discover: false },
+    });
+    expect(effective).not.toHaveProperty("profiles");
+    expect(JSON.stringify(effective)).not.toContain("Journal/**");
+  });
+
+  it("should throw for an unknown profile", () => {
+    expect(() => configManager.load(config, "missing")).toThrow(
+      /Unknown profile: "missing".*journal, research/,
+    );
+  });
+
+  it("should throw for invalid profile scopes", () => {
+    expect(() =>
+      configManager.load({ profiles: { bad: { scopes: "vault:fly" } } }, "bad"),
+    ).toThrow(/Invalid scopes in profile "bad"/);
+  });
+});
@@ -6,10 +6,12 @@
  * - Which dispatcher tools are enabled
  * - Plugin discovery behavior
  * - Declared plugin configurations
+ * - Named profiles, selected with OBSIDIAN_MCP_PROFILE
  *
  * "Power to the player" - full control over your MCP surface area.
  */
 
+import { getGrantedScopes, setProfileScopes } from "$/shared";
 import { type } from "arktype";
 
 /**
@@ -71,6 +73,24 @@ export interface LegacyToolsConfig {
   enabled?: boolean;
   /** Specific legacy tools to disable (when enabled: true) */
   disabled?: string[];
+  /** Only enable these legacy tools (default: all but `disabled`) */
+  tools?: string[];
+}
+
+/**
+ * A named tool surface for one kind of client. Its sections replace the
+ * same-named top-level settings.
+ */
+export interface ProfileConfig {
+  description?: string;
+  /**
+   * Scopes in OBSIDIAN_MCP_SCOPES syntax (default: OBSIDIAN_MCP_SCOPES).
+   * Only read from a config file named by OBSIDIAN_MCP_CONFIG outside the
+   * vault, so the vault can't grant itself more permissions.
+   */
+  scopes?: string;
+  dispatchers?: DispatcherToolsConfig;
+  legacy?: LegacyToolsConfig;
 }
 
 /**
@@ -83,6 +103,8 @@ export interface DispatcherConfig {
   plugins?: PluginDiscoveryConfig;
   /** Legacy tools configuration */
   legacy?: LegacyToolsConfig;
+  /** Named profiles, selected with OBSIDIAN_MCP_PROFILE */
+  profiles?: Record<string, ProfileConfig>;
 }
 
 /**
@@ -107,18 +129,27 @@ export const DEFAULT_CONFIG: Required<DispatcherConfig> = {
     enabled: true,
     disabled: [],
   },
+  profiles: {},
 };
 
+const DispatcherToolsSchema = type({
+  "vault?": "boolean",
+  "activeFile?": "boolean",
+  "plugin?": "boolean",
+  "discover?": "boolean",
+});
+
+const LegacyToolsSchema = type({
+  "enabled?": "boolean",
+  "disabled?": "string[]",
+  "tools?": "string[]",
+});
+
 /**
  * ArkType schema for runtime validation
  */
 export const DispatcherConfigSchema = type({
-  "dispatchers?": {
-    "vault?": "boolean",
-    "activeFile?": "boolean",
-    "plugin?": "boolean",
-    "discover?": "boolean",
-  },
+  "dispatchers?": DispatcherToolsSchema,
   "plugins?": {
     "autoDetect?": "boolean",
     "official?": "Record<string, boolean>",
@@ -130,9 +161,14 @@ export const DispatcherConfigSchema = type({
       endpoints: "Record<string, unknown>",
     }).array(),
   },
-  "legacy?": {
-    "enabled?": "boolean",
-    "disabled?": "string[]",
+  "legacy?": LegacyToolsSchema,
+  "profiles?": {
+    "[string]": {
+      "description?": "string",
+      "scopes?": "string",
+      "dispatchers?": DispatcherToolsSchema,
+      "legacy?": LegacyToolsSchema,
+    },
   },
 });
 
@@ -160,6 +196,50 @@ export function mergeConfig(
       ...DEFAULT_CONFIG.legacy,
       ...userConfig.legacy,
     },
+    profiles: userConfig.profiles ?? DEFAULT_CONFIG.profiles,
+  };
+}
+
+/**
+ * Look up a profile by name
+ *
+ * @throws Error if the config doesn't define it
+ */
+export function getProfile(
+  config: DispatcherConfig,
+  name: string,
+): ProfileConfig {
+  const profile = config.profiles?.[name];
+  if (!profile) {
+    const available = Object.keys(config.profiles ?? {});
+    throw new Error(
+      `Unknown profile: "${name}" (from OBSIDIAN_MCP_PROFILE). Available profiles: ${available.join(", ") || "(none)"}`,
+    );
+  }
+  return profile;
+}
+
+/**
+ * Names of the profiles that set their own scopes
+ */
+export function profilesWithScopes(config: DispatcherConfig): string[] {
+  return Object.entries(config.profiles ?? {})
+    .filter(([, profile]) => profile.scopes !== undefined)
+    .map(([name]) => name);
+}
+
+/**
+ * Apply a profile to a config: the profile's `dispatchers` and `legacy`
+ * settings replace the top-level ones
+ */
+export function applyProfile(
+  config: DispatcherConfig,
+  profile: ProfileConfig,
+): DispatcherConfig {
+  return {
+    ...config,
+    dispatchers: profile.dispatchers ?? config.dispatchers,
+    legacy: profile.legacy ?? config.legacy,
   };
 }
 
@@ -168,12 +248,40 @@ export function mergeConfig(
  */
 class ConfigManager {
   private config: Required<DispatcherConfig> = DEFAULT_CONFIG;
+  private profile?: string;
 
   /**
-   * Load configuration
+   * Load configuration, applying the selected profile and its scopes
+   *
+   * @throws Error if the profile doesn't exist or its scopes are invalid
    */
-  load(config: DispatcherConfig): void {
-    this.config = mergeConfig(config);
+  load(
+    config: DispatcherConfig,
+    profileName = process.env.OBSIDIAN_MCP_PROFILE?.trim() || undefined,
+  ): void {
+    const profile = profileName ? getProfile(config, profileName) : undefined;
+    if (profile?.scopes !== undefined && process.env.OBSIDIAN_MCP_SCOPES) {
+      throw new Error(
+        `Profile "${profileName}" sets its own scopes; unset OBSIDIAN_MCP_SCOPES to use it`,
+      );
+    }
+    try {
+      setProfileScopes(profile?.scopes);
+    } catch (error) {
+      throw new Error(
+        `Invalid scopes in profile "${profileName}": ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    this.config = mergeConfig(profile ? applyProfile(config, profile) : config);
+    this.profile = profile ? profileName : undefined;
+  }
+
+  /**
+   * Name of the profile in use, if any
+   */
+  getProfileName(): string | undefined {
+    return this.profile;
   }
 
   /**
@@ -183,6 +291,15 @@ class ConfigManager {
     return this.config;
   }
 
+  /**
+   * The settings in effect, for clients to see: the profile in use and its
+   * scopes, without the other profiles and their scopes
+   */
+  getEffective() {
+    const { profiles: _, ...settings } = this.config;
+    return { profile: this.profile, scopes: getGrantedScopes(), ...settings };
+  }
+
   /**
    * Check if a dispatcher tool is enabled
    */
@@ -224,7 +341,9 @@ class ConfigManager {
    * Check if a specific legacy tool is disabled
    */
   isLegacyToolDisabled(toolName: string): boolean {
-    return this.config.legacy.disabled?.includes(toolName) ?? false;
+    const { disabled, tools } = this.config.legacy;
+    if (tools && !tools.includes(toolName)) return true;
+    return disabled?.includes(toolName) ?? false;
   }
 }
 
@@ -267,6 +386,14 @@ export const configManager = new ConfigManager();
  *   "legacy": {
  *     "enabled": true,
  *     "disabled": ["search_vault_simple"]
+ *   },
+ *   "profiles": {
+ *     "journal": {
+ *       "description": "Journaling agent: daily notes only",
+ *       "scopes": "vault:read:Journal/**,vault:write:Journal/**,vault:list",
+ *       "dispatchers": { "vault": true, "activeFile": false, "plugin": false, "discover": false },
+ *       "legacy": { "tools": [] }
+ *     }
  *   }
  * }
  */
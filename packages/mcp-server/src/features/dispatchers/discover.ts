@@ -6,12 +6,48 @@
  * all tool schemas in context.
  */
 
+import { getVaultConnections, getVaultUrl } from "$/shared";
 import { getVaultCapabilities } from "./vault";
 import { getActiveFileCapabilities } from "./active-file";
 import { getPluginCapabilities } from "./plugin";
-import type { CapabilityManifest, DispatcherCapabilities } from "./types";
+import type {
+  CapabilityManifest,
+  DispatcherCapabilities,
+  VaultInfo,
+} from "./types";
 
-export type DiscoverCategory = "vault" | "active_file" | "plugins" | "all";
+export type DiscoverCategory =
+  | "vaults"
+  | "vault"
+  | "active_file"
+  | "plugins"
+  | "all";
+
+/**
+ * The configured vault connections, first one (the default) first
+ */
+export function listVaults(): VaultInfo[] {
+  return getVaultConnections().map((connection, index) => ({
+    name: connection.name,
+    url: getVaultUrl(connection),
+    default: index === 0,
+  }));
+}
+
+/**
+ * Plugin capabilities, leaving out plugins whose operations the session's
+ * scopes don't allow (operations are already filtered per scope)
+ */
+async function getAllowedPluginCapabilities(): Promise<
+  CapabilityManifest["plugins"]
+> {
+  const plugins = await getPluginCapabilities();
+  return Object.fromEntries(
+    Object.entries(plugins).filter(
+      ([, plugin]) => Object.keys(plugin.operations).length > 0,
+    ),
+  );
+}
 
 /**
  * Build capability manifest for the specified category
@@ -21,6 +57,10 @@ export async function buildCapabilityManifest(
 ): Promise<Partial<CapabilityManifest> | DispatcherCapabilities> {
   const cat = category || "all";
 
+  if (cat === "vaults") {
+    return { vaults: listVaults() };
+  }
+
   if (cat === "vault") {
     return getVaultCapabilities();
   }
@@ -30,14 +70,15 @@ export async function buildCapabilityManifest(
   }
 
   if (cat === "plugins") {
-    return { plugins: await getPluginCapabilities() };
+    return { plugins: await getAllowedPluginCapabilities() };
   }
 
   // Return all capabilities
   return {
+    vaults: listVaults(),
     vault: getVaultCapabilities(),
     active_file: getActiveFileCapabilities(),
-    plugins: await getPluginCapabilities(),
+    plugins: await getAllowedPluginCapabilities(),
   };
 }
 
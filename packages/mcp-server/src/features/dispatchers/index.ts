@@ -25,7 +25,6 @@ import { activeFileOperations, getActiveFileCapabilities } from "./active-file";
 import {
   dispatchPluginOperation,
   getPluginCapabilities,
-  listPlugins,
   initializePluginDiscovery,
   pluginRegistry,
 } from "./plugin";
@@ -44,98 +43,119 @@ export type { DispatcherConfig, DeclaredPluginConfig };
 export * from "./types";
 export * from "./plugin-discovery";
 export * from "./config";
-
-// Tool schemas (defined once, registered conditionally)
-const vaultToolSchema = type({
-  name: '"vault"',
-  arguments: {
-    operation: type(
-      '"read" | "write" | "append" | "patch" | "delete" | "move" | "rename" | "list" | "search" | "bulk_delete" | "open" | "info"',
-    ).describe("The operation to perform"),
-    "path?": type("string").describe("File path (vault-relative)"),
-    "content?": type("string").describe("File content"),
-    "format?": type('"markdown" | "json"').describe("Output format"),
-    "source?": type("string").describe("Source path for move"),
-    "destination?": type("string").describe("Destination path for move"),
-    "newName?": type("string").describe("New filename for rename"),
-    "directory?": type("string").describe("Directory for list"),
-    "query?": type("string").describe("Search query"),
-    "type?": type("string").describe("Search type or match type"),
-    "overwrite?": type("boolean").describe("Overwrite existing files"),
-    "dryRun?": type("boolean").describe("Preview without executing"),
-    "limit?": type("number").describe("Maximum results"),
-    "newLeaf?": type("boolean").describe("Open in new pane"),
-    "targetType?": type('"heading" | "block" | "frontmatter"').describe(
-      "Target type for patch",
-    ),
-    "target?": type("string").describe("Target identifier for patch"),
-    "targetDelimiter?": type("string").describe("Delimiter for nested targets"),
-    "trimTargetWhitespace?": type("boolean").describe("Trim whitespace"),
-    "contentType?": type("string").describe("Content type header"),
-    "match?": type("string").describe("Pattern to match files"),
-    "flags?": type("string").describe("Regex flags"),
-    "exclude?": type("string[]").describe("Patterns to exclude"),
-    "contextLength?": type("number").describe("Context length for search"),
-  },
-}).describe(
-  "Unified vault operations. Operations: read, write, append, patch, delete, move, rename, list, search, bulk_delete, open, info. Use discover() to see detailed parameters for each operation.",
-);
-
-const activeFileToolSchema = type({
-  name: '"active_file"',
-  arguments: {
-    operation: type('"read" | "update" | "append" | "patch" | "delete"').describe(
-      "The operation to perform",
-    ),
-    "content?": type("string").describe("File content"),
-    "format?": type('"markdown" | "json"').describe("Output format for read"),
-    "targetType?": type('"heading" | "block" | "frontmatter"').describe(
-      "Target type for patch",
-    ),
-    "target?": type("string").describe("Target identifier for patch"),
-    "targetDelimiter?": type("string").describe("Delimiter for nested targets"),
-    "trimTargetWhitespace?": type("boolean").describe("Trim whitespace"),
-    "contentType?": type("string").describe("Content type header"),
-  },
-}).describe(
-  "Operations on the currently active file. Operations: read, update, append, patch, delete. Use discover() to see detailed parameters.",
-);
+export * from "./config-file";
+export * from "./config-sync";
+export * from "./plugin-monitor";
 
 /**
- * Build plugin tool schema dynamically
- *
- * This function is called at registration time, not module load time,
- * so plugins will be registered by the time this runs.
- * Fixes PR-1#2: listPlugins() was called at schema definition time.
+ * Legacy tools that only work while a plugin is available
  */
-function buildPluginToolSchema() {
-  const plugins = listPlugins();
-  const pluginList = plugins.length > 0 ? plugins.join(", ") : "smart-connections, templater";
+const LEGACY_TOOL_PLUGINS: Record<string, string> = {
+  search_vault_smart: "smart-connections",
+  execute_template: "templater",
+};
 
+/**
+ * Build vault tool schema from the operations the session's scopes allow
+ */
+function buildVaultToolSchema(operations: string[]) {
   return type({
-    name: '"plugin"',
+    name: '"vault"',
     arguments: {
-      plugin: type("string").describe(`Plugin to use: ${pluginList}`),
-      operation: type("string").describe("Operation to perform"),
+      operation: type
+        .enumerated(...operations)
+        .describe("The operation to perform"),
+      "path?": type("string").describe("File path (vault-relative)"),
+      "content?": type("string").describe("File content"),
+      "format?": type('"markdown" | "json"').describe("Output format"),
+      "source?": type("string").describe("Source path for move"),
+      "destination?": type("string").describe("Destination path for move"),
+      "newName?": type("string").describe("New filename for rename"),
+      "directory?": type("string").describe("Directory for list"),
       "query?": type("string").describe("Search query"),
-      "folders?": type("string[]").describe("Folders to include"),
-      "excludeFolders?": type("string[]").describe("Folders to exclude"),
-      "limit?": type("number").describe("Max results"),
-      "name?": type("string").describe("Template file path"),
-      "arguments?": type("Record<string, string>").describe("Template arguments"),
-      "createFile?": type("boolean").describe("Create file from template"),
-      "targetPath?": type("string").describe("Target path for created file"),
+      "type?": type("string").describe("Search type or match type"),
+      "overwrite?": type("boolean").describe("Overwrite existing files"),
+      "dryRun?": type("boolean").describe("Preview without executing"),
+      "limit?": type("number").describe("Maximum results"),
+      "newLeaf?": type("boolean").describe("Open in new pane"),
+      "targetType?": type('"heading" | "block" | "frontmatter"').describe(
+        "Target type for patch",
+      ),
+      "target?": type("string").describe("Target identifier for patch"),
+      "targetDelimiter?": type("string").describe("Delimiter for nested targets"),
+      "trimTargetWhitespace?": type("boolean").describe("Trim whitespace"),
+      "contentType?": type("string").describe("Content type header"),
+      "match?": type("string").describe("Pattern to match files"),
+      "flags?": type("string").describe("Regex flags"),
+      "exclude?": type("string[]").describe("Patterns to exclude"),
+      "contextLength?": type("number").describe("Context length for search"),
     },
   }).describe(
-    "Execute plugin operations. Use discover({ category: 'plugins' }) to see available plugins and operations.",
+    `Unified vault operations. Operations: ${operations.join(", ")}. Use discover() to see detailed parameters for each operation.`,
   );
 }
 
+/**
+ * Build active file tool schema from the operations the session's scopes allow
+ */
+function buildActiveFileToolSchema(operations: string[]) {
+  return type({
+    name: '"active_file"',
+    arguments: {
+      operation: type
+        .enumerated(...operations)
+        .describe("The operation to perform"),
+      "content?": type("string").describe("File content"),
+      "format?": type('"markdown" | "json"').describe("Output format for read"),
+      "targetType?": type('"heading" | "block" | "frontmatter"').describe(
+        "Target type for patch",
+      ),
+      "target?": type("string").describe("Target identifier for patch"),
+      "targetDelimiter?": type("string").describe("Delimiter for nested targets"),
+      "trimTargetWhitespace?": type("boolean").describe("Trim whitespace"),
+      "contentType?": type("string").describe("Content type header"),
+    },
+  }).describe(
+    `Operations on the currently active file. Operations: ${operations.join(", ")}. Use discover() to see detailed parameters.`,
+  );
+}
+
+/**
+ * Plugin tool schema. The plugins available change at runtime, so they are
+ * listed by `describePluginTool` instead of being baked in here.
+ */
+const pluginToolSchema = type({
+  name: '"plugin"',
+  arguments: {
+    plugin: type("string").describe(
+      "Plugin to use (see the tool description for available plugins)",
+    ),
+    operation: type("string").describe("Operation to perform"),
+    "query?": type("string").describe("Search query"),
+    "folders?": type("string[]").describe("Folders to include"),
+    "excludeFolders?": type("string[]").describe("Folders to exclude"),
+    "limit?": type("number").describe("Max results"),
+    "name?": type("string").describe("Template file path"),
+    "arguments?": type("Record<string, string>").describe("Template arguments"),
+    "createFile?": type("boolean").describe("Create file from template"),
+    "targetPath?": type("string").describe("Target path for created file"),
+  },
+}).describe(
+  "Execute plugin operations. Use discover({ category: 'plugins' }) to see available plugins and operations.",
+);
+
+/**
+ * Describe the plugin tool with the plugins that are available right now
+ */
+function describePluginTool(): string {
+  return `Execute plugin operations. Available plugins: ${pluginRegistry.listAvailable().join(", ")}. Use discover({ category: 'plugins' }) to see their operations.`;
+}
+
 const discoverToolSchema = type({
   name: '"discover"',
   arguments: {
-    "category?": type('"vault" | "active_file" | "plugins" | "config" | "all"').describe(
-      "Category to discover (default: all)",
+    "category?": type('"vaults" | "vault" | "active_file" | "plugins" | "config" | "all"').describe(
+      "Category to discover (default: all). \"vaults\" lists the vaults tools can target with their `vault` argument.",
     ),
   },
 }).describe(
@@ -143,37 +163,59 @@ const discoverToolSchema = type({
 );
 
 /**
- * Register the new unified dispatcher tools
+ * Enable or disable legacy tools according to `legacy.enabled` and
+ * `legacy.disabled` in the current configuration. Tools for a plugin that
+ * isn't available are disabled too.
  *
- * These tools work alongside the existing tools for backward compatibility.
- * Users can gradually migrate to the new tools, which offer:
- * - Reduced context usage (~70% less)
- * - Runtime discovery of capabilities
- * - Dynamic plugin detection
- *
- * @param tools - The tool registry to register tools with
- * @param config - Optional configuration to control which tools are registered
+ * @param tools - The tool registry the legacy tools were registered with
+ * @param legacyTools - Names of the legacy tools
+ * @returns Whether any legacy tool was enabled or disabled
  */
-export function registerDispatcherTools(
+export function applyLegacyConfig(
   tools: ToolRegistry,
-  config?: DispatcherConfig,
-) {
-  // Load configuration
-  if (config) {
-    configManager.load(config);
+  legacyTools: string[],
+): boolean {
+  const legacyEnabled = configManager.isLegacyEnabled();
+  let changed = false;
+  for (const name of legacyTools) {
+    const plugin = LEGACY_TOOL_PLUGINS[name];
+    changed =
+      tools.setEnabled(
+        name,
+        legacyEnabled &&
+          !configManager.isLegacyToolDisabled(name) &&
+          (!plugin || pluginRegistry.isAvailable(plugin)),
+      ) || changed;
   }
-  const cfg = configManager.get();
+  return changed;
+}
 
-  // Register declared plugins from config
-  for (const declaredPlugin of cfg.plugins.declared) {
-    if (declaredPlugin.enabled !== false) {
-      pluginRegistry.registerDeclared(declaredPlugin);
-    }
-  }
+/**
+ * Register a dispatcher tool the first time it is enabled. On later calls
+ * it is registered again in place of the first one, since its operations
+ * and description depend on the config and scopes, then enabled or
+ * disabled.
+ *
+ * @returns Whether the tool was added, changed, enabled or disabled
+ */
+function applyDispatcher(
+  tools: ToolRegistry,
+  name: string,
+  enabled: boolean,
+  register: () => boolean,
+): boolean {
+  if (!enabled) return tools.setEnabled(name, false);
+  const replaced = register();
+  return tools.setEnabled(name, true) || replaced;
+}
 
-  // VAULT dispatcher
-  if (cfg.dispatchers.vault) {
-    tools.register(vaultToolSchema, async ({ arguments: args }) => {
+function registerVaultTool(
+  tools: ToolRegistry,
+  operations: string[],
+): boolean {
+  return tools.replace(
+    buildVaultToolSchema(operations),
+    async ({ arguments: args }, context) => {
       const operation = args.operation;
       const params: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(args)) {
@@ -181,13 +223,29 @@ export function registerDispatcherTools(
           params[key] = value;
         }
       }
-      return vaultOperations.dispatch(operation, params);
-    });
-  }
+      return vaultOperations.dispatch(operation, params, {
+        reportProgress: context.reportProgress,
+        signal: context.signal,
+        confirm: context.confirm,
+        consumeLimit: context.consumeLimit,
+        refundLimit: context.refundLimit,
+        audit: context.audit,
+      });
+    },
+    {
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      operationScope: (operation) => vaultOperations.get(operation)?.scope,
+    },
+  );
+}
 
-  // ACTIVE_FILE dispatcher
-  if (cfg.dispatchers.activeFile) {
-    tools.register(activeFileToolSchema, async ({ arguments: args }) => {
+function registerActiveFileTool(
+  tools: ToolRegistry,
+  operations: string[],
+): boolean {
+  return tools.replace(
+    buildActiveFileToolSchema(operations),
+    async ({ arguments: args }, context) => {
       const operation = args.operation;
       const params: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(args)) {
@@ -195,13 +253,27 @@ export function registerDispatcherTools(
           params[key] = value;
         }
       }
-      return activeFileOperations.dispatch(operation, params);
-    });
-  }
+      return activeFileOperations.dispatch(operation, params, {
+        reportProgress: context.reportProgress,
+        signal: context.signal,
+        confirm: context.confirm,
+        consumeLimit: context.consumeLimit,
+        refundLimit: context.refundLimit,
+        audit: context.audit,
+      });
+    },
+    {
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      operationScope: (operation) =>
+        activeFileOperations.get(operation)?.scope,
+    },
+  );
+}
 
-  // PLUGIN dispatcher
-  if (cfg.dispatchers.plugin) {
-    tools.register(buildPluginToolSchema(), async ({ arguments: args }) => {
+function registerPluginTool(tools: ToolRegistry): boolean {
+  return tools.replace(
+    pluginToolSchema,
+    async ({ arguments: args }, context) => {
       const { plugin, operation, ...params } = args;
       const cleanParams: Record<string, unknown> = {};
       for (const [key, value] of Object.entries(params)) {
@@ -209,13 +281,23 @@ export function registerDispatcherTools(
           cleanParams[key] = value;
         }
       }
-      return dispatchPluginOperation(plugin, operation, cleanParams);
-    });
-  }
+      return dispatchPluginOperation(plugin, operation, cleanParams, {
+        reportProgress: context.reportProgress,
+        signal: context.signal,
+        confirm: context.confirm,
+        consumeLimit: context.consumeLimit,
+        refundLimit: context.refundLimit,
+        audit: context.audit,
+      });
+    },
+    { annotations: { readOnlyHint: false }, description: describePluginTool },
+  );
+}
 
-  // DISCOVER tool
-  if (cfg.dispatchers.discover) {
-    tools.register(discoverToolSchema, async ({ arguments: args }) => {
+function registerDiscoverTool(tools: ToolRegistry): boolean {
+  return tools.replace(
+    discoverToolSchema,
+    async ({ arguments: args }) => {
       // Special handling for "config" category
       if (args.category === "config") {
         return {
@@ -224,8 +306,10 @@ export function registerDispatcherTools(
               type: "text",
               text: JSON.stringify(
                 {
-                  current: cfg,
+                  current: configManager.getEffective(),
                   description: {
+                    profile: "The profile in use (OBSIDIAN_MCP_PROFILE), if any",
+                    scopes: "Scopes granted to this server",
                     dispatchers:
                       "Which dispatcher tools are enabled (vault, activeFile, plugin, discover)",
                     plugins: {
@@ -259,6 +343,72 @@ export function registerDispatcherTools(
           },
         ],
       };
-    });
+    },
+    { annotations: { readOnlyHint: true }, vault: false },
+  );
+}
+
+/**
+ * Register the new unified dispatcher tools
+ *
+ * These tools work alongside the existing tools for backward compatibility.
+ * Users can gradually migrate to the new tools, which offer:
+ * - Reduced context usage (~70% less)
+ * - Runtime discovery of capabilities
+ * - Dynamic plugin detection
+ *
+ * Safe to call again with a changed config: tools already registered are
+ * rebuilt for the current config and scopes, and enabled or disabled,
+ * rather than registered twice.
+ *
+ * @param tools - The tool registry to register tools with
+ * @param config - Optional configuration to control which tools are registered
+ * @returns Whether any dispatcher tool was added, enabled or disabled
+ */
+export function registerDispatcherTools(
+  tools: ToolRegistry,
+  config?: DispatcherConfig,
+): boolean {
+  // Load configuration
+  if (config) {
+    configManager.load(config);
+  }
+  const cfg = configManager.get();
+
+  // Register declared plugins from config, replacing any from a previous one
+  pluginRegistry.clearDeclared();
+  for (const declaredPlugin of cfg.plugins.declared) {
+    if (declaredPlugin.enabled !== false) {
+      pluginRegistry.registerDeclared(declaredPlugin);
+    }
   }
+
+  // Operations the session's scopes allow; a dispatcher with none is hidden
+  const vaultOps = vaultOperations.listAllowed();
+  const activeFileOps = activeFileOperations.listAllowed();
+
+  const changes = [
+    applyDispatcher(
+      tools,
+      "vault",
+      !!cfg.dispatchers.vault && vaultOps.length > 0,
+      () => registerVaultTool(tools, vaultOps),
+    ),
+    applyDispatcher(
+      tools,
+      "active_file",
+      !!cfg.dispatchers.activeFile && activeFileOps.length > 0,
+      () => registerActiveFileTool(tools, activeFileOps),
+    ),
+    applyDispatcher(
+      tools,
+      "plugin",
+      !!cfg.dispatchers.plugin && pluginRegistry.listAvailable().length > 0,
+      () => registerPluginTool(tools),
+    ),
+    applyDispatcher(tools, "discover", !!cfg.dispatchers.discover, () =>
+      registerDiscoverTool(tools),
+    ),
+  ];
+  return changes.includes(true);
 }
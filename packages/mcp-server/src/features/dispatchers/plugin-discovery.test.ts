@@ -0,0 +1,55 @@
+/**
+ * Unit tests for plugin availability tracking
+ */
+
+import { describe, expect, it } from "bun:test";
+import { PluginDiscoveryRegistry } from "./plugin-discovery";
+import { OperationRegistry } from "./types";
+
+function createRegistry(available: Record<string, boolean>) {
+  const registry = new PluginDiscoveryRegistry();
+  for (const id of Object.keys(available)) {
+    registry.registerOfficial({
+      id,
+      name: id,
+      tier: "official",
+      operations: new OperationRegistry(),
+      probe: async () => available[id],
+    });
+  }
+  return registry;
+}
+
+describe("PluginDiscoveryRegistry availability", () => {
+  it("should assume official plugins are available until probed", () => {
+    const registry = createRegistry({ templater: false });
+    expect(registry.listAvailable()).toEqual(["templater"]);
+  });
+
+  it("should report plugins that stop or start probing", async () => {
+    const available = { "smart-connections": true, templater: true };
+    const registry = createRegistry(available);
+
+    expect(await registry.refreshAvailability()).toBe(false);
+
+    available["smart-connections"] = false;
+    expect(await registry.refreshAvailability()).toBe(true);
+    expect(registry.listAvailable()).toEqual(["templater"]);
+    expect(registry.isAvailable("smart-connections")).toBe(false);
+
+    available["smart-connections"] = true;
+    expect(await registry.refreshAvailability()).toBe(true);
+    expect(registry.isAvailable("smart-connections")).toBe(true);
+  });
+
+  it("should treat declared plugins as available", async () => {
+    const registry = createRegistry({ templater: false });
+    registry.registerDeclared({ id: "custom", name: "Custom", endpoints: {} });
+
+    await registry.refreshAvailability();
+    expect(registry.listAvailable()).toEqual(["custom"]);
+
+    registry.clearDeclared();
+    expect(registry.listAvailable()).toEqual([]);
+  });
+});
@@ -10,9 +10,14 @@
  * and exposed dynamically without code changes.
  */
 
-import { makeRequest, logger } from "$/shared";
+import { makeRequest, logger, SCOPES } from "$/shared";
 import { LocalRestAPI } from "shared";
-import { OperationRegistry, type OperationResult, type DispatcherCapabilities } from "./types";
+import {
+  OperationRegistry,
+  type OperationContext,
+  type OperationResult,
+  type DispatcherCapabilities,
+} from "./types";
 
 /**
  * Plugin tier indicating level of support
@@ -72,6 +77,8 @@ export class PluginDiscoveryRegistry {
   private detected = new Map<string, PluginAdapter>();
   private declared = new Map<string, PluginAdapter>();
   private statusCache = new Map<string, PluginStatus>();
+  /** Official plugins whose probe passed on the last refresh */
+  private officialAvailable?: Set<string>;
 
   /**
    * Register an official (bundled) plugin adapter
@@ -94,7 +101,11 @@ export class PluginDiscoveryRegistry {
         name: opName,
         description: endpoint.description || `${endpoint.method} ${endpoint.path}`,
         parameters: endpoint.parameters || {},
-        handler: async (params): Promise<OperationResult> => {
+        scope:
+          endpoint.method === "GET"
+            ? SCOPES.PLUGINS_READ
+            : SCOPES.PLUGINS_EXECUTE,
+        handler: async (params, { signal } = {}): Promise<OperationResult> => {
           // Build URL with path parameters
           let path = endpoint.path;
           for (const [key, value] of Object.entries(params)) {
@@ -108,6 +119,7 @@ export class PluginDiscoveryRegistry {
             {
               method: endpoint.method,
               body: endpoint.method !== "GET" ? JSON.stringify(params) : undefined,
+              signal,
             },
           );
 
@@ -139,6 +151,14 @@ export class PluginDiscoveryRegistry {
     return this;
   }
 
+  /**
+   * Remove all declared plugins, e.g. before re-applying a changed config
+   */
+  clearDeclared(): this {
+    this.declared.clear();
+    return this;
+  }
+
   /**
    * Auto-detect plugins by probing known API patterns
    */
@@ -179,10 +199,11 @@ export class PluginDiscoveryRegistry {
           ops.register({
             name: "query",
             description: "Execute a Dataview DQL query",
+            scope: SCOPES.PLUGINS_READ,
             parameters: {
               query: { type: "string", description: "DQL query", required: true },
             },
-            handler: async (params): Promise<OperationResult> => {
+            handler: async (params, { signal } = {}): Promise<OperationResult> => {
               const data = await makeRequest(
                 LocalRestAPI.ApiSearchResponse,
                 "/search/",
@@ -190,6 +211,7 @@ export class PluginDiscoveryRegistry {
                   method: "POST",
                   headers: { "Content-Type": "application/vnd.olrapi.dataview.dql+txt" },
                   body: params.query as string,
+                  signal,
                 },
               );
               return {
@@ -247,6 +269,8 @@ export class PluginDiscoveryRegistry {
           });
 
           logger.info(`Auto-detected plugin: ${pattern.name}`);
+        } else if (this.detected.delete(pattern.id)) {
+          logger.info(`Plugin no longer detected: ${pattern.name}`);
         }
       } catch (error) {
         logger.debug(`Plugin probe failed: ${pattern.id}`, { error });
@@ -256,6 +280,61 @@ export class PluginDiscoveryRegistry {
     return detectedPlugins;
   }
 
+  /**
+   * Probe official plugins and, if `autoDetect` is set, re-run auto-detection
+   *
+   * @returns Whether the list of available plugins changed
+   */
+  async refreshAvailability(
+    options: { autoDetect?: boolean } = {},
+  ): Promise<boolean> {
+    const before = this.listAvailable().join(",");
+
+    if (options.autoDetect) {
+      await this.autoDetect();
+    }
+
+    const officialAvailable = new Set<string>();
+    for (const [id, adapter] of this.official) {
+      try {
+        if (await adapter.probe()) officialAvailable.add(id);
+      } catch (error) {
+        logger.debug(`Plugin probe failed: ${id}`, { error });
+      }
+    }
+    this.officialAvailable = officialAvailable;
+
+    return this.listAvailable().join(",") !== before;
+  }
+
+  /**
+   * IDs of plugins that can be used right now. Until the first
+   * `refreshAvailability`, all official plugins are assumed available.
+   */
+  listAvailable(): string[] {
+    return [
+      ...Array.from(this.official.keys()).filter(
+        (id) => this.officialAvailable?.has(id) ?? true,
+      ),
+      ...this.detected.keys(),
+      ...this.declared.keys(),
+    ];
+  }
+
+  /**
+   * Check if a plugin can be used right now
+   */
+  isAvailable(id: string): boolean {
+    return this.listAvailable().includes(id);
+  }
+
+  /**
+   * Official plugin adapters, available or not
+   */
+  listOfficial(): PluginAdapter[] {
+    return Array.from(this.official.values());
+  }
+
   /**
    * Get a plugin adapter by ID (searches all tiers)
    */
@@ -382,6 +461,7 @@ export class PluginDiscoveryRegistry {
     pluginId: string,
     operation: string,
     params: Record<string, unknown>,
+    context: OperationContext = {},
   ): Promise<OperationResult> {
     const adapter = this.get(pluginId);
 
@@ -411,7 +491,7 @@ export class PluginDiscoveryRegistry {
       };
     }
 
-    return adapter.operations.dispatch(operation, params);
+    return adapter.operations.dispatch(operation, params, context);
   }
 }
 
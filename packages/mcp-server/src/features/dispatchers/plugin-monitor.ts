@@ -0,0 +1,75 @@
+/**
+ * Plugin Monitor
+ *
+ * Periodically re-probes official plugins and re-runs auto-detection, so
+ * enabling or disabling a plugin in Obsidian mid-session changes the tools
+ * the server exposes.
+ */
+
+import { logger } from "$/shared";
+import { configManager } from "./config";
+import { pluginRegistry } from "./plugin-discovery";
+
+export const DEFAULT_PLUGIN_REFRESH_MS = 30_000;
+
+export interface PluginMonitorOptions {
+  /** Called when the set of available plugins changed */
+  onChange: () => void;
+  /** Refresh interval in milliseconds (default: 30000) */
+  intervalMs?: number;
+  /** Refresh plugin availability, returning whether it changed */
+  refreshAvailability?: () => Promise<boolean>;
+}
+
+export class PluginMonitor {
+  private timer?: ReturnType<typeof setInterval>;
+  private refreshing = false;
+
+  private onChange: () => void;
+  private intervalMs: number;
+  private refreshAvailability: () => Promise<boolean>;
+
+  constructor(options: PluginMonitorOptions) {
+    this.onChange = options.onChange;
+    this.intervalMs = options.intervalMs ?? DEFAULT_PLUGIN_REFRESH_MS;
+    this.refreshAvailability =
+      options.refreshAvailability ??
+      (() =>
+        pluginRegistry.refreshAvailability({
+          autoDetect: configManager.isAutoDetectEnabled(),
+        }));
+  }
+
+  /**
+   * Refresh plugin availability and report a change to `onChange`
+   *
+   * @returns Whether the set of available plugins changed
+   */
+  async refresh(): Promise<boolean> {
+    if (this.refreshing) return false;
+    this.refreshing = true;
+    try {
+      const changed = await this.refreshAvailability();
+      if (changed) this.onChange();
+      return changed;
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.refresh().catch((error) => {
+        logger.error("Plugin refresh failed", { error });
+      });
+    }, this.intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref?.();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+}
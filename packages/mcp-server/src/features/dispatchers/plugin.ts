@@ -14,13 +14,21 @@
  */
 
 import {
+  filterReadableInSession,
   formatMcpError,
   makeRequest,
   parseTemplateParameters,
+  requireScopeInSession,
+  SCOPES,
 } from "$/shared";
 import { type } from "arktype";
 import { buildTemplateArgumentsSchema, LocalRestAPI } from "shared";
-import { OperationRegistry, type OperationResult, type DispatcherCapabilities } from "./types";
+import {
+  OperationRegistry,
+  type OperationContext,
+  type OperationResult,
+  type DispatcherCapabilities,
+} from "./types";
 import { pluginRegistry, type PluginAdapter, type PluginTier } from "./plugin-discovery";
 
 // Build Smart Connections operations
@@ -29,6 +37,7 @@ function buildSmartConnectionsOperations(): OperationRegistry {
 
   operations.register({
     name: "search",
+    scope: SCOPES.VAULT_SEARCH,
     description: "Semantic search for documents matching a text string",
     parameters: {
       query: { type: "string", description: "Search phrase", required: true },
@@ -36,7 +45,7 @@ function buildSmartConnectionsOperations(): OperationRegistry {
       excludeFolders: { type: "string[]", description: "Folders to exclude" },
       limit: { type: "number", description: "Maximum results to return" },
     },
-    handler: async (params): Promise<OperationResult> => {
+    handler: async (params, { signal } = {}): Promise<OperationResult> => {
       const requestBody: Record<string, unknown> = {
         query: params.query,
       };
@@ -58,11 +67,21 @@ function buildSmartConnectionsOperations(): OperationRegistry {
       const data = await makeRequest(
         LocalRestAPI.ApiSmartSearchResponse,
         "/search/smart",
-        { method: "POST", body: JSON.stringify(requestBody) },
+        { method: "POST", body: JSON.stringify(requestBody), signal },
+      );
+      const results = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        data.results,
+        (result) => result.path,
       );
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ...data, results }, null, 2),
+          },
+        ],
       };
     },
   });
@@ -76,6 +95,7 @@ function buildTemplaterOperations(): OperationRegistry {
 
   operations.register({
     name: "execute",
+    scope: SCOPES.PLUGINS_EXECUTE,
     description: "Execute a Templater template with arguments",
     parameters: {
       name: { type: "string", description: "Template file path", required: true },
@@ -92,12 +112,17 @@ function buildTemplaterOperations(): OperationRegistry {
         description: "Target path when createFile is true",
       },
     },
-    handler: async (params): Promise<OperationResult> => {
+    handler: async (params, { audit, signal } = {}): Promise<OperationResult> => {
+      requireScopeInSession(SCOPES.VAULT_READ, params.name as string);
+      if (params.createFile === true && params.targetPath) {
+        requireScopeInSession(SCOPES.VAULT_WRITE, params.targetPath as string);
+      }
+
       // Get template content
       const data = await makeRequest(
         LocalRestAPI.ApiVaultFileResponse,
         `/vault/${params.name}`,
-        { headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON } },
+        { headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON }, signal },
       );
 
       // Validate template arguments
@@ -117,6 +142,13 @@ function buildTemplaterOperations(): OperationRegistry {
         targetPath: params.targetPath as string | undefined,
       };
 
+      if (
+        templateExecutionArgs.createFile &&
+        templateExecutionArgs.targetPath
+      ) {
+        await audit?.track(templateExecutionArgs.targetPath);
+      }
+
       const response = await makeRequest(
         LocalRestAPI.ApiTemplateExecutionResponse,
         "/templates/execute",
@@ -124,6 +156,7 @@ function buildTemplaterOperations(): OperationRegistry {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(templateExecutionArgs),
+          signal,
         },
       );
 
@@ -136,6 +169,25 @@ function buildTemplaterOperations(): OperationRegistry {
   return operations;
 }
 
+/**
+ * Ask the Obsidian plugin which optional plugins are loaded
+ *
+ * @returns Availability by plugin ID, or undefined if the Obsidian plugin
+ * is unreachable or predates the status route
+ */
+async function fetchPluginStatus(): Promise<
+  LocalRestAPI.ApiPluginStatusResponseType | undefined
+> {
+  try {
+    return await makeRequest(
+      LocalRestAPI.ApiPluginStatusResponse,
+      "/mcp-tools/plugins",
+    );
+  } catch {
+    return undefined;
+  }
+}
+
 // Register official plugins
 pluginRegistry.registerOfficial({
   id: "smart-connections",
@@ -144,6 +196,9 @@ pluginRegistry.registerOfficial({
   description: "AI-powered semantic search for your vault",
   operations: buildSmartConnectionsOperations(),
   probe: async () => {
+    const status = await fetchPluginStatus();
+    if (status) return status["smart-connections"];
+
     try {
       await makeRequest(
         LocalRestAPI.ApiSmartSearchResponse,
@@ -164,8 +219,9 @@ pluginRegistry.registerOfficial({
   description: "Create and execute templates with dynamic content",
   operations: buildTemplaterOperations(),
   probe: async () => {
-    // Templater is typically available if the MCP server is running
-    return true;
+    const status = await fetchPluginStatus();
+    // Older Obsidian plugins can't tell; assume Templater is installed
+    return status?.templater ?? true;
   },
 });
 
@@ -184,8 +240,9 @@ export async function dispatchPluginOperation(
   plugin: string,
   operation: string,
   params: Record<string, unknown>,
+  context: OperationContext = {},
 ): Promise<OperationResult> {
-  return pluginRegistry.dispatch(plugin, operation, params);
+  return pluginRegistry.dispatch(plugin, operation, params, context);
 }
 
 /**
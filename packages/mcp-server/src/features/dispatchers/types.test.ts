@@ -233,5 +233,91 @@ describe("OperationRegistry", () => {
 
       expect(receivedParams).toEqual({});
     });
+
+    it("should pass context to handler", async () => {
+      const registry = new OperationRegistry();
+      const controller = new AbortController();
+      let receivedSignal: AbortSignal | undefined;
+      registry.register({
+        name: "capture",
+        description: "Captures context",
+        parameters: {},
+        handler: async (_params, context) => {
+          receivedSignal = context?.signal;
+          return { content: [{ type: "text", text: "ok" }] };
+        },
+      });
+
+      await registry.dispatch("capture", {}, { signal: controller.signal });
+
+      expect(receivedSignal).toBe(controller.signal);
+    });
+
+    it("should not call handler when already cancelled", async () => {
+      const registry = new OperationRegistry();
+      let called = false;
+      registry.register({
+        name: "never",
+        description: "Should not run",
+        parameters: {},
+        handler: async () => {
+          called = true;
+          return { content: [{ type: "text", text: "ok" }] };
+        },
+      });
+      const controller = new AbortController();
+      controller.abort(new Error("Cancelled by client"));
+
+      await expect(
+        registry.dispatch("never", {}, { signal: controller.signal }),
+      ).rejects.toThrow("Cancelled by client");
+      expect(called).toBe(false);
+    });
+  });
+
+  describe("scopes", () => {
+    function buildRegistry() {
+      return new OperationRegistry()
+        .register({
+          name: "read",
+          description: "Read",
+          parameters: {},
+          scope: "vault:read",
+          handler: async () => ({ content: [{ type: "text", text: "read" }] }),
+        })
+        .register({
+          name: "delete",
+          description: "Delete",
+          parameters: {},
+          scope: "vault:delete",
+          handler: async () => ({ content: [{ type: "text", text: "gone" }] }),
+        })
+        .register({
+          name: "info",
+          description: "Info",
+          parameters: {},
+          handler: async () => ({ content: [{ type: "text", text: "info" }] }),
+        });
+    }
+
+    it("should list only operations the granted scopes allow", () => {
+      const registry = buildRegistry();
+
+      expect(registry.listAllowed(["vault:read"])).toEqual(["read", "info"]);
+      expect(registry.listAllowed(["vault:*"])).toEqual([
+        "read",
+        "delete",
+        "info",
+      ]);
+    });
+
+    it("should filter capabilities by granted scopes", () => {
+      const registry = buildRegistry();
+
+      const capabilities = registry.getCapabilities(["vault:read"]);
+
+      expect(Object.keys(capabilities)).toEqual(["read", "info"]);
+      expect(capabilities.read.scope).toBe("vault:read");
+    });
   });
 });
@@ -5,6 +5,17 @@
  * into ~5 dispatcher tools with runtime operation discovery.
  */
 
+import {
+  getGrantedScopes,
+  hasScope,
+  requireScopeInSession,
+  type AuditTrail,
+  type Confirmation,
+  type GrantedScope,
+  type ProgressReporter,
+  type Scope,
+} from "$/shared";
+
 /**
  * Standard result type for all operations
  */
@@ -23,6 +34,24 @@ export interface ParameterDefinition {
   default?: unknown;
 }
 
+/**
+ * Request context passed through to operation handlers
+ */
+export interface OperationContext {
+  /** Report progress of long-running operations */
+  reportProgress?: ProgressReporter;
+  /** Aborted when the client cancels the request; pass it to `makeRequest` */
+  signal?: AbortSignal;
+  /** Ask the user to confirm a destructive action */
+  confirm?: Confirmation;
+  /** Count units such as deleted files against the session's limits */
+  consumeLimit?: (key: string, amount: number) => void;
+  /** Give back units counted by `consumeLimit` for work that wasn't done */
+  refundLimit?: (key: string, amount: number) => void;
+  /** Record a file in the audit log right before changing it */
+  audit?: AuditTrail;
+}
+
 /**
  * Definition of a single operation within a dispatcher
  */
@@ -30,7 +59,9 @@ export interface OperationDefinition {
   name: string;
   description: string;
   parameters: Record<string, ParameterDefinition>;
-  handler: (params: Record<string, unknown>) => Promise<OperationResult>;
+  /** Scope a session needs to run the operation (none: always allowed) */
+  scope?: Scope;
+  handler: OperationHandler;
 }
 
 /**
@@ -46,6 +77,8 @@ export interface DispatcherCapabilities {
  * Full capability manifest returned by discover tool
  */
 export interface CapabilityManifest {
+  /** Vault connections, selected with each tool's `vault` argument */
+  vaults: VaultInfo[];
   vault: DispatcherCapabilities;
   active_file: DispatcherCapabilities;
   plugins: {
@@ -56,11 +89,22 @@ export interface CapabilityManifest {
   };
 }
 
+/**
+ * A vault connection as shown to clients (without its API key)
+ */
+export interface VaultInfo {
+  name: string;
+  url: string;
+  /** Used when a tool call doesn't pass `vault` */
+  default: boolean;
+}
+
 /**
  * Operation handler type
  */
 export type OperationHandler = (
   params: Record<string, unknown>,
+  context?: OperationContext,
 ) => Promise<OperationResult>;
 
 /**
@@ -82,13 +126,29 @@ export class OperationRegistry {
     return Array.from(this.operations.keys());
   }
 
-  getCapabilities(): Record<string, Omit<OperationDefinition, "handler">> {
+  /**
+   * Operations the granted scopes allow
+   */
+  listAllowed(granted: GrantedScope[] = getGrantedScopes()): string[] {
+    return Array.from(this.operations.values())
+      .filter((op) => !op.scope || hasScope(granted, op.scope))
+      .map((op) => op.name);
+  }
+
+  /**
+   * Describe the operations the granted scopes allow
+   */
+  getCapabilities(
+    granted: GrantedScope[] = getGrantedScopes(),
+  ): Record<string, Omit<OperationDefinition, "handler">> {
     const capabilities: Record<string, Omit<OperationDefinition, "handler">> = {};
-    for (const [name, op] of this.operations) {
+    for (const name of this.listAllowed(granted)) {
+      const op = this.operations.get(name)!;
       capabilities[name] = {
         name: op.name,
         description: op.description,
         parameters: op.parameters,
+        ...(op.scope ? { scope: op.scope } : {}),
       };
     }
     return capabilities;
@@ -97,6 +157,7 @@ export class OperationRegistry {
   async dispatch(
     operation: string,
     params: Record<string, unknown>,
+    context: OperationContext = {},
   ): Promise<OperationResult> {
     const op = this.operations.get(operation);
     if (!op) {
@@ -104,12 +165,14 @@ export class OperationRegistry {
         content: [
           {
             type: "text",
-            text: `Unknown operation: ${operation}. Available operations: ${this.list().join(", ")}`,
+            text: `Unknown operation: ${operation}. Available operations: ${this.listAllowed().join(", ")}`,
           },
         ],
         isError: true,
       };
     }
-    return op.handler(params);
+    if (op.scope) requireScopeInSession(op.scope);
+    context.signal?.throwIfAborted();
+    return op.handler(params, context);
   }
 }
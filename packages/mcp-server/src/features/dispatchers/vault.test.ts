@@ -10,15 +10,32 @@
  * - Path validation is enforced
  */
 
-import { describe, expect, it, mock, beforeEach, afterEach } from "bun:test";
+import {
+  describe,
+  expect,
+  it,
+  mock,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from "bun:test";
+import * as scopes from "$/auth/scopes";
+import * as shared from "$/shared";
 import { vaultOperations, getVaultCapabilities } from "./vault";
 
+// Module mocks last for the whole test run, so put the real one back after
+const actualShared = { ...shared };
+afterAll(() => {
+  mock.module("$/shared", () => actualShared);
+});
+
 // Mock the shared module
 const mockMakeRequest = mock(() => Promise.resolve("mock response"));
 const mockAssertNotReadonly = mock(() => Promise.resolve());
 const mockAssertNotProtected = mock(() => Promise.resolve());
 
 mock.module("$/shared", () => ({
+  ...scopes,
   makeRequest: mockMakeRequest,
   validateVaultPath: (path: string) => {
     if (!path || path.trim() === "") throw new Error("Path cannot be empty");
@@ -32,9 +49,16 @@ mock.module("$/shared", () => ({
   },
   assertNotReadonly: mockAssertNotReadonly,
   assertNotProtected: mockAssertNotProtected,
+  copyToTrash: () => Promise.resolve(undefined),
+  createTrashBatch: () => "2024-01-01T00-00-00-000Z",
+  describeUnappliedChanges: () => undefined,
+  groupPendingChanges: <T>(run: () => Promise<T>) => run(),
+  isInMcpFolder: () => false,
+  saveRevision: () => Promise.resolve(undefined),
   MCP_TAGS: {
     READONLY: "mcp-readonly",
     PROTECTED: "mcp-protected",
+    HIDDEN: "mcp-hidden",
   },
 }));
 
@@ -247,6 +271,38 @@ describe("vaultOperations", () => {
         "renamed"
       );
     });
+
+    it("should check scopes before whether the file is protected", async () => {
+      scopes.setProfileScopes("full,!vault:move:Private/**");
+      try {
+        await expect(
+          vaultOperations.dispatch("rename", {
+            path: "Private/secret.md",
+            newName: "public.md",
+          })
+        ).rejects.toThrow();
+        expect(mockAssertNotProtected).not.toHaveBeenCalled();
+      } finally {
+        scopes.setProfileScopes(undefined);
+      }
+    });
+  });
+
+  describe("open operation", () => {
+    it("should apply path-scoped denials to the file opened", async () => {
+      scopes.setProfileScopes("full,!vault:read:Private/**");
+      try {
+        await expect(
+          vaultOperations.dispatch("open", { path: "Private/secret.md" })
+        ).rejects.toThrow("Private/secret.md");
+        expect(mockMakeRequest).not.toHaveBeenCalled();
+
+        await vaultOperations.dispatch("open", { path: "Inbox/note.md" });
+        expect(mockMakeRequest).toHaveBeenCalled();
+      } finally {
+        scopes.setProfileScopes(undefined);
+      }
+    });
   });
 
   describe("search operation", () => {
@@ -447,4 +503,25 @@ describe("matchesGlob (integration via bulk_delete)", () => {
     expect(text).not.toContain("ab.md");
     expect(text).not.toContain("abc.md");
   });
+
+  it("should only count deleted files against the quota", async () => {
+    mockMakeRequest.mockResolvedValue({
+      files: ["a.md", "b.md", "c.md"],
+    } as never);
+    // b.md is protected
+    mockAssertNotProtected
+      .mockImplementationOnce(() => Promise.resolve())
+      .mockImplementationOnce(() => Promise.reject(new Error("protected")));
+    const consumeLimit = mock(() => {});
+    const refundLimit = mock(() => {});
+
+    await vaultOperations.dispatch(
+      "bulk_delete",
+      { match: "*.md", dryRun: false },
+      { consumeLimit, refundLimit },
+    );
+
+    expect(consumeLimit).toHaveBeenCalledWith("files-deleted", 3);
+    expect(refundLimit).toHaveBeenCalledWith("files-deleted", 1);
+  });
 });
@@ -21,7 +21,18 @@ import {
   validateOptionalPath,
   assertNotProtected,
   assertNotReadonly,
+  copyToTrash,
+  createTrashBatch,
+  DELETED_FILES_QUOTA,
+  describeUnappliedChanges,
+  filterByScopeInSession,
+  filterReadableInSession,
+  groupPendingChanges,
+  isInMcpFolder,
   MCP_TAGS,
+  requireScopeInSession,
+  saveRevision,
+  SCOPES,
 } from "$/shared";
 import { LocalRestAPI } from "shared";
 import { OperationRegistry, type OperationResult } from "./types";
@@ -31,16 +42,18 @@ export const vaultOperations = new OperationRegistry();
 // READ operation
 vaultOperations.register({
   name: "read",
+  scope: SCOPES.VAULT_READ,
   description: "Get the content of a file from your vault",
   parameters: {
     path: { type: "string", description: "Vault-relative file path", required: true },
     format: { type: '"markdown" | "json"', description: "Output format (default: markdown)" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal } = {}): Promise<OperationResult> => {
     const path = params.path as string;
     const format = params.format as string | undefined;
 
     const validPath = validateVaultPath(path);
+    requireScopeInSession(SCOPES.VAULT_READ, validPath);
     const isJson = format === "json";
     const acceptFormat = isJson
       ? "application/vnd.olrapi.note+json"
@@ -49,7 +62,7 @@ vaultOperations.register({
     const data = await makeRequest(
       isJson ? LocalRestAPI.ApiNoteJson : LocalRestAPI.ApiContentResponse,
       `/vault/${encodeURIComponent(validPath)}`,
-      { headers: { Accept: acceptFormat } },
+      { headers: { Accept: acceptFormat }, signal },
     );
 
     return {
@@ -66,20 +79,22 @@ vaultOperations.register({
 // WRITE operation
 vaultOperations.register({
   name: "write",
+  scope: SCOPES.VAULT_WRITE,
   description: "Create a new file or update an existing one. Respects mcp-readonly tag.",
   parameters: {
     path: { type: "string", description: "Vault-relative file path", required: true },
     content: { type: "string", description: "File content", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const path = params.path as string;
     const content = params.content as string;
 
     const validPath = validateVaultPath(path);
+    requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
     // Check if existing file is readonly
     try {
-      await assertNotReadonly(validPath);
+      await assertNotReadonly(validPath, signal);
     } catch (error) {
       if (error instanceof Error && error.message.includes("read-only")) {
         return {
@@ -94,10 +109,12 @@ vaultOperations.register({
       }
     }
 
+    await saveRevision(validPath, signal);
+    await audit?.track(validPath);
     await makeRequest(
       LocalRestAPI.ApiNoContentResponse,
       `/vault/${encodeURIComponent(validPath)}`,
-      { method: "PUT", body: content },
+      { method: "PUT", body: content, signal },
     );
 
     return {
@@ -109,19 +126,21 @@ vaultOperations.register({
 // APPEND operation
 vaultOperations.register({
   name: "append",
+  scope: SCOPES.VAULT_WRITE,
   description: "Append content to a file. Respects mcp-readonly tag.",
   parameters: {
     path: { type: "string", description: "Vault-relative file path", required: true },
     content: { type: "string", description: "Content to append", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const path = params.path as string;
     const content = params.content as string;
 
     const validPath = validateVaultPath(path);
+    requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
     try {
-      await assertNotReadonly(validPath);
+      await assertNotReadonly(validPath, signal);
     } catch (error) {
       if (error instanceof Error && error.message.includes("read-only")) {
         return {
@@ -136,10 +155,12 @@ vaultOperations.register({
       }
     }
 
+    await saveRevision(validPath, signal);
+    await audit?.track(validPath);
     await makeRequest(
       LocalRestAPI.ApiNoContentResponse,
       `/vault/${encodeURIComponent(validPath)}`,
-      { method: "POST", body: content },
+      { method: "POST", body: content, signal },
     );
 
     return {
@@ -151,6 +172,7 @@ vaultOperations.register({
 // PATCH operation
 vaultOperations.register({
   name: "patch",
+  scope: SCOPES.VAULT_WRITE,
   description:
     "Insert or modify content relative to a heading, block reference, or frontmatter field. Respects mcp-readonly tag.",
   parameters: {
@@ -171,11 +193,12 @@ vaultOperations.register({
     trimTargetWhitespace: { type: "boolean", description: "Trim whitespace from target" },
     contentType: { type: "string", description: "Content type header" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const path = params.path as string;
     const validPath = validateVaultPath(path);
+    requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
-    await assertNotReadonly(validPath);
+    await assertNotReadonly(validPath, signal);
 
     const headers: HeadersInit = {
       Operation: params.operation as string,
@@ -194,12 +217,17 @@ vaultOperations.register({
       headers["Content-Type"] = params.contentType as string;
     }
 
+    await saveRevision(validPath, signal);
+    await audit?.track(validPath);
     const response = await makeRequest(
       LocalRestAPI.ApiContentResponse,
       `/vault/${encodeURIComponent(validPath)}`,
-      { method: "PATCH", headers, body: params.content as string },
+      { method: "PATCH", headers, body: params.content as string, signal },
     );
 
+    const unapplied = describeUnappliedChanges();
+    if (unapplied) return { content: [{ type: "text", text: unapplied }] };
+
     return {
       content: [
         { type: "text", text: "File patched successfully" },
@@ -212,20 +240,29 @@ vaultOperations.register({
 // DELETE operation
 vaultOperations.register({
   name: "delete",
+  scope: SCOPES.VAULT_DELETE,
   description: "Delete a file from your vault. Respects mcp-protected tag.",
   parameters: {
     path: { type: "string", description: "Vault-relative file path", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (
+    params,
+    { signal, confirm, consumeLimit, audit } = {},
+  ): Promise<OperationResult> => {
     const path = params.path as string;
     const validPath = validateVaultPath(path);
+    requireScopeInSession(SCOPES.VAULT_DELETE, validPath);
 
-    await assertNotProtected(validPath);
+    await assertNotProtected(validPath, signal);
+    await confirm?.({ action: "Delete 1 file", files: [validPath] });
+    consumeLimit?.(DELETED_FILES_QUOTA, 1);
 
+    await copyToTrash(validPath, createTrashBatch(), { signal });
+    await audit?.track(validPath);
     await makeRequest(
       LocalRestAPI.ApiNoContentResponse,
       `/vault/${encodeURIComponent(validPath)}`,
-      { method: "DELETE" },
+      { method: "DELETE", signal },
     );
 
     return {
@@ -237,17 +274,20 @@ vaultOperations.register({
 // MOVE operation
 vaultOperations.register({
   name: "move",
+  scope: SCOPES.VAULT_MOVE,
   description: "Move a file to another location. Respects mcp-protected tag.",
   parameters: {
     source: { type: "string", description: "Source file path", required: true },
     destination: { type: "string", description: "Destination file path", required: true },
     overwrite: { type: "boolean", description: "Overwrite destination if exists (default: false)" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const sourcePath = validateVaultPath(params.source as string);
     const destPath = validateVaultPath(params.destination as string);
+    requireScopeInSession(SCOPES.VAULT_MOVE, sourcePath);
+    requireScopeInSession(SCOPES.VAULT_MOVE, destPath);
 
-    await assertNotProtected(sourcePath);
+    await assertNotProtected(sourcePath, signal);
 
     // Check if destination exists
     if (!params.overwrite) {
@@ -255,7 +295,7 @@ vaultOperations.register({
         await makeRequest(
           LocalRestAPI.ApiContentResponse,
           `/vault/${encodeURIComponent(destPath)}`,
-          { headers: { Accept: "text/markdown" } },
+          { headers: { Accept: "text/markdown" }, signal },
         );
         return {
           content: [
@@ -275,22 +315,31 @@ vaultOperations.register({
     const content = await makeRequest(
       LocalRestAPI.ApiContentResponse,
       `/vault/${encodeURIComponent(sourcePath)}`,
-      { headers: { Accept: "text/markdown" } },
+      { headers: { Accept: "text/markdown" }, signal },
     );
 
-    // Write to destination
-    await makeRequest(
-      LocalRestAPI.ApiNoContentResponse,
-      `/vault/${encodeURIComponent(destPath)}`,
-      { method: "PUT", body: content },
-    );
+    // Keep the destination's content if it's being overwritten
+    await copyToTrash(destPath, createTrashBatch(), { missingOk: true, signal });
 
-    // Delete source
-    await makeRequest(
-      LocalRestAPI.ApiNoContentResponse,
-      `/vault/${encodeURIComponent(sourcePath)}`,
-      { method: "DELETE" },
-    );
+    await audit?.track(sourcePath);
+    await audit?.track(destPath);
+
+    // If queued, the write and delete are approved or rejected together
+    await groupPendingChanges(async () => {
+      // Write to destination
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeURIComponent(destPath)}`,
+        { method: "PUT", body: content, signal },
+      );
+
+      // Delete source
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeURIComponent(sourcePath)}`,
+        { method: "DELETE", signal },
+      );
+    });
 
     return {
       content: [
@@ -306,41 +355,53 @@ vaultOperations.register({
 // RENAME operation
 vaultOperations.register({
   name: "rename",
+  scope: SCOPES.VAULT_MOVE,
   description: "Rename a file in place. Respects mcp-protected tag.",
   parameters: {
     path: { type: "string", description: "Current file path", required: true },
     newName: { type: "string", description: "New filename (just the name, not path)", required: true },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal, audit } = {}): Promise<OperationResult> => {
     const sourcePath = validateVaultPath(params.path as string);
 
-    await assertNotProtected(sourcePath);
-
     // Extract directory
     const lastSlash = sourcePath.lastIndexOf("/");
     const directory = lastSlash >= 0 ? sourcePath.substring(0, lastSlash + 1) : "";
     const destPath = validateVaultPath(directory + (params.newName as string));
+    requireScopeInSession(SCOPES.VAULT_MOVE, sourcePath);
+    requireScopeInSession(SCOPES.VAULT_MOVE, destPath);
+
+    await assertNotProtected(sourcePath, signal);
 
     // Read source
     const content = await makeRequest(
       LocalRestAPI.ApiContentResponse,
       `/vault/${encodeURIComponent(sourcePath)}`,
-      { headers: { Accept: "text/markdown" } },
+      { headers: { Accept: "text/markdown" }, signal },
     );
 
-    // Write to destination
-    await makeRequest(
-      LocalRestAPI.ApiNoContentResponse,
-      `/vault/${encodeURIComponent(destPath)}`,
-      { method: "PUT", body: content },
-    );
+    // Keep the content of a file the new name replaces
+    await copyToTrash(destPath, createTrashBatch(), { missingOk: true, signal });
 
-    // Delete source
-    await makeRequest(
-      LocalRestAPI.ApiNoContentResponse,
-      `/vault/${encodeURIComponent(sourcePath)}`,
-      { method: "DELETE" },
-    );
+    await audit?.track(sourcePath);
+    await audit?.track(destPath);
+
+    // If queued, the write and delete are approved or rejected together
+    await groupPendingChanges(async () => {
+      // Write to destination
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeURIComponent(destPath)}`,
+        { method: "PUT", body: content, signal },
+      );
+
+      // Delete source
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeURIComponent(sourcePath)}`,
+        { method: "DELETE", signal },
+      );
+    });
 
     return {
       content: [
@@ -356,21 +417,35 @@ vaultOperations.register({
 // LIST operation
 vaultOperations.register({
   name: "list",
+  scope: SCOPES.VAULT_LIST,
   description: "List files in the vault or a subdirectory",
   parameters: {
     directory: { type: "string", description: "Directory path (optional, defaults to root)" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal } = {}): Promise<OperationResult> => {
     const validPath = validateOptionalPath(params.directory as string | undefined);
     const path = validPath ? `${validPath}/` : "";
 
     const data = await makeRequest(
       LocalRestAPI.ApiVaultFileResponse.or(LocalRestAPI.ApiVaultDirectoryResponse),
       `/vault/${path}`,
+      { signal },
     );
+    // Only list the entries the session may see
+    const listing =
+      "files" in data
+        ? {
+            ...data,
+            files: filterReadableInSession(
+              SCOPES.VAULT_LIST,
+              data.files,
+              (file) => `${path}${file}`,
+            ),
+          }
+        : data;
 
     return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+      content: [{ type: "text", text: JSON.stringify(listing, null, 2) }],
     };
   },
 });
@@ -378,6 +453,7 @@ vaultOperations.register({
 // SEARCH operation (unified)
 vaultOperations.register({
   name: "search",
+  scope: SCOPES.VAULT_SEARCH,
   description: "Search vault using text query, Dataview DQL, or JsonLogic",
   parameters: {
     query: { type: "string", description: "Search query", required: true },
@@ -390,7 +466,7 @@ vaultOperations.register({
       description: "Context length for text search results",
     },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal } = {}): Promise<OperationResult> => {
     const query = params.query as string;
     const searchType = (params.type as string) || "text";
 
@@ -403,11 +479,16 @@ vaultOperations.register({
       const data = await makeRequest(
         LocalRestAPI.ApiSimpleSearchResponse,
         `/search/simple/?${queryParams}`,
-        { method: "POST" },
+        { method: "POST", signal },
+      );
+      const results = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        data,
+        (result) => result.filename,
       );
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
       };
     }
 
@@ -421,10 +502,16 @@ vaultOperations.register({
       method: "POST",
       headers: { "Content-Type": contentType },
       body: query,
+      signal,
     });
+    const results = filterReadableInSession(
+      SCOPES.VAULT_SEARCH,
+      data,
+      (result) => result.filename,
+    );
 
     return {
-      content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+      content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
     };
   },
 });
@@ -432,6 +519,7 @@ vaultOperations.register({
 // BULK_DELETE operation
 vaultOperations.register({
   name: "bulk_delete",
+  scope: SCOPES.VAULT_DELETE,
   description:
     "Delete multiple files matching a pattern. Defaults to dry-run mode for safety.",
   parameters: {
@@ -445,7 +533,10 @@ vaultOperations.register({
     dryRun: { type: "boolean", description: "Preview without deleting (default: true)" },
     limit: { type: "number", description: "Maximum files to process (default: 100)" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (
+    params,
+    { reportProgress, signal, confirm, consumeLimit, refundLimit, audit } = {},
+  ): Promise<OperationResult> => {
     const matchType = (params.type as string) ?? "glob";
     const limit = (params.limit as number) ?? 100;
     const dryRun = (params.dryRun as boolean) ?? true;
@@ -552,7 +643,7 @@ vaultOperations.register({
       const searchResults = await makeRequest(
         LocalRestAPI.ApiSimpleSearchResponse,
         `/search/simple/?query=${encodeURIComponent(params.match as string)}`,
-        { method: "POST" },
+        { method: "POST", signal },
       );
       matchingFiles = [
         ...new Set(searchResults.map((r: { filename: string }) => r.filename)),
@@ -602,6 +693,7 @@ vaultOperations.register({
       const allFiles = await makeRequest(
         LocalRestAPI.ApiVaultDirectoryResponse,
         "/vault/",
+        { signal },
       );
 
       matchingFiles = allFiles.files.filter((file: string) => {
@@ -616,6 +708,7 @@ vaultOperations.register({
       const allFiles = await makeRequest(
         LocalRestAPI.ApiVaultDirectoryResponse,
         "/vault/",
+        { signal },
       );
 
       matchingFiles = allFiles.files.filter((file: string) => {
@@ -627,6 +720,19 @@ vaultOperations.register({
       });
     }
 
+    // Files in the trash are only removed with `trash purge`, and revisions
+    // are only pruned when newer ones are saved
+    matchingFiles = matchingFiles.filter((file) => !isInMcpFolder(file));
+
+    // Leave out files the session may not delete
+    const inScope = filterByScopeInSession(
+      SCOPES.VAULT_DELETE,
+      matchingFiles,
+      (file) => file,
+    );
+    const outOfScopeCount = matchingFiles.length - inScope.length;
+    matchingFiles = inScope;
+
     const filesToProcess = matchingFiles.slice(0, limit);
     const truncated = matchingFiles.length > limit;
 
@@ -642,6 +748,7 @@ vaultOperations.register({
                 match: params.match,
                 matchCount: matchingFiles.length,
                 wouldDelete: filesToProcess,
+                outOfScopeCount,
                 truncated,
                 message: truncated
                   ? `Showing first ${limit} of ${matchingFiles.length} matches. Set dryRun: false to delete.`
@@ -655,35 +762,57 @@ vaultOperations.register({
       };
     }
 
-    // Actually delete files
+    if (filesToProcess.length > 0) {
+      await confirm?.({
+        action: `Delete ${filesToProcess.length} files`,
+        files: filesToProcess,
+      });
+      consumeLimit?.(DELETED_FILES_QUOTA, filesToProcess.length);
+    }
+
+    // Actually delete files, keeping copies in one trash folder
+    const batch = createTrashBatch();
     const deleted: string[] = [];
     const skipped: string[] = [];
     const failed: Array<{ file: string; error: string }> = [];
 
-    for (const file of filesToProcess) {
+    for (const [index, file] of filesToProcess.entries()) {
+      if (signal?.aborted) break;
+      await reportProgress?.(index, filesToProcess.length, `Deleting ${file}`);
       try {
         const validPath = validateVaultPath(file);
 
         try {
-          await assertNotProtected(validPath);
+          await assertNotProtected(validPath, signal);
         } catch {
           skipped.push(file);
           continue;
         }
 
+        await copyToTrash(validPath, batch, { signal });
+        await audit?.track(validPath);
         await makeRequest(
           LocalRestAPI.ApiNoContentResponse,
           `/vault/${encodeURIComponent(validPath)}`,
-          { method: "DELETE" },
+          { method: "DELETE", signal },
         );
         deleted.push(file);
       } catch (error) {
+        if (signal?.aborted) break;
         failed.push({
           file,
           error: error instanceof Error ? error.message : String(error),
         });
       }
     }
+    // Only files actually deleted count against the quota
+    if (filesToProcess.length > 0) {
+      refundLimit?.(
+        DELETED_FILES_QUOTA,
+        filesToProcess.length - deleted.length,
+      );
+    }
+    await reportProgress?.(filesToProcess.length, filesToProcess.length);
 
     return {
       content: [
@@ -700,7 +829,9 @@ vaultOperations.register({
               deletedCount: deleted.length,
               skippedCount: skipped.length,
               failedCount: failed.length,
+              outOfScopeCount,
               truncated,
+              cancelled: signal?.aborted ?? false,
             },
             null,
             2,
@@ -714,19 +845,22 @@ vaultOperations.register({
 // OPEN operation
 vaultOperations.register({
   name: "open",
+  scope: SCOPES.PLUGINS_EXECUTE,
   description: "Open a file in the Obsidian UI",
   parameters: {
     path: { type: "string", description: "Vault-relative file path", required: true },
     newLeaf: { type: "boolean", description: "Open in a new pane" },
   },
-  handler: async (params): Promise<OperationResult> => {
+  handler: async (params, { signal } = {}): Promise<OperationResult> => {
     const validPath = validateVaultPath(params.path as string);
+    // Opening a note shows it, so path-scoped read denials apply
+    requireScopeInSession(SCOPES.VAULT_READ, validPath);
     const query = params.newLeaf ? "?newLeaf=true" : "";
 
     await makeRequest(
       LocalRestAPI.ApiNoContentResponse,
       `/open/${encodeURIComponent(validPath)}${query}`,
-      { method: "POST" },
+      { method: "POST", signal },
     );
 
     return {
@@ -740,8 +874,10 @@ vaultOperations.register({
   name: "info",
   description: "Get Obsidian API status and server information",
   parameters: {},
-  handler: async (): Promise<OperationResult> => {
-    const data = await makeRequest(LocalRestAPI.ApiStatusResponse, "/");
+  handler: async (_params, { signal } = {}): Promise<OperationResult> => {
+    const data = await makeRequest(LocalRestAPI.ApiStatusResponse, "/", {
+      signal,
+    });
     return {
       content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
     };
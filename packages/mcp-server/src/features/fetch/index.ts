@@ -1,11 +1,10 @@
-import { logger, type ToolRegistry } from "$/shared";
-import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { logger, SCOPES, type ToolRegistry } from "$/shared";
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { type } from "arktype";
 import { DEFAULT_USER_AGENT } from "./constants";
 import { convertHtmlToMarkdown } from "./services/markdown";
 
-export function registerFetchTool(tools: ToolRegistry, server: Server) {
+export function registerFetchTool(tools: ToolRegistry) {
   tools.register(
     type({
       name: '"fetch"',
@@ -98,5 +97,6 @@ export function registerFetchTool(tools: ToolRegistry, server: Server) {
         );
       }
     },
+    { scope: SCOPES.WEB_FETCH, vault: false },
   );
 }
@@ -0,0 +1,80 @@
+import {
+  requireScopeInSession,
+  SCOPES,
+  type Scope,
+  type ToolRegistry,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { type } from "arktype";
+import { diffRevisions, listRevisions, revertToRevision } from "./services";
+
+export * from "./services";
+
+/** Scope each history operation needs */
+const OPERATION_SCOPES: Record<string, Scope> = {
+  list: SCOPES.VAULT_READ,
+  diff: SCOPES.VAULT_READ,
+  revert: SCOPES.VAULT_WRITE,
+};
+
+/**
+ * Register the `history` tool, which lists, compares and restores the
+ * revisions saved before the server edits a note
+ */
+export function registerHistoryTool(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"history"',
+      arguments: {
+        operation: type('"list" | "diff" | "revert"').describe(
+          "list: show a note's saved revisions. diff: unified diff between two revisions. revert: restore a revision.",
+        ),
+        path: type("string").describe("Note path (vault-relative)"),
+        "revision?": type("string").describe(
+          "diff: revision to compare from. revert: revision to restore.",
+        ),
+        "to?": type("string").describe(
+          'diff: revision to compare to (default: "current", the note as it is now)',
+        ),
+      },
+    }).describe(
+      "Before the server edits a note, it saves the note's content as a revision. List a note's revisions, diff them, or revert a bad edit.",
+    ),
+    async ({ arguments: args }, { signal, audit }) => {
+      requireScopeInSession(OPERATION_SCOPES[args.operation]);
+      if (args.operation === "list") {
+        const result = await listRevisions(args.path, signal);
+        return {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+        };
+      }
+
+      const { revision } = args;
+      if (!revision) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `revision is required for ${args.operation}; use the list operation to find it`,
+        );
+      }
+      if (args.operation === "diff") {
+        const diff = await diffRevisions(args.path, revision, args.to, signal);
+        return {
+          content: [{ type: "text", text: diff || "No differences" }],
+        };
+      }
+
+      const result = await revertToRevision(args.path, revision, {
+        signal,
+        audit,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.VAULT_READ,
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      operationScope: (operation) => OPERATION_SCOPES[operation],
+    },
+  );
+}
@@ -0,0 +1,160 @@
+import {
+  assertNotReadonly,
+  createUnifiedDiff,
+  encodeVaultPath,
+  getHistoryFolder,
+  getHistoryLimit,
+  getRevisionPath,
+  listRevisionIds,
+  makeRequest,
+  requireScopeInSession,
+  REVISION_ID,
+  saveRevision,
+  SCOPES,
+  validateVaultPath,
+  type AuditTrail,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { LocalRestAPI } from "shared";
+
+/** Compare against the note as it is now */
+export const CURRENT_REVISION = "current";
+
+export interface Revision {
+  revision: string;
+  /** When the revision was saved, just before an edit (ISO 8601) */
+  savedAt: string;
+}
+
+function requireHistoryFolder(): string {
+  const folder = getHistoryFolder();
+  if (!folder) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "Revision history is turned off (OBSIDIAN_MCP_HISTORY_FOLDER=off)",
+    );
+  }
+  return folder;
+}
+
+function toRevision(revision: string): Revision {
+  return {
+    revision,
+    savedAt: revision.replace(
+      /T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/,
+      "T$1:$2:$3.$4Z",
+    ),
+  };
+}
+
+async function readFile(path: string, signal?: AbortSignal) {
+  return makeRequest(
+    LocalRestAPI.ApiContentResponse,
+    `/vault/${encodeVaultPath(path)}`,
+    { headers: { Accept: "text/markdown" }, signal },
+  );
+}
+
+/**
+ * Content of a saved revision, or of the note itself for "current"
+ *
+ * @throws McpError if the revision doesn't exist
+ */
+async function readRevision(
+  folder: string,
+  path: string,
+  revision: string,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (revision === CURRENT_REVISION) return readFile(path, signal);
+  if (!REVISION_ID.test(revision)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid revision: "${revision}". Use an ID from the list operation or "${CURRENT_REVISION}".`,
+    );
+  }
+  try {
+    return await readFile(getRevisionPath(folder, path, revision), signal);
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof Error && / 404:/.test(error.message)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `No revision "${revision}" of "${path}"; use the list operation to see its revisions`,
+      );
+    }
+    throw error;
+  }
+}
+
+/**
+ * Saved revisions of a note, newest first
+ */
+export async function listRevisions(path: string, signal?: AbortSignal) {
+  const folder = requireHistoryFolder();
+  const validPath = validateVaultPath(path);
+  requireScopeInSession(SCOPES.VAULT_READ, validPath);
+
+  const revisions = await listRevisionIds(folder, validPath, signal);
+  return {
+    path: validPath,
+    revisions: revisions.reverse().map(toRevision),
+    limit: getHistoryLimit(),
+  };
+}
+
+/**
+ * Unified diff from one revision of a note to another (default: the note
+ * as it is now)
+ */
+export async function diffRevisions(
+  path: string,
+  from: string,
+  to: string = CURRENT_REVISION,
+  signal?: AbortSignal,
+) {
+  const folder = requireHistoryFolder();
+  const validPath = validateVaultPath(path);
+  requireScopeInSession(SCOPES.VAULT_READ, validPath);
+
+  const [oldText, newText] = await Promise.all([
+    readRevision(folder, validPath, from, signal),
+    readRevision(folder, validPath, to, signal),
+  ]);
+  return createUnifiedDiff(oldText, newText, {
+    fromLabel: `${validPath} (${from})`,
+    toLabel: `${validPath} (${to})`,
+  });
+}
+
+/**
+ * Replace a note's content with a saved revision. The content it replaces
+ * is saved as a revision first, so a revert can be reverted too.
+ */
+export async function revertToRevision(
+  path: string,
+  revision: string,
+  { signal, audit }: { signal?: AbortSignal; audit?: AuditTrail } = {},
+) {
+  const folder = requireHistoryFolder();
+  const validPath = validateVaultPath(path);
+  requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
+  if (revision === CURRENT_REVISION) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Choose a saved revision to revert to; use the list operation to see them",
+    );
+  }
+
+  const content = await readRevision(folder, validPath, revision, signal);
+  await assertNotReadonly(validPath);
+  const saved = await saveRevision(validPath, signal);
+
+  await audit?.track(validPath);
+  await makeRequest(
+    LocalRestAPI.ApiNoContentResponse,
+    `/vault/${encodeVaultPath(validPath)}`,
+    { method: "PUT", body: content, signal },
+  );
+  return { path: validPath, revertedTo: revision, savedRevision: saved };
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for the patch tools while changes aren't made
+ */
+
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ToolRegistryClass, type ToolRegistry } from "$/shared";
+import { registerDispatcherTools } from "../dispatchers";
+import { registerLocalRestApiTools } from "./index";
+
+const NOTE = {
+  content: "# Tasks\n\n- one\n",
+  frontmatter: {},
+  path: "Inbox/note.md",
+  stat: { ctime: 0, mtime: 0, size: 16 },
+  tags: [],
+};
+
+const PATCH = {
+  operation: "append",
+  targetType: "heading",
+  target: "Tasks",
+  content: "- two\n",
+};
+
+// The dispatchers' own `operation` argument picks the patch operation
+const { operation: _, ...DISPATCHER_PATCH } = PATCH;
+
+const PATCH_CALLS = [
+  { name: "patch_vault_file", arguments: { filename: NOTE.path, ...PATCH } },
+  { name: "patch_active_file", arguments: PATCH },
+  {
+    name: "vault",
+    arguments: { ...DISPATCHER_PATCH, operation: "patch", path: NOTE.path },
+  },
+  {
+    name: "active_file",
+    arguments: { ...DISPATCHER_PATCH, operation: "patch" },
+  },
+];
+
+describe("patch tools", () => {
+  const originalFetch = globalThis.fetch;
+  const originalDryRun = process.env.OBSIDIAN_MCP_DRY_RUN;
+  const fetchMock = mock(async (_url: string, init?: RequestInit) => {
+    if (init?.method && init.method !== "GET") {
+      throw new Error(`Unexpected ${init.method} request`);
+    }
+    const accept = new Headers(init?.headers).get("Accept") ?? "";
+    return accept.includes("json")
+      ? Response.json(NOTE)
+      : new Response(NOTE.content, {
+          headers: { "Content-Type": "text/markdown" },
+        });
+  });
+  let tools: ToolRegistry;
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "test-key";
+    process.env.OBSIDIAN_MCP_DRY_RUN = "true";
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+    tools = new ToolRegistryClass();
+    registerLocalRestApiTools(tools);
+    registerDispatcherTools(tools);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    if (originalDryRun === undefined) delete process.env.OBSIDIAN_MCP_DRY_RUN;
+    else process.env.OBSIDIAN_MCP_DRY_RUN = originalDryRun;
+  });
+
+  for (const call of PATCH_CALLS) {
+    test(`${call.name} reports a dry run instead of a patch`, async () => {
+      const result = await tools.dispatch(call, { server: {} as Server });
+
+      const content = result.content as Array<{ text?: unknown }>;
+
+      expect(result.isError).toBeFalsy();
+      for (const item of content) {
+        expect(item.text).toBeString();
+      }
+      const texts = content.map((item) => item.text as string);
+      expect(texts[0]).toBe("Dry run: nothing was changed.");
+      expect(texts.join("\n")).not.toContain("patched successfully");
+      expect(texts.at(-1)).toContain("Patch Inbox/note.md");
+    });
+  }
+});
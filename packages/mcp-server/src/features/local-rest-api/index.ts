@@ -4,17 +4,26 @@ import {
   validateOptionalPath,
   assertNotProtected,
   assertNotReadonly,
+  copyToTrash,
+  createTrashBatch,
+  DELETED_FILES_QUOTA,
+  describeUnappliedChanges,
+  filterByScopeInSession,
+  filterReadableInSession,
+  groupPendingChanges,
   isHidden,
+  isInMcpFolder,
   MCP_TAGS,
-  SCOPES,
+  requireActiveFileScope,
   requireScopeInSession,
+  saveRevision,
+  SCOPES,
   type ToolRegistry,
 } from "$/shared";
-import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { type } from "arktype";
 import { LocalRestAPI } from "shared";
 
-export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
+export function registerLocalRestApiTools(tools: ToolRegistry) {
   // GET Status
   tools.register(
     type({
@@ -23,12 +32,15 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Returns basic details about the Obsidian Local REST API and authentication status. This is the only API request that does not require authentication.",
     ),
-    async () => {
-      const data = await makeRequest(LocalRestAPI.ApiStatusResponse, "/");
+    async (_request, { signal }) => {
+      const data = await makeRequest(LocalRestAPI.ApiStatusResponse, "/", {
+        signal,
+      });
       return {
         content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
       };
     },
+    { annotations: { readOnlyHint: true } },
   );
 
   // GET Active File
@@ -41,9 +53,8 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Returns the content of the currently active file in Obsidian. Can return either markdown content or a JSON representation including parsed tags and frontmatter.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_READ);
-
+    async ({ arguments: args }, { signal }) => {
+      await requireActiveFileScope(SCOPES.VAULT_READ, signal);
       const format =
         args?.format === "json"
           ? "application/vnd.olrapi.note+json"
@@ -53,12 +64,14 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         "/active/",
         {
           headers: { Accept: format },
+          signal,
         },
       );
       const content =
         typeof data === "string" ? data : JSON.stringify(data, null, 2);
       return { content: [{ type: "text", text: content }] };
     },
+    { scope: SCOPES.VAULT_READ },
   );
 
   // PUT Active File
@@ -69,14 +82,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         content: "string",
       },
     }).describe("Update the content of the active file open in Obsidian. Respects mcp-readonly tag."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       // Check if active file is readonly
       const activeFile = await makeRequest(
         LocalRestAPI.ApiNoteJson,
         "/active/",
-        { headers: { Accept: "application/vnd.olrapi.note+json" } },
+        { headers: { Accept: "application/vnd.olrapi.note+json" }, signal },
       );
       if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
         return {
@@ -87,15 +98,23 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           isError: true,
         };
       }
+      requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+      await saveRevision(activeFile.path, signal);
+      await audit.track(activeFile.path);
 
       await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
         method: "PUT",
         body: args.content,
+        signal,
       });
       return {
         content: [{ type: "text", text: "File updated successfully" }],
       };
     },
+    {
+      scope: SCOPES.VAULT_WRITE,
+      annotations: { destructiveHint: true, idempotentHint: true },
+    },
   );
 
   // POST Active File
@@ -106,14 +125,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         content: "string",
       },
     }).describe("Append content to the end of the currently-open note. Respects mcp-readonly tag."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       // Check if active file is readonly
       const activeFile = await makeRequest(
         LocalRestAPI.ApiNoteJson,
         "/active/",
-        { headers: { Accept: "application/vnd.olrapi.note+json" } },
+        { headers: { Accept: "application/vnd.olrapi.note+json" }, signal },
       );
       if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
         return {
@@ -124,15 +141,20 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           isError: true,
         };
       }
+      requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+      await saveRevision(activeFile.path, signal);
+      await audit.track(activeFile.path);
 
       await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
         method: "POST",
         body: args.content,
+        signal,
       });
       return {
         content: [{ type: "text", text: "Content appended successfully" }],
       };
     },
+    { scope: SCOPES.VAULT_WRITE },
   );
 
   // PATCH Active File
@@ -143,14 +165,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Insert or modify content in the currently-open note relative to a heading, block reference, or frontmatter field. Respects mcp-readonly tag.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       // Check if active file is readonly
       const activeFile = await makeRequest(
         LocalRestAPI.ApiNoteJson,
         "/active/",
-        { headers: { Accept: "application/vnd.olrapi.note+json" } },
+        { headers: { Accept: "application/vnd.olrapi.note+json" }, signal },
       );
       if (activeFile.tags?.includes(MCP_TAGS.READONLY)) {
         return {
@@ -161,6 +181,9 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           isError: true,
         };
       }
+      requireScopeInSession(SCOPES.VAULT_WRITE, activeFile.path);
+      await saveRevision(activeFile.path, signal);
+      await audit.track(activeFile.path);
 
       const headers: Record<string, string> = {
         Operation: args.operation,
@@ -186,8 +209,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           method: "PATCH",
           headers,
           body: args.content,
+          signal,
         },
       );
+      const unapplied = describeUnappliedChanges();
+      if (unapplied) return { content: [{ type: "text", text: unapplied }] };
+
       return {
         content: [
           { type: "text", text: "File patched successfully" },
@@ -195,6 +222,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         ],
       };
     },
+    { scope: SCOPES.VAULT_WRITE, annotations: { destructiveHint: true } },
   );
 
   // DELETE Active File
@@ -203,14 +231,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
       name: '"delete_active_file"',
       arguments: "Record<string, unknown>",
     }).describe("Delete the currently-active file in Obsidian. Respects mcp-protected tag."),
-    async () => {
-      requireScopeInSession(SCOPES.VAULT_DELETE);
-
+    async (_request, { signal, confirm, consumeLimit, audit }) => {
       // Check if active file is protected
       const activeFile = await makeRequest(
         LocalRestAPI.ApiNoteJson,
         "/active/",
-        { headers: { Accept: "application/vnd.olrapi.note+json" } },
+        { headers: { Accept: "application/vnd.olrapi.note+json" }, signal },
       );
       if (activeFile.tags?.includes(MCP_TAGS.PROTECTED)) {
         return {
@@ -221,14 +247,22 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           isError: true,
         };
       }
+      requireScopeInSession(SCOPES.VAULT_DELETE, activeFile.path);
 
+      await confirm({ action: "Delete the active file", files: [activeFile.path] });
+      consumeLimit(DELETED_FILES_QUOTA, 1);
+
+      await copyToTrash(activeFile.path, createTrashBatch(), { signal });
+      await audit.track(activeFile.path);
       await makeRequest(LocalRestAPI.ApiNoContentResponse, "/active/", {
         method: "DELETE",
+        signal,
       });
       return {
         content: [{ type: "text", text: "File deleted successfully" }],
       };
     },
+    { scope: SCOPES.VAULT_DELETE },
   );
 
   // POST Open File in Obsidian UI
@@ -242,10 +276,10 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Open a document in the Obsidian UI. Creates a new document if it doesn't exist. Returns a confirmation if the file was opened successfully.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.PLUGINS_EXECUTE);
-
+    async ({ arguments: args }, { signal }) => {
       const validPath = validateVaultPath(args.filename);
+      // Opening a note shows it, so path-scoped read denials apply
+      requireScopeInSession(SCOPES.VAULT_READ, validPath);
       const query = args.newLeaf ? "?newLeaf=true" : "";
 
       await makeRequest(
@@ -253,6 +287,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         `/open/${encodeURIComponent(validPath)}${query}`,
         {
           method: "POST",
+          signal,
         },
       );
 
@@ -260,6 +295,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         content: [{ type: "text", text: "File opened successfully" }],
       };
     },
+    { scope: SCOPES.PLUGINS_EXECUTE, annotations: { idempotentHint: true } },
   );
 
   // POST Search via Dataview or JsonLogic
@@ -273,9 +309,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Search for documents matching a specified query using either Dataview DQL or JsonLogic.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_SEARCH);
-
+    async ({ arguments: args }, { signal }) => {
       const contentType =
         args.queryType === "dataview"
           ? "application/vnd.olrapi.dataview.dql+txt"
@@ -288,13 +322,20 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           method: "POST",
           headers: { "Content-Type": contentType },
           body: args.query,
+          signal,
         },
       );
+      const results = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        data,
+        (result) => result.filename,
+      );
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
       };
     },
+    { scope: SCOPES.VAULT_SEARCH },
   );
 
   // POST Simple Search
@@ -306,9 +347,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         "contextLength?": "number",
       },
     }).describe("Search for documents matching a text query."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_SEARCH);
-
+    async ({ arguments: args }, { signal }) => {
       const query = new URLSearchParams({
         query: args.query,
         ...(args.contextLength
@@ -323,13 +362,20 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         `/search/simple/?${query}`,
         {
           method: "POST",
+          signal,
         },
       );
+      const results = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        data,
+        (result) => result.filename,
+      );
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(results, null, 2) }],
       };
     },
+    { scope: SCOPES.VAULT_SEARCH },
   );
 
   // GET Vault Files or Directories List
@@ -342,9 +388,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "List files in the root directory or a specified subdirectory of your vault.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_LIST);
-
+    async ({ arguments: args }, { signal }) => {
       const validPath = validateOptionalPath(args.directory);
       const path = validPath ? `${validPath}/` : "";
       const data = await makeRequest(
@@ -352,11 +396,25 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           LocalRestAPI.ApiVaultDirectoryResponse,
         ),
         `/vault/${path}`,
+        { signal },
       );
+      // Only list the entries the session may see
+      const listing =
+        "files" in data
+          ? {
+              ...data,
+              files: filterReadableInSession(
+                SCOPES.VAULT_LIST,
+                data.files,
+                (file) => `${path}${file}`,
+              ),
+            }
+          : data;
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [{ type: "text", text: JSON.stringify(listing, null, 2) }],
       };
     },
+    { scope: SCOPES.VAULT_LIST },
   );
 
   // GET Vault File Content
@@ -368,10 +426,9 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         "format?": '"markdown" | "json"',
       },
     }).describe("Get the content of a file from your vault."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_READ);
-
+    async ({ arguments: args }, { signal }) => {
       const validPath = validateVaultPath(args.filename);
+      requireScopeInSession(SCOPES.VAULT_READ, validPath);
       const isJson = args.format === "json";
       const format = isJson
         ? "application/vnd.olrapi.note+json"
@@ -381,6 +438,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         `/vault/${encodeURIComponent(validPath)}`,
         {
           headers: { Accept: format },
+          signal,
         },
       );
       return {
@@ -393,6 +451,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         ],
       };
     },
+    { scope: SCOPES.VAULT_READ },
   );
 
   // PUT Vault File Content
@@ -404,14 +463,13 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         content: "string",
       },
     }).describe("Create a new file in your vault or update an existing one. Respects mcp-readonly tag for existing files."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       const validPath = validateVaultPath(args.filename);
+      requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
       // Check if existing file is readonly (new files are fine)
       try {
-        await assertNotReadonly(validPath);
+        await assertNotReadonly(validPath, signal);
       } catch (error) {
         // If it's a readonly error, return it; otherwise the file doesn't exist (fine to create)
         if (error instanceof Error && error.message.includes("read-only")) {
@@ -425,18 +483,25 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }
       }
 
+      await saveRevision(validPath, signal);
+      await audit.track(validPath);
       await makeRequest(
         LocalRestAPI.ApiNoContentResponse,
         `/vault/${encodeURIComponent(validPath)}`,
         {
           method: "PUT",
           body: args.content,
+          signal,
         },
       );
       return {
         content: [{ type: "text", text: "File created successfully" }],
       };
     },
+    {
+      scope: SCOPES.VAULT_WRITE,
+      annotations: { destructiveHint: true, idempotentHint: true },
+    },
   );
 
   // POST Vault File Content
@@ -448,14 +513,13 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         content: "string",
       },
     }).describe("Append content to a new or existing file. Respects mcp-readonly tag."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       const validPath = validateVaultPath(args.filename);
+      requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
       // Check if file is readonly (if it exists)
       try {
-        await assertNotReadonly(validPath);
+        await assertNotReadonly(validPath, signal);
       } catch (error) {
         if (error instanceof Error && error.message.includes("read-only")) {
           return {
@@ -468,18 +532,22 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }
       }
 
+      await saveRevision(validPath, signal);
+      await audit.track(validPath);
       await makeRequest(
         LocalRestAPI.ApiNoContentResponse,
         `/vault/${encodeURIComponent(validPath)}`,
         {
           method: "POST",
           body: args.content,
+          signal,
         },
       );
       return {
         content: [{ type: "text", text: "Content appended successfully" }],
       };
     },
+    { scope: SCOPES.VAULT_WRITE },
   );
 
   // PATCH Vault File Content
@@ -492,13 +560,12 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Insert or modify content in a file relative to a heading, block reference, or frontmatter field. Respects mcp-readonly tag.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_WRITE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       const validPath = validateVaultPath(args.filename);
+      requireScopeInSession(SCOPES.VAULT_WRITE, validPath);
 
       // Check if file is readonly
-      await assertNotReadonly(validPath);
+      await assertNotReadonly(validPath, signal);
 
       const headers: HeadersInit = {
         Operation: args.operation,
@@ -517,6 +584,8 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         headers["Content-Type"] = args.contentType;
       }
 
+      await saveRevision(validPath, signal);
+      await audit.track(validPath);
       const response = await makeRequest(
         LocalRestAPI.ApiContentResponse,
         `/vault/${encodeURIComponent(validPath)}`,
@@ -524,9 +593,13 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           method: "PATCH",
           headers,
           body: args.content,
+          signal,
         },
       );
 
+      const unapplied = describeUnappliedChanges();
+      if (unapplied) return { content: [{ type: "text", text: unapplied }] };
+
       return {
         content: [
           { type: "text", text: "File patched successfully" },
@@ -534,6 +607,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         ],
       };
     },
+    { scope: SCOPES.VAULT_WRITE, annotations: { destructiveHint: true } },
   );
 
   // DELETE Vault File Content
@@ -544,25 +618,30 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         filename: "string",
       },
     }).describe("Delete a file from your vault. Respects mcp-protected tag."),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_DELETE);
-
+    async ({ arguments: args }, { signal, confirm, consumeLimit, audit }) => {
       const validPath = validateVaultPath(args.filename);
+      requireScopeInSession(SCOPES.VAULT_DELETE, validPath);
 
       // Check if file is protected
-      await assertNotProtected(validPath);
+      await assertNotProtected(validPath, signal);
+      await confirm({ action: "Delete 1 file", files: [validPath] });
+      consumeLimit(DELETED_FILES_QUOTA, 1);
 
+      await copyToTrash(validPath, createTrashBatch(), { signal });
+      await audit.track(validPath);
       await makeRequest(
         LocalRestAPI.ApiNoContentResponse,
         `/vault/${encodeURIComponent(validPath)}`,
         {
           method: "DELETE",
+          signal,
         },
       );
       return {
         content: [{ type: "text", text: "File deleted successfully" }],
       };
     },
+    { scope: SCOPES.VAULT_DELETE },
   );
 
   // MOVE Vault File (read + write + delete)
@@ -577,14 +656,14 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Move a file from one location to another in your vault. Respects mcp-protected tag.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_MOVE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       const sourcePath = validateVaultPath(args.source);
       const destPath = validateVaultPath(args.destination);
+      requireScopeInSession(SCOPES.VAULT_MOVE, sourcePath);
+      requireScopeInSession(SCOPES.VAULT_MOVE, destPath);
 
       // Check if source is protected (can't move protected files)
-      await assertNotProtected(sourcePath);
+      await assertNotProtected(sourcePath, signal);
 
       // Check if destination exists (unless overwrite is true)
       if (!args.overwrite) {
@@ -592,7 +671,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           await makeRequest(
             LocalRestAPI.ApiContentResponse,
             `/vault/${encodeURIComponent(destPath)}`,
-            { headers: { Accept: "text/markdown" } },
+            { headers: { Accept: "text/markdown" }, signal },
           );
           // If we get here, the file exists
           return {
@@ -611,27 +690,41 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
       const content = await makeRequest(
         LocalRestAPI.ApiContentResponse,
         `/vault/${encodeURIComponent(sourcePath)}`,
-        { headers: { Accept: "text/markdown" } },
+        { headers: { Accept: "text/markdown" }, signal },
       );
 
-      // Write to destination
-      await makeRequest(
-        LocalRestAPI.ApiNoContentResponse,
-        `/vault/${encodeURIComponent(destPath)}`,
-        {
-          method: "PUT",
-          body: content,
-        },
-      );
+      // Keep the destination's content if it's being overwritten
+      await copyToTrash(destPath, createTrashBatch(), {
+        missingOk: true,
+        signal,
+      });
 
-      // Delete source
-      await makeRequest(
-        LocalRestAPI.ApiNoContentResponse,
-        `/vault/${encodeURIComponent(sourcePath)}`,
-        {
-          method: "DELETE",
-        },
-      );
+      await audit.track(sourcePath);
+      await audit.track(destPath);
+
+      // If queued, the write and delete are approved or rejected together
+      await groupPendingChanges(async () => {
+        // Write to destination
+        await makeRequest(
+          LocalRestAPI.ApiNoContentResponse,
+          `/vault/${encodeURIComponent(destPath)}`,
+          {
+            method: "PUT",
+            body: content,
+            signal,
+          },
+        );
+
+        // Delete source
+        await makeRequest(
+          LocalRestAPI.ApiNoContentResponse,
+          `/vault/${encodeURIComponent(sourcePath)}`,
+          {
+            method: "DELETE",
+            signal,
+          },
+        );
+      });
 
       return {
         content: [{
@@ -640,6 +733,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }],
       };
     },
+    { scope: SCOPES.VAULT_MOVE, annotations: { destructiveHint: true } },
   );
 
   // RENAME Vault File (convenience wrapper around move)
@@ -653,44 +747,58 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Rename a file in your vault, keeping it in the same directory. Respects mcp-protected tag.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_MOVE);
-
+    async ({ arguments: args }, { signal, audit }) => {
       const sourcePath = validateVaultPath(args.filename);
 
-      // Check if file is protected
-      await assertNotProtected(sourcePath);
-
       // Extract directory from source path
       const lastSlash = sourcePath.lastIndexOf("/");
       const directory = lastSlash >= 0 ? sourcePath.substring(0, lastSlash + 1) : "";
       const destPath = validateVaultPath(directory + args.newName);
+      requireScopeInSession(SCOPES.VAULT_MOVE, sourcePath);
+      requireScopeInSession(SCOPES.VAULT_MOVE, destPath);
+
+      // Check if file is protected
+      await assertNotProtected(sourcePath, signal);
 
       // Read source file content
       const content = await makeRequest(
         LocalRestAPI.ApiContentResponse,
         `/vault/${encodeURIComponent(sourcePath)}`,
-        { headers: { Accept: "text/markdown" } },
+        { headers: { Accept: "text/markdown" }, signal },
       );
 
-      // Write to destination
-      await makeRequest(
-        LocalRestAPI.ApiNoContentResponse,
-        `/vault/${encodeURIComponent(destPath)}`,
-        {
-          method: "PUT",
-          body: content,
-        },
-      );
+      // Keep the content of a file the new name replaces
+      await copyToTrash(destPath, createTrashBatch(), {
+        missingOk: true,
+        signal,
+      });
 
-      // Delete source
-      await makeRequest(
-        LocalRestAPI.ApiNoContentResponse,
-        `/vault/${encodeURIComponent(sourcePath)}`,
-        {
-          method: "DELETE",
-        },
-      );
+      await audit.track(sourcePath);
+      await audit.track(destPath);
+
+      // If queued, the write and delete are approved or rejected together
+      await groupPendingChanges(async () => {
+        // Write to destination
+        await makeRequest(
+          LocalRestAPI.ApiNoContentResponse,
+          `/vault/${encodeURIComponent(destPath)}`,
+          {
+            method: "PUT",
+            body: content,
+            signal,
+          },
+        );
+
+        // Delete source
+        await makeRequest(
+          LocalRestAPI.ApiNoContentResponse,
+          `/vault/${encodeURIComponent(sourcePath)}`,
+          {
+            method: "DELETE",
+            signal,
+          },
+        );
+      });
 
       return {
         content: [{
@@ -699,6 +807,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }],
       };
     },
+    { scope: SCOPES.VAULT_MOVE },
   );
 
   // BULK DELETE - unified tool for pattern, regex, or search-based deletion
@@ -716,9 +825,10 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Delete multiple vault files matching a glob pattern, regex, or search query. Defaults to dry-run mode for safety.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_DELETE);
-
+    async (
+      { arguments: args },
+      { reportProgress, signal, confirm, consumeLimit, refundLimit, audit },
+    ) => {
       const matchType = args.type ?? "glob";
       const limit = args.limit ?? 100;
       const dryRun = args.dryRun ?? true;
@@ -742,7 +852,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         const searchResults = await makeRequest(
           LocalRestAPI.ApiSimpleSearchResponse,
           `/search/simple/?query=${encodeURIComponent(args.match)}`,
-          { method: "POST" },
+          { method: "POST", signal },
         );
         matchingFiles = [...new Set(
           searchResults.map((result: { filename: string }) => result.filename)
@@ -790,6 +900,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         const allFiles = await makeRequest(
           LocalRestAPI.ApiVaultDirectoryResponse,
           "/vault/",
+          { signal },
         );
 
         matchingFiles = allFiles.files.filter((file: string) => {
@@ -804,6 +915,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         const allFiles = await makeRequest(
           LocalRestAPI.ApiVaultDirectoryResponse,
           "/vault/",
+          { signal },
         );
 
         matchingFiles = allFiles.files.filter((file: string) => {
@@ -815,6 +927,19 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         });
       }
 
+      // Files in the trash are only removed with `trash purge`, and revisions
+      // are only pruned when newer ones are saved
+      matchingFiles = matchingFiles.filter((file) => !isInMcpFolder(file));
+
+      // Leave out files the session may not delete
+      const inScope = filterByScopeInSession(
+        SCOPES.VAULT_DELETE,
+        matchingFiles,
+        (file) => file,
+      );
+      const outOfScopeCount = matchingFiles.length - inScope.length;
+      matchingFiles = inScope;
+
       const filesToProcess = matchingFiles.slice(0, limit);
       const truncated = matchingFiles.length > limit;
 
@@ -828,6 +953,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
               match: args.match,
               matchCount: matchingFiles.length,
               wouldDelete: filesToProcess,
+              outOfScopeCount,
               truncated,
               message: truncated
                 ? `Showing first ${limit} of ${matchingFiles.length} matches. Set dryRun: false to delete.`
@@ -837,36 +963,60 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         };
       }
 
-      // Actually delete files (respecting mcp-protected tag)
+      if (filesToProcess.length > 0) {
+        await confirm({
+          action: `Delete ${filesToProcess.length} files`,
+          files: filesToProcess,
+        });
+        consumeLimit(DELETED_FILES_QUOTA, filesToProcess.length);
+      }
+
+      // Actually delete files (respecting mcp-protected tag), keeping
+      // copies in one trash folder
+      const batch = createTrashBatch();
       const deleted: string[] = [];
       const skipped: string[] = [];
       const failed: Array<{ file: string; error: string }> = [];
 
-      for (const file of filesToProcess) {
+      for (const [index, file] of filesToProcess.entries()) {
+        // Stop deleting once the client cancels; report what was done so far
+        if (signal?.aborted) break;
+        await reportProgress(index, filesToProcess.length, `Deleting ${file}`);
         try {
           const validPath = validateVaultPath(file);
 
           // Check if file is protected before deleting
           try {
-            await assertNotProtected(validPath);
+            await assertNotProtected(validPath, signal);
           } catch {
             skipped.push(file);
             continue;
           }
 
+          await copyToTrash(validPath, batch, { signal });
+          await audit.track(validPath);
           await makeRequest(
             LocalRestAPI.ApiNoContentResponse,
             `/vault/${encodeURIComponent(validPath)}`,
-            { method: "DELETE" },
+            { method: "DELETE", signal },
           );
           deleted.push(file);
         } catch (error) {
+          if (signal?.aborted) break;
           failed.push({
             file,
             error: error instanceof Error ? error.message : String(error),
           });
         }
       }
+      // Only files actually deleted count against the quota
+      if (filesToProcess.length > 0) {
+        refundLimit(
+          DELETED_FILES_QUOTA,
+          filesToProcess.length - deleted.length,
+        );
+      }
+      await reportProgress(filesToProcess.length, filesToProcess.length);
 
       return {
         content: [{
@@ -881,11 +1031,14 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
             deletedCount: deleted.length,
             skippedCount: skipped.length,
             failedCount: failed.length,
+            outOfScopeCount,
             truncated,
+            cancelled: signal?.aborted ?? false,
           }, null, 2),
         }],
       };
     },
+    { scope: SCOPES.VAULT_DELETE },
   );
 
   // FIND ORPHAN ATTACHMENTS - vault hygiene tool
@@ -899,9 +1052,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Find attachment files (images, PDFs, etc.) that are not referenced by any note in the vault.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_SEARCH);
-
+    async ({ arguments: args }, { reportProgress, signal }) => {
       const defaultExtensions = [
         ".png", ".jpg", ".jpeg", ".gif", ".webp", ".svg", ".bmp",
         ".pdf", ".mp3", ".mp4", ".webm", ".wav", ".ogg",
@@ -914,10 +1065,16 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
       const allFiles = await makeRequest(
         LocalRestAPI.ApiVaultDirectoryResponse,
         "/vault/",
+        { signal },
       );
 
       // Find attachment files
-      const attachmentFiles = allFiles.files.filter((file: string) => {
+      // Only report attachments the session may search and read
+      const attachmentFiles = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        allFiles.files,
+        (file) => file,
+      ).filter((file: string) => {
         const ext = file.substring(file.lastIndexOf(".")).toLowerCase();
         return extensions.includes(ext);
       });
@@ -938,12 +1095,16 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         /\[[^\]]*\]\(([^)]+)\)/g,            // Markdown links
       ];
 
-      for (const mdFile of markdownFiles.slice(0, 500)) { // Limit to avoid timeout
+      let scanned = 0;
+      for (const [index, mdFile] of markdownFiles.entries()) {
+        if (signal?.aborted) break;
+        await reportProgress(index, markdownFiles.length, `Scanning ${mdFile}`);
+        scanned++;
         try {
           const content = await makeRequest(
             LocalRestAPI.ApiContentResponse,
             `/vault/${encodeURIComponent(mdFile)}`,
-            { headers: { Accept: "text/markdown" } },
+            { headers: { Accept: "text/markdown" }, signal },
           );
 
           for (const pattern of linkPatterns) {
@@ -966,6 +1127,24 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           // Skip files that can't be read
         }
       }
+      await reportProgress(scanned, markdownFiles.length);
+
+      // An attachment may be linked from a note that wasn't scanned, so a
+      // cancelled scan can't tell which ones are orphans
+      if (signal?.aborted) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({
+              totalAttachments: attachmentFiles.length,
+              markdownFilesScanned: scanned,
+              markdownFileCount: markdownFiles.length,
+              cancelled: true,
+              message: `Cancelled after scanning ${scanned} of ${markdownFiles.length} notes; no orphans are reported because the rest may link to them.`,
+            }, null, 2),
+          }],
+        };
+      }
 
       // Find orphans
       const orphans = attachmentFiles.filter((file: string) => {
@@ -982,7 +1161,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           text: JSON.stringify({
             orphanCount: orphans.length,
             totalAttachments: attachmentFiles.length,
-            markdownFilesScanned: Math.min(markdownFiles.length, 500),
+            markdownFilesScanned: scanned,
             orphans: results,
             truncated,
             message: truncated
@@ -992,6 +1171,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }],
       };
     },
+    { scope: SCOPES.VAULT_SEARCH },
   );
 
   // FIND BROKEN LINKS - vault hygiene tool
@@ -1004,15 +1184,14 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
     }).describe(
       "Find internal links in notes that point to non-existent files.",
     ),
-    async ({ arguments: args }) => {
-      requireScopeInSession(SCOPES.VAULT_SEARCH);
-
+    async ({ arguments: args }, { reportProgress, signal }) => {
       const limit = args.limit ?? 100;
 
       // Get all files in vault
       const allFiles = await makeRequest(
         LocalRestAPI.ApiVaultDirectoryResponse,
         "/vault/",
+        { signal },
       );
 
       // Build set of existing files (normalized)
@@ -1029,21 +1208,28 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
       }
 
       // Find markdown files
-      const markdownFiles = allFiles.files.filter((file: string) =>
-        file.endsWith(".md")
-      );
+      // Only scan notes the session may search and read
+      const markdownFiles = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        allFiles.files,
+        (file) => file,
+      ).filter((file: string) => file.endsWith(".md"));
 
       const brokenLinks: Array<{ file: string; link: string; line?: number }> = [];
 
       // Pattern to match internal links
       const wikiLinkPattern = /\[\[([^\]|#]+)(?:[|#][^\]]+)?\]\]/g;
 
-      for (const mdFile of markdownFiles.slice(0, 500)) { // Limit to avoid timeout
+      let scanned = 0;
+      for (const mdFile of markdownFiles) {
+        if (signal?.aborted) break;
+        await reportProgress(scanned, markdownFiles.length, `Scanning ${mdFile}`);
+        scanned++;
         try {
           const content = await makeRequest(
             LocalRestAPI.ApiContentResponse,
             `/vault/${encodeURIComponent(mdFile)}`,
-            { headers: { Accept: "text/markdown" } },
+            { headers: { Accept: "text/markdown" }, signal },
           );
 
           const lines = content.split("\n");
@@ -1084,6 +1270,7 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
 
         if (brokenLinks.length >= limit) break;
       }
+      await reportProgress(scanned, markdownFiles.length);
 
       const results = brokenLinks.slice(0, limit);
       const truncated = brokenLinks.length > limit;
@@ -1093,9 +1280,10 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
           type: "text",
           text: JSON.stringify({
             brokenLinkCount: brokenLinks.length,
-            markdownFilesScanned: Math.min(markdownFiles.length, 500),
+            markdownFilesScanned: scanned,
             brokenLinks: results,
             truncated,
+            cancelled: signal?.aborted ?? false,
             message: truncated
               ? `Showing first ${limit} of ${brokenLinks.length} broken links.`
               : `Found ${brokenLinks.length} broken links.`,
@@ -1103,5 +1291,6 @@ export function registerLocalRestApiTools(tools: ToolRegistry, server: Server) {
         }],
       };
     },
+    { scope: SCOPES.VAULT_SEARCH },
   );
 }
@@ -0,0 +1,127 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { LoggingMessageNotification } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, test } from "bun:test";
+import { ClientLogging } from "./index";
+
+type SetLevelHandler = (request: {
+  params: { level: string };
+}) => Promise<unknown>;
+
+function createSession() {
+  const sent: LoggingMessageNotification["params"][] = [];
+  let setLevel: SetLevelHandler | undefined;
+  const server = {
+    setRequestHandler: (_schema: unknown, handler: SetLevelHandler) => {
+      setLevel = handler;
+    },
+    sendLoggingMessage: async (
+      params: LoggingMessageNotification["params"],
+    ) => {
+      sent.push(params);
+    },
+  } as unknown as Server;
+  return {
+    server,
+    sent,
+    setLevel: (level: string) => setLevel!({ params: { level } }),
+  };
+}
+
+describe("ClientLogging", () => {
+  test("forwards warnings and errors by default", () => {
+    const logging = new ClientLogging();
+    const session = createSession();
+    logging.attach(session.server);
+
+    logging.runInSession(session.server, () => {
+      logging.forward({ level: "DEBUG", message: "noise", meta: {} });
+      logging.forward({
+        level: "WARN",
+        message: "careful",
+        meta: { path: "a.md" },
+      });
+      logging.forward({ level: "FATAL", message: "down", meta: {} });
+    });
+
+    expect(session.sent).toEqual([
+      {
+        level: "warning",
+        logger: "obsidian-mcp-tools",
+        data: { message: "careful", meta: { path: "a.md" } },
+      },
+      {
+        level: "critical",
+        logger: "obsidian-mcp-tools",
+        data: { message: "down" },
+      },
+    ]);
+  });
+
+  test("applies the level each session sets", async () => {
+    const logging = new ClientLogging();
+    const verbose = createSession();
+    const quiet = createSession();
+    logging.attach(verbose.server);
+    logging.attach(quiet.server);
+
+    await verbose.setLevel("debug");
+    await quiet.setLevel("error");
+    logging.forward({ level: "DEBUG", message: "details", meta: {} });
+
+    expect(verbose.sent).toHaveLength(1);
+    expect(quiet.sent).toHaveLength(0);
+  });
+
+  test("sends a session's entries to that session only", () => {
+    const logging = new ClientLogging();
+    const own = createSession();
+    const other = createSession();
+    logging.attach(own.server);
+    logging.attach(other.server);
+
+    logging.runInSession(own.server, () =>
+      logging.forward({
+        level: "ERROR",
+        message: "failed",
+        meta: { arguments: { content: "secret note" } },
+      }),
+    );
+
+    expect(own.sent).toHaveLength(1);
+    expect(other.sent).toHaveLength(0);
+  });
+
+  test("sends entries from outside a session to all, without metadata", () => {
+    const logging = new ClientLogging();
+    const first = createSession();
+    const second = createSession();
+    logging.attach(first.server);
+    logging.attach(second.server);
+
+    logging.forward({
+      level: "WARN",
+      message: "poll failed",
+      meta: { uri: "obsidian://vault/a.md" },
+    });
+
+    for (const session of [first, second]) {
+      expect(session.sent).toEqual([
+        {
+          level: "warning",
+          logger: "obsidian-mcp-tools",
+          data: { message: "poll failed" },
+        },
+      ]);
+    }
+  });
+
+  test("stops forwarding to detached sessions", () => {
+    const logging = new ClientLogging();
+    const session = createSession();
+    logging.attach(session.server);
+    logging.detach(session.server);
+
+    logging.forward({ level: "ERROR", message: "gone", meta: {} });
+    expect(session.sent).toHaveLength(0);
+  });
+});
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  LoggingLevelSchema,
+  SetLevelRequestSchema,
+  type LoggingLevel,
+} from "@modelcontextprotocol/sdk/types.js";
+import type { LogEntry, LogLevel } from "shared";
+import { sanitizeLogData } from "./services";
+
+export * from "./services";
+
+/** Level used until the client calls logging/setLevel */
+export const DEFAULT_CLIENT_LOG_LEVEL: LoggingLevel = "warning";
+
+/** Logger name sent with each notifications/message */
+const LOGGER_NAME = "obsidian-mcp-tools";
+
+const CLIENT_LEVELS: Record<LogLevel, LoggingLevel> = {
+  DEBUG: "debug",
+  INFO: "info",
+  WARN: "warning",
+  ERROR: "error",
+  FATAL: "critical",
+};
+
+const SEVERITY = new Map(
+  LoggingLevelSchema.options.map((level, index) => [level, index]),
+);
+
+/**
+ * Forwards server log entries to MCP clients as `notifications/message`.
+ *
+ * Each session gets entries at or above the level it set with
+ * `logging/setLevel` (default: warning). Pass `forward` to `logger.addSink`.
+ *
+ * Entries logged while handling a session's request (see `runInSession`)
+ * only go to that session, since they can hold its tool arguments and note
+ * content. Other entries go to every session with their message only.
+ */
+export class ClientLogging {
+  private levels = new Map<Server, LoggingLevel>();
+  private session = new AsyncLocalStorage<Server>();
+  private forwarding = false;
+  private defaultLevel: LoggingLevel;
+
+  constructor(options: { defaultLevel?: LoggingLevel } = {}) {
+    this.defaultLevel = options.defaultLevel ?? DEFAULT_CLIENT_LOG_LEVEL;
+  }
+
+  /**
+   * Handle logging/setLevel for a session and start forwarding to it
+   */
+  attach(server: Server) {
+    this.levels.set(server, this.defaultLevel);
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.levels.set(server, request.params.level);
+      return {};
+    });
+  }
+
+  detach(server: Server) {
+    this.levels.delete(server);
+  }
+
+  /**
+   * Handle a session's request, sending what it logs to that session only
+   */
+  runInSession<T>(server: Server, run: () => T): T {
+    return this.session.run(server, run);
+  }
+
+  forward = (entry: LogEntry) => {
+    // Failures while sending are not logged, but guard against loops anyway
+    if (this.forwarding) return;
+    this.forwarding = true;
+    try {
+      const level = CLIENT_LEVELS[entry.level];
+      const severity = SEVERITY.get(level)!;
+      const origin = this.session.getStore();
+      let data: unknown;
+      for (const [server, minimum] of this.levels) {
+        if (origin && server !== origin) continue;
+        if (severity < SEVERITY.get(minimum)!) continue;
+        // Metadata stays nested: it often has its own `message` (errors)
+        data ??= sanitizeLogData(
+          origin && Object.keys(entry.meta).length > 0
+            ? { message: entry.message, meta: entry.meta }
+            : { message: entry.message },
+        );
+        server
+          .sendLoggingMessage({ level, logger: LOGGER_NAME, data })
+          .catch(() => {
+            // The session may have disconnected; nothing useful to do
+          });
+      }
+    } finally {
+      this.forwarding = false;
+    }
+  };
+}
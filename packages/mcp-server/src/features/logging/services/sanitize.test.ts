@@ -0,0 +1,38 @@
+import { describe, expect, it } from "bun:test";
+import { sanitizeLogData } from "./sanitize";
+
+describe("sanitizeLogData", () => {
+  it("converts errors to name and message", () => {
+    expect(sanitizeLogData({ error: new TypeError("bad") })).toEqual({
+      error: { name: "TypeError", message: "bad" },
+    });
+  });
+
+  it("redacts secrets and the environment", () => {
+    expect(
+      sanitizeLogData({
+        apiKey: "abc",
+        headers: { Authorization: "Bearer abc" },
+        env: { HOME: "/home/me" },
+        path: "notes/a.md",
+      }),
+    ).toEqual({
+      apiKey: "[redacted]",
+      headers: { Authorization: "[redacted]" },
+      env: "[redacted]",
+      path: "notes/a.md",
+    });
+  });
+
+  it("truncates long strings", () => {
+    const result = sanitizeLogData("x".repeat(3_000)) as string;
+    expect(result.startsWith("x".repeat(2_000))).toBe(true);
+    expect(result.endsWith("(3000 chars)")).toBe(true);
+  });
+
+  it("summarizes deeply nested values", () => {
+    expect(sanitizeLogData({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({
+      a: { b: { c: { d: "[object]" } } },
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { SECRET_KEY } from "$/shared";
+
+/** Nesting depth below which values are summarized */
+const MAX_DEPTH = 4;
+
+/** Longest string sent as-is */
+const MAX_STRING_LENGTH = 2_000;
+
+/**
+ * Converts log metadata into JSON-safe data for a client log message.
+ *
+ * - Errors become `{ name, message }`
+ * - Values under secret-looking keys (and `env`) are redacted
+ * - Long strings are truncated and deep objects summarized
+ */
+export function sanitizeLogData(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message };
+  }
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+      : value;
+  }
+  if (typeof value === "bigint") return value.toString();
+  if (typeof value === "function" || typeof value === "symbol") {
+    return undefined;
+  }
+  if (value === null || typeof value !== "object") return value;
+
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? `[${value.length} items]` : "[object]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => sanitizeLogData(item, depth + 1));
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SECRET_KEY.test(key) ? "[redacted]" : sanitizeLogData(item, depth + 1),
+    ]),
+  );
+}
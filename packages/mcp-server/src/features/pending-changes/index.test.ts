@@ -0,0 +1,61 @@
+/**
+ * Tests for the status of proposed changes
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { LocalRestAPI } from "shared";
+import { summarizePendingChanges } from "./services";
+
+function change(
+  id: string,
+  status: LocalRestAPI.ApiPendingChangeType["status"],
+): LocalRestAPI.ApiPendingChangeType {
+  return {
+    id,
+    status,
+    method: "PUT",
+    path: `/vault/${id}.md`,
+    headers: { "content-type": "text/markdown" },
+    body: "content",
+    summary: `Overwrite ${id}.md`,
+    diff: "--- a\n+++ b\n",
+    createdAt: "2024-05-01T10:00:00.000Z",
+  };
+}
+
+const changes = [
+  change("a", "approved"),
+  change("b", "pending"),
+  change("c", "pending"),
+  change("d", "failed"),
+];
+
+describe("summarizePendingChanges", () => {
+  test("counts changes by status and lists them newest first", () => {
+    const { counts, changes: listed } = summarizePendingChanges(changes);
+    expect(counts).toEqual({ pending: 2, approved: 1, rejected: 0, failed: 1 });
+    expect(listed.map((change) => change.id)).toEqual(["d", "c", "b", "a"]);
+    expect(listed[0]).not.toHaveProperty("body");
+    expect(listed[0]).not.toHaveProperty("diff");
+  });
+
+  test("filters by status", () => {
+    const { changes: listed } = summarizePendingChanges(changes, {
+      status: "pending",
+    });
+    expect(listed.map((change) => change.id)).toEqual(["c", "b"]);
+  });
+
+  test("includes the diff when asking about one change", () => {
+    const { changes: listed } = summarizePendingChanges(changes, { id: "b" });
+    expect(listed).toEqual([
+      {
+        id: "b",
+        status: "pending",
+        summary: "Overwrite b.md",
+        diff: "--- a\n+++ b\n",
+        createdAt: "2024-05-01T10:00:00.000Z",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,35 @@
+import { SCOPES, type ToolRegistry } from "$/shared";
+import { type } from "arktype";
+import { getPendingChangesStatus } from "./services";
+
+export * from "./services";
+
+/**
+ * Register the `pending_changes` tool, which reports on the changes waiting
+ * for approval in Obsidian (OBSIDIAN_MCP_REQUIRE_APPROVAL=true)
+ */
+export function registerPendingChangesTool(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"pending_changes"',
+      arguments: {
+        "status?": type(
+          '"pending" | "approved" | "rejected" | "failed"',
+        ).describe("Only changes with this review status"),
+        "id?": type("string").describe("Only this change, including its diff"),
+      },
+    }).describe(
+      "Check on changes proposed for approval. While approval is required, writes, edits and deletes are proposed in Obsidian instead of being applied, and the user approves or rejects each one. Lists changes newest first with their status.",
+    ),
+    async ({ arguments: args }, { signal }) => {
+      const result = await getPendingChangesStatus(args, signal);
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.VAULT_READ,
+      annotations: { readOnlyHint: true },
+    },
+  );
+}
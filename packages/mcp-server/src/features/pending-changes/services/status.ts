@@ -0,0 +1,64 @@
+import { isApprovalRequired, listPendingChanges } from "$/shared";
+import type { LocalRestAPI } from "shared";
+
+type PendingChange = LocalRestAPI.ApiPendingChangeType;
+
+export interface PendingChangesFilter {
+  /** Only changes with this review status */
+  status?: PendingChange["status"];
+  /** Only the change with this ID */
+  id?: string;
+}
+
+/** A proposed change without its request, which can be long */
+export type PendingChangeStatus = Omit<
+  PendingChange,
+  "method" | "path" | "headers" | "body"
+>;
+
+export interface PendingChangesStatus {
+  /** Whether the server proposes changes instead of applying them */
+  approvalRequired: boolean;
+  /** Number of changes with each review status */
+  counts: Record<PendingChange["status"], number>;
+  /** Matching changes, newest first */
+  changes: PendingChangeStatus[];
+}
+
+/**
+ * Summarize the queue of proposed changes. Diffs are only included when
+ * asking about one change.
+ */
+export function summarizePendingChanges(
+  changes: PendingChange[],
+  { status, id }: PendingChangesFilter = {},
+): PendingChangesStatus {
+  const counts = { pending: 0, approved: 0, rejected: 0, failed: 0 };
+  for (const change of changes) counts[change.status]++;
+
+  const matching = changes
+    .filter(
+      (change) =>
+        (!status || change.status === status) && (!id || change.id === id),
+    )
+    .reverse()
+    .map(({ method, path, headers, body, diff, ...change }) =>
+      id ? { ...change, diff } : change,
+    );
+  return {
+    approvalRequired: isApprovalRequired(),
+    counts,
+    changes: matching,
+  };
+}
+
+/**
+ * Review status of the changes proposed in Obsidian
+ */
+export async function getPendingChangesStatus(
+  filter: PendingChangesFilter = {},
+  signal?: AbortSignal,
+): Promise<PendingChangesStatus> {
+  const changes = await listPendingChanges(signal);
+  return summarizePendingChanges(changes, filter);
+}
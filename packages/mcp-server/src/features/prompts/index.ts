@@ -19,7 +19,8 @@ import {
   type PromptMetadata,
 } from "shared";
 
-const PROMPT_DIRNAME = `Prompts`;
+/** Vault folder that holds prompt templates */
+export const PROMPT_DIRNAME = `Prompts`;
 
 export function setupObsidianPrompts(server: Server) {
   server.setRequestHandler(ListPromptsRequestSchema, async () => {
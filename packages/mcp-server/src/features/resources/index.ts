@@ -0,0 +1,279 @@
+import {
+  describePermissions,
+  encodeVaultPath,
+  filterReadableInSession,
+  formatMcpError,
+  getGrantedScopes,
+  logger,
+  makeRequest,
+  MCP_TAGS,
+  parseTemplateParameters,
+  requireScopeInSession,
+  SCOPES,
+  withVault,
+} from "$/shared";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type Resource,
+} from "@modelcontextprotocol/sdk/types.js";
+import { LocalRestAPI } from "shared";
+import { pluginRegistry } from "../dispatchers";
+import { listNoteResources, listResourceVaults } from "./list";
+import type { ResourceSubscriptions } from "./subscriptions";
+import {
+  ACTIVE_FILE_URI,
+  NOTE_URI_TEMPLATE,
+  parseResourceUri,
+  PLUGIN_URI_TEMPLATE,
+  TEMPLATE_URI_TEMPLATE,
+  VAULT_INFO_URI,
+  withVaultQuery,
+} from "./uri";
+
+export * from "./list";
+export * from "./subscriptions";
+export * from "./uri";
+
+/** Number of notes returned per resources/list page */
+const PAGE_SIZE = 200;
+
+const STATIC_RESOURCES: Resource[] = [
+  {
+    uri: ACTIVE_FILE_URI,
+    name: "active-file",
+    title: "Active file",
+    description: "The note currently open in Obsidian",
+    mimeType: "text/markdown",
+  },
+  {
+    uri: VAULT_INFO_URI,
+    name: "vault-info",
+    title: "Vault info",
+    description:
+      "Obsidian and Local REST API versions, authentication status and granted MCP permissions",
+    mimeType: "application/json",
+  },
+];
+
+/**
+ * The active file and vault info resources of every configured vault
+ */
+function listStaticResources(): Resource[] {
+  return listResourceVaults().flatMap((vault) =>
+    STATIC_RESOURCES.map((resource) =>
+      vault === undefined
+        ? resource
+        : {
+            ...resource,
+            uri: withVaultQuery(resource.uri, vault),
+            title: `${resource.title} (${vault})`,
+          },
+    ),
+  );
+}
+
+/**
+ * Register resource handlers on a session's server.
+ *
+ * @param server - The MCP server for the session
+ * @param subscriptions - Subscription tracker shared by all sessions
+ */
+export function setupObsidianResources(
+  server: Server,
+  subscriptions: ResourceSubscriptions,
+) {
+  subscriptions.attach(server);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async ({ params }) => {
+    try {
+      requireScopeInSession(SCOPES.VAULT_LIST);
+
+      const offset = params?.cursor ? Number(params.cursor) : 0;
+      if (!Number.isInteger(offset) || offset < 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid cursor: ${params?.cursor}`,
+        );
+      }
+
+      const notes = filterReadableInSession(
+        SCOPES.VAULT_LIST,
+        await listNoteResources(),
+        (note) => note.name,
+      );
+      const page = notes.slice(offset, offset + PAGE_SIZE);
+      const nextOffset = offset + PAGE_SIZE;
+
+      return {
+        resources: offset === 0 ? [...listStaticResources(), ...page] : page,
+        ...(nextOffset < notes.length ? { nextCursor: String(nextOffset) } : {}),
+      };
+    } catch (err) {
+      const error = formatMcpError(err);
+      logger.error("Error in ListResourcesRequestSchema handler", {
+        error,
+        message: error.message,
+      });
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: [
+      {
+        uriTemplate: NOTE_URI_TEMPLATE,
+        name: "vault-note",
+        title: "Vault note",
+        description:
+          "A note in the Obsidian vault, addressed by its vault-relative path (e.g. obsidian://vault/Inbox/Idea.md)",
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: TEMPLATE_URI_TEMPLATE,
+        name: "templater-template",
+        title: "Templater template",
+        description:
+          "A Templater template addressed by its vault path, with the parameters it prompts for (e.g. obsidian://templates/Templates/Daily.md)",
+        mimeType: "text/markdown",
+      },
+      {
+        uriTemplate: PLUGIN_URI_TEMPLATE,
+        name: "plugin",
+        title: "Plugin capabilities",
+        description:
+          "Operations, tier and status of a plugin available to the plugin tool (e.g. obsidian://plugins/dataview)",
+        mimeType: "application/json",
+      },
+    ],
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async ({ params }) => {
+    try {
+      const resource = parseResourceUri(params.uri);
+      if (!resource) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown resource: ${params.uri}`,
+        );
+      }
+
+      if (resource.kind === "vault-info") {
+        const status = await withVault(resource.vault, () =>
+          makeRequest(LocalRestAPI.ApiStatusResponse, "/"),
+        );
+        return {
+          contents: [
+            {
+              uri: params.uri,
+              mimeType: "application/json",
+              text: JSON.stringify(
+                {
+                  obsidian: status.versions.obsidian,
+                  localRestApi: status.versions.self,
+                  authenticated: status.authenticated,
+                  scopes: getGrantedScopes(),
+                  permissions: describePermissions(),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      if (resource.kind === "plugin") {
+        requireScopeInSession(SCOPES.PLUGINS_READ);
+        const capabilities = (await pluginRegistry.getCapabilities())[
+          resource.plugin
+        ];
+        if (!capabilities) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Resource not found: ${params.uri}`,
+          );
+        }
+        return {
+          contents: [
+            {
+              uri: params.uri,
+              mimeType: "application/json",
+              text: JSON.stringify(capabilities, null, 2),
+            },
+          ],
+        };
+      }
+
+      requireScopeInSession(SCOPES.VAULT_READ);
+
+      const note = await withVault(resource.vault, () =>
+        makeRequest(
+          LocalRestAPI.ApiNoteJson,
+          resource.kind === "active-file"
+            ? "/active/"
+            : `/vault/${encodeVaultPath(resource.path)}`,
+          { headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON } },
+        ),
+      );
+      requireScopeInSession(SCOPES.VAULT_READ, note.path);
+
+      if (note.tags.includes(MCP_TAGS.HIDDEN)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Resource not found: ${params.uri}`,
+        );
+      }
+
+      return {
+        contents: [
+          {
+            uri: params.uri,
+            mimeType: "text/markdown",
+            text: note.content,
+            _meta: {
+              path: note.path,
+              frontmatter: note.frontmatter,
+              tags: note.tags,
+              stat: note.stat,
+              ...(resource.kind === "template"
+                ? { parameters: parseTemplateParameters(note.content) }
+                : {}),
+            },
+          },
+        ],
+      };
+    } catch (err) {
+      const error = formatMcpError(err);
+      logger.error("Error in ReadResourceRequestSchema handler", {
+        error,
+        message: error.message,
+        uri: params.uri,
+      });
+      throw error;
+    }
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+    const resource = parseResourceUri(params.uri);
+    requireScopeInSession(
+      SCOPES.VAULT_READ,
+      resource && "path" in resource ? resource.path : undefined,
+    );
+    await subscriptions.subscribe(server, params.uri);
+    logger.debug("Subscribed to resource", { uri: params.uri });
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+    subscriptions.unsubscribe(server, params.uri);
+    logger.debug("Unsubscribed from resource", { uri: params.uri });
+    return {};
+  });
+}
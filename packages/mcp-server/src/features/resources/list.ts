@@ -0,0 +1,37 @@
+import { getVaultConnections, listVaultFiles, withVault } from "$/shared";
+import type { Resource } from "@modelcontextprotocol/sdk/types.js";
+import { buildNoteUri } from "./uri";
+
+/**
+ * Names of the vault connections resources are listed for: undefined for
+ * the default connection, whose URIs have no `vault` query, then the
+ * names of the others
+ */
+export function listResourceVaults(): Array<string | undefined> {
+  const [, ...others] = getVaultConnections();
+  return [undefined, ...others.map((vault) => vault.name)];
+}
+
+/**
+ * Lists the notes in every configured vault as MCP resources
+ */
+export async function listNoteResources(): Promise<Resource[]> {
+  const lists = await Promise.all(
+    listResourceVaults().map(async (vault) => {
+      const files = await withVault(vault, () => listVaultFiles());
+      return files
+        .filter((file) => file.endsWith(".md"))
+        .sort()
+        .map((file) => ({
+          uri: buildNoteUri(file, vault),
+          name: file,
+          title: file.split("/").pop()!.replace(/\.md$/, ""),
+          ...(vault === undefined
+            ? {}
+            : { description: `Note in the "${vault}" vault` }),
+          mimeType: "text/markdown",
+        }));
+    }),
+  );
+  return lists.flat();
+}
@@ -0,0 +1,119 @@
+import { describe, expect, mock, test } from "bun:test";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ResourceSubscriptions } from "./subscriptions";
+
+const NOTE = "obsidian://vault/Inbox/Idea.md";
+
+function createStubServer() {
+  return {
+    sendResourceUpdated: mock(() => Promise.resolve()),
+    sendResourceListChanged: mock(() => Promise.resolve()),
+  };
+}
+
+function createSubscriptions(versions: Map<string, string | null>, uris: string[] = []) {
+  return new ResourceSubscriptions({
+    intervalMs: 60_000,
+    readVersion: async (uri) => versions.get(uri) ?? null,
+    listUris: async () => uris,
+  });
+}
+
+describe("ResourceSubscriptions", () => {
+  test("notifies subscribers when a resource version changes", async () => {
+    const versions = new Map([[NOTE, "Inbox/Idea.md:1:10"]]);
+    const subscriptions = createSubscriptions(versions);
+    const server = createStubServer();
+
+    await subscriptions.subscribe(server as unknown as Server, NOTE);
+    await subscriptions.poll();
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+
+    versions.set(NOTE, "Inbox/Idea.md:2:12");
+    await subscriptions.poll();
+    expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri: NOTE });
+    expect(server.sendResourceListChanged).not.toHaveBeenCalled();
+
+    subscriptions.stop();
+  });
+
+  test("only notifies sessions subscribed to the changed resource", async () => {
+    const other = "obsidian://vault/Other.md";
+    const versions = new Map([
+      [NOTE, "a"],
+      [other, "b"],
+    ]);
+    const subscriptions = createSubscriptions(versions);
+    const first = createStubServer();
+    const second = createStubServer();
+
+    await subscriptions.subscribe(first as unknown as Server, NOTE);
+    await subscriptions.subscribe(second as unknown as Server, other);
+
+    versions.set(NOTE, "a2");
+    await subscriptions.poll();
+    expect(first.sendResourceUpdated).toHaveBeenCalledTimes(1);
+    expect(second.sendResourceUpdated).not.toHaveBeenCalled();
+
+    subscriptions.stop();
+  });
+
+  test("sends list_changed when a subscribed note is deleted", async () => {
+    const versions = new Map<string, string | null>([[NOTE, "a"]]);
+    const subscriptions = createSubscriptions(versions);
+    const subscriber = createStubServer();
+    const bystander = createStubServer();
+    subscriptions.attach(bystander as unknown as Server);
+
+    await subscriptions.subscribe(subscriber as unknown as Server, NOTE);
+    versions.set(NOTE, null);
+    await subscriptions.poll();
+
+    expect(subscriber.sendResourceUpdated).toHaveBeenCalledWith({ uri: NOTE });
+    expect(subscriber.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(bystander.sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    subscriptions.stop();
+  });
+
+  test("sends list_changed when the vault listing changes", async () => {
+    const uris = [NOTE];
+    const subscriptions = createSubscriptions(new Map([[NOTE, "a"]]), uris);
+    const server = createStubServer();
+    await subscriptions.subscribe(server as unknown as Server, NOTE);
+
+    // First poll records the baseline listing
+    await subscriptions.poll();
+    expect(server.sendResourceListChanged).not.toHaveBeenCalled();
+
+    uris.push("obsidian://vault/New.md");
+    for (let i = 0; i < 6; i++) await subscriptions.poll();
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+
+    subscriptions.stop();
+  });
+
+  test("stops tracking a resource after the last unsubscribe", async () => {
+    const subscriptions = createSubscriptions(new Map([[NOTE, "a"]]));
+    const first = createStubServer() as unknown as Server;
+    const second = createStubServer() as unknown as Server;
+
+    await subscriptions.subscribe(first, NOTE);
+    await subscriptions.subscribe(second, NOTE);
+    subscriptions.unsubscribe(first, NOTE);
+    expect(subscriptions.subscribedUris()).toEqual([NOTE]);
+
+    subscriptions.detach(second);
+    expect(subscriptions.subscribedUris()).toEqual([]);
+  });
+
+  test("rejects unknown resource URIs", async () => {
+    const subscriptions = createSubscriptions(new Map());
+    await expect(
+      subscriptions.subscribe(
+        createStubServer() as unknown as Server,
+        "https://example.com",
+      ),
+    ).rejects.toThrow(/Unknown resource/);
+  });
+});
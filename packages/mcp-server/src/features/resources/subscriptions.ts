@@ -0,0 +1,234 @@
+import { encodeVaultPath, logger, makeRequest, withVault } from "$/shared";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { LocalRestAPI } from "shared";
+import { pluginRegistry } from "../dispatchers";
+import { listNoteResources } from "./list";
+import { parseResourceUri } from "./uri";
+
+/** How often subscribed resources are checked for changes */
+export const DEFAULT_POLL_INTERVAL_MS = 5_000;
+/** The vault listing is compared every Nth poll (it is far more expensive) */
+const LIST_CHECK_EVERY = 6;
+
+/**
+ * A fingerprint of a resource's current state, or null if it does not exist
+ */
+type ResourceVersion = string | null;
+
+export interface ResourceSubscriptionOptions {
+  /** Poll interval in milliseconds (default: 5000) */
+  intervalMs?: number;
+  /** Resolve the current version of a resource */
+  readVersion?: (uri: string) => Promise<ResourceVersion>;
+  /** Resolve the current list of note resource URIs */
+  listUris?: () => Promise<string[]>;
+}
+
+/**
+ * Reads the version of a resource from the Local REST API.
+ * Notes and templates are fingerprinted by path, mtime and size from
+ * `ApiNoteJson.stat`; plugins by their serialized capabilities.
+ */
+export async function readResourceVersion(
+  uri: string,
+): Promise<ResourceVersion> {
+  const resource = parseResourceUri(uri);
+  if (!resource) return null;
+
+  try {
+    if (resource.kind === "vault-info") {
+      const status = await withVault(resource.vault, () =>
+        makeRequest(LocalRestAPI.ApiStatusResponse, "/"),
+      );
+      return JSON.stringify([status.versions, status.authenticated]);
+    }
+
+    if (resource.kind === "plugin") {
+      const capabilities = (await pluginRegistry.getCapabilities())[
+        resource.plugin
+      ];
+      return capabilities ? JSON.stringify(capabilities) : null;
+    }
+
+    const note = await withVault(resource.vault, () =>
+      makeRequest(
+        LocalRestAPI.ApiNoteJson,
+        resource.kind === "active-file"
+          ? "/active/"
+          : `/vault/${encodeVaultPath(resource.path)}`,
+        { headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON } },
+      ),
+    );
+    return `${note.path}:${note.stat.mtime}:${note.stat.size}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Tracks `resources/subscribe` requests across sessions and notifies
+ * subscribers when a resource changes.
+ *
+ * Changes are detected by polling, which only runs while at least one
+ * resource is subscribed:
+ * - `notifications/resources/updated` when a subscribed resource's version changes
+ * - `notifications/resources/list_changed` when a subscribed note is created or
+ *   deleted, or when the set of notes in the vault changes
+ */
+export class ResourceSubscriptions {
+  private servers = new Set<Server>();
+  private subscribers = new Map<string, Set<Server>>();
+  private versions = new Map<string, ResourceVersion>();
+  private listFingerprint?: string;
+  private timer?: ReturnType<typeof setInterval>;
+  private polls = 0;
+  private polling = false;
+
+  private intervalMs: number;
+  private readVersion: (uri: string) => Promise<ResourceVersion>;
+  private listUris: () => Promise<string[]>;
+
+  constructor(options: ResourceSubscriptionOptions = {}) {
+    this.intervalMs = options.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.readVersion = options.readVersion ?? readResourceVersion;
+    this.listUris =
+      options.listUris ??
+      (async () => (await listNoteResources()).map(({ uri }) => uri));
+  }
+
+  /**
+   * Register a session so it receives list_changed notifications
+   */
+  attach(server: Server) {
+    this.servers.add(server);
+  }
+
+  /**
+   * Forget a session and all of its subscriptions
+   */
+  detach(server: Server) {
+    this.servers.delete(server);
+    for (const uri of Array.from(this.subscribers.keys())) {
+      this.unsubscribe(server, uri);
+    }
+  }
+
+  async subscribe(server: Server, uri: string) {
+    if (!parseResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    this.attach(server);
+    const subscribers = this.subscribers.get(uri) ?? new Set<Server>();
+    subscribers.add(server);
+    this.subscribers.set(uri, subscribers);
+
+    if (!this.versions.has(uri)) {
+      this.versions.set(uri, await this.readVersion(uri));
+    }
+    this.start();
+  }
+
+  unsubscribe(server: Server, uri: string) {
+    const subscribers = this.subscribers.get(uri);
+    if (!subscribers) return;
+
+    subscribers.delete(server);
+    if (subscribers.size === 0) {
+      this.subscribers.delete(uri);
+      this.versions.delete(uri);
+    }
+    if (this.subscribers.size === 0) this.stop();
+  }
+
+  /**
+   * URIs with at least one subscriber
+   */
+  subscribedUris(): string[] {
+    return Array.from(this.subscribers.keys());
+  }
+
+  /**
+   * Check every subscribed resource once and send notifications for changes
+   */
+  async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      let listChanged = false;
+
+      for (const [uri, subscribers] of Array.from(this.subscribers)) {
+        const previous = this.versions.get(uri) ?? null;
+        const current = await this.readVersion(uri);
+        if (current === previous) continue;
+
+        this.versions.set(uri, current);
+        if ((previous === null) !== (current === null)) listChanged = true;
+
+        logger.debug("Subscribed resource changed", { uri, previous, current });
+        await Promise.all(
+          Array.from(subscribers).map((server) =>
+            server.sendResourceUpdated({ uri }).catch((error) => {
+              logger.warn("Failed to send resource update", { uri, error });
+            }),
+          ),
+        );
+      }
+
+      if (this.polls++ % LIST_CHECK_EVERY === 0) {
+        listChanged = (await this.checkListChanged()) || listChanged;
+      }
+
+      if (listChanged) {
+        await Promise.all(
+          Array.from(this.servers).map((server) =>
+            server.sendResourceListChanged().catch((error) => {
+              logger.warn("Failed to send resource list change", { error });
+            }),
+          ),
+        );
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+    this.polls = 0;
+    this.listFingerprint = undefined;
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => {
+        logger.error("Resource polling failed", { error });
+      });
+    }, this.intervalMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref?.();
+  }
+
+  /**
+   * Compare the current note listing with the last one seen.
+   * The first check only records a baseline.
+   */
+  private async checkListChanged(): Promise<boolean> {
+    let uris: string[];
+    try {
+      uris = await this.listUris();
+    } catch (error) {
+      logger.debug("Failed to list resources for change detection", { error });
+      return false;
+    }
+
+    const fingerprint = uris.slice().sort().join("\n");
+    const changed =
+      this.listFingerprint !== undefined && this.listFingerprint !== fingerprint;
+    this.listFingerprint = fingerprint;
+    return changed;
+  }
+}
@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import {
+  ACTIVE_FILE_URI,
+  buildNoteUri,
+  buildPluginUri,
+  buildTemplateUri,
+  parseResourceUri,
+  VAULT_INFO_URI,
+} from "./uri";
+
+describe("buildNoteUri", () => {
+  test("builds a URI for a root note", () => {
+    expect(buildNoteUri("Welcome.md")).toBe("obsidian://vault/Welcome.md");
+  });
+
+  test("keeps path separators and encodes segments", () => {
+    expect(buildNoteUri("Inbox/My Idea #1.md")).toBe(
+      "obsidian://vault/Inbox/My%20Idea%20%231.md",
+    );
+  });
+
+  test("names a vault other than the default in a query", () => {
+    expect(buildNoteUri("What?.md", "work & home")).toBe(
+      "obsidian://vault/What%3F.md?vault=work%20%26%20home",
+    );
+  });
+});
+
+describe("parseResourceUri", () => {
+  test("parses special resources", () => {
+    expect(parseResourceUri(ACTIVE_FILE_URI)).toEqual({ kind: "active-file" });
+    expect(parseResourceUri(VAULT_INFO_URI)).toEqual({ kind: "vault-info" });
+  });
+
+  test("round-trips note URIs", () => {
+    const path = "Projects/Q3 Plan (draft).md";
+    expect(parseResourceUri(buildNoteUri(path))).toEqual({
+      kind: "note",
+      path,
+    });
+  });
+
+  test("accepts unencoded paths", () => {
+    expect(parseResourceUri("obsidian://vault/Inbox/Idea.md")).toEqual({
+      kind: "note",
+      path: "Inbox/Idea.md",
+    });
+  });
+
+  test("parses the vault a resource is read from", () => {
+    expect(parseResourceUri(buildNoteUri("What?.md", "work"))).toEqual({
+      kind: "note",
+      path: "What?.md",
+      vault: "work",
+    });
+    expect(parseResourceUri(`${ACTIVE_FILE_URI}?vault=work`)).toEqual({
+      kind: "active-file",
+      vault: "work",
+    });
+    expect(parseResourceUri(`${VAULT_INFO_URI}?other=1`)).toEqual({
+      kind: "vault-info",
+    });
+    expect(parseResourceUri("obsidian://plugins/dataview?vault=work")).toEqual({
+      kind: "plugin",
+      plugin: "dataview",
+    });
+  });
+
+  test("returns undefined for foreign URIs", () => {
+    expect(parseResourceUri("file:///etc/passwd")).toBeUndefined();
+    expect(parseResourceUri("obsidian://open?vault=x")).toBeUndefined();
+  });
+
+  test("rejects path traversal", () => {
+    expect(() => parseResourceUri("obsidian://vault/../secret.md")).toThrow(
+      /traversal/,
+    );
+    expect(() =>
+      parseResourceUri("obsidian://vault/Inbox%2F..%2F..%2Fsecret.md"),
+    ).toThrow(/traversal/);
+  });
+
+  test("round-trips template URIs", () => {
+    const path = "Templates/Daily Note.md";
+    expect(buildTemplateUri(path)).toBe(
+      "obsidian://templates/Templates/Daily%20Note.md",
+    );
+    expect(parseResourceUri(buildTemplateUri(path))).toEqual({
+      kind: "template",
+      path,
+    });
+  });
+
+  test("round-trips plugin URIs", () => {
+    expect(parseResourceUri(buildPluginUri("obsidian-tasks"))).toEqual({
+      kind: "plugin",
+      plugin: "obsidian-tasks",
+    });
+    expect(parseResourceUri("obsidian://plugins/")).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { encodeVaultPath, validateVaultPath } from "$/shared";
+
+/** URI template for individual vault notes */
+export const NOTE_URI_TEMPLATE = "obsidian://vault/{path}{?vault}";
+/** URI template for Templater templates (by vault path) */
+export const TEMPLATE_URI_TEMPLATE = "obsidian://templates/{name}{?vault}";
+/** URI template for plugin capabilities (by plugin id) */
+export const PLUGIN_URI_TEMPLATE = "obsidian://plugins/{plugin}";
+/** The note currently open in Obsidian */
+export const ACTIVE_FILE_URI = "obsidian://active-file";
+/** Local REST API status and granted permissions */
+export const VAULT_INFO_URI = "obsidian://vault-info";
+
+const NOTE_URI_PREFIX = "obsidian://vault/";
+const TEMPLATE_URI_PREFIX = "obsidian://templates/";
+const PLUGIN_URI_PREFIX = "obsidian://plugins/";
+
+/**
+ * A resource this server serves. Resources read from a vault name the
+ * vault connection in a `vault` query; without one they are read from the
+ * default connection.
+ */
+export type ParsedResourceUri =
+  | { kind: "note"; path: string; vault?: string }
+  | { kind: "template"; path: string; vault?: string }
+  | { kind: "plugin"; plugin: string }
+  | { kind: "active-file"; vault?: string }
+  | { kind: "vault-info"; vault?: string };
+
+/**
+ * Add the `vault` query naming a vault connection to a resource URI
+ */
+export function withVaultQuery(uri: string, vault?: string): string {
+  return vault === undefined
+    ? uri
+    : `${uri}?vault=${encodeURIComponent(vault)}`;
+}
+
+/**
+ * Build the resource URI for a vault note.
+ * Path segments are percent-encoded; separators are kept.
+ */
+export function buildNoteUri(path: string, vault?: string): string {
+  return withVaultQuery(`${NOTE_URI_PREFIX}${encodeVaultPath(path)}`, vault);
+}
+
+/**
+ * Build the resource URI for a Templater template
+ */
+export function buildTemplateUri(path: string, vault?: string): string {
+  return withVaultQuery(
+    `${TEMPLATE_URI_PREFIX}${encodeVaultPath(path)}`,
+    vault,
+  );
+}
+
+/**
+ * Build the resource URI for a plugin
+ */
+export function buildPluginUri(plugin: string): string {
+  return `${PLUGIN_URI_PREFIX}${encodeURIComponent(plugin)}`;
+}
+
+/**
+ * Parse an `obsidian://` resource URI.
+ * Returns undefined for URIs this server does not serve.
+ * Throws McpError if a note or template path fails validation.
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | undefined {
+  const queryStart = uri.indexOf("?");
+  if (queryStart === -1) return parseResourcePath(uri);
+
+  const resource = parseResourcePath(uri.slice(0, queryStart));
+  const vault =
+    new URLSearchParams(uri.slice(queryStart + 1)).get("vault") ?? undefined;
+  if (!resource || resource.kind === "plugin" || vault === undefined) {
+    return resource;
+  }
+  return { ...resource, vault };
+}
+
+/**
+ * Parse a resource URI without its query
+ */
+function parseResourcePath(uri: string): ParsedResourceUri | undefined {
+  if (uri === ACTIVE_FILE_URI) return { kind: "active-file" };
+  if (uri === VAULT_INFO_URI) return { kind: "vault-info" };
+
+  if (uri.startsWith(NOTE_URI_PREFIX)) {
+    const path = decode(uri.slice(NOTE_URI_PREFIX.length));
+    return path === undefined
+      ? undefined
+      : { kind: "note", path: validateVaultPath(path) };
+  }
+
+  if (uri.startsWith(TEMPLATE_URI_PREFIX)) {
+    const path = decode(uri.slice(TEMPLATE_URI_PREFIX.length));
+    return path === undefined
+      ? undefined
+      : { kind: "template", path: validateVaultPath(path) };
+  }
+
+  if (uri.startsWith(PLUGIN_URI_PREFIX)) {
+    const plugin = decode(uri.slice(PLUGIN_URI_PREFIX.length));
+    return plugin ? { kind: "plugin", plugin } : undefined;
+  }
+
+  return undefined;
+}
+
+function decode(value: string): string | undefined {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return undefined;
+  }
+}
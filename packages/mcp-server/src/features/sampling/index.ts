@@ -0,0 +1,91 @@
+import { SCOPES, type ToolRegistry } from "$/shared";
+import { type } from "arktype";
+import { localRestApiVault, suggestTags, summarizeNotes } from "./services";
+
+export * from "./services";
+
+/**
+ * Tools that run workflows on the client's model via MCP sampling.
+ * They need a client that supports `sampling/createMessage`.
+ */
+export function registerSamplingTools(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"summarize_notes"',
+      arguments: {
+        "folder?": type("string").describe(
+          "Summarize the notes in this folder and its subfolders",
+        ),
+        "query?": type("string").describe(
+          "Summarize the notes matching this search instead",
+        ),
+        "outputPath?": type("string").describe(
+          "Where to write the summary (default: <folder>/Summary.md or Summaries/<query>.md)",
+        ),
+        "limit?": type("number>0").describe(
+          "Maximum notes to summarize (default: 20)",
+        ),
+        "maxTokens?": type("number>0").describe(
+          "Maximum length of the summary in tokens (default: 1024)",
+        ),
+        "dryRun?": type("boolean").describe(
+          "If true (default), return the summary without writing it",
+        ),
+        "overwrite?": type("boolean").describe(
+          "Replace an existing note at outputPath",
+        ),
+      },
+    }).describe(
+      "Summarize a folder or search result using the client's model (MCP sampling) and write the summary to a note. Defaults to dry-run mode.",
+    ),
+    async ({ arguments: args }, { server, signal, reportProgress, audit }) => {
+      const result = await summarizeNotes(args, {
+        server,
+        vault: localRestApiVault,
+        signal,
+        reportProgress,
+        audit,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.VAULT_READ,
+      // With overwrite: true it replaces an existing note
+      annotations: { readOnlyHint: false, destructiveHint: true },
+    },
+  );
+
+  tools.register(
+    type({
+      name: '"suggest_tags"',
+      arguments: {
+        path: type("string").describe("Path of the note to tag"),
+        "maxTags?": type("number>0").describe(
+          "Maximum tags to suggest (default: 5)",
+        ),
+        "dryRun?": type("boolean").describe(
+          "If true (default), only list the suggestions",
+        ),
+      },
+    }).describe(
+      "Suggest frontmatter tags for a note using the client's model (MCP sampling) and optionally add them. Defaults to dry-run mode.",
+    ),
+    async ({ arguments: args }, { server, signal, audit }) => {
+      const result = await suggestTags(args, {
+        server,
+        vault: localRestApiVault,
+        signal,
+        audit,
+      });
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.VAULT_READ,
+      annotations: { readOnlyHint: false, destructiveHint: false },
+    },
+  );
+}
@@ -0,0 +1,5 @@
+export * from "./sample";
+export * from "./suggestTags";
+export * from "./summarize";
+export * from "./vault";
+export * from "./workflow";
@@ -0,0 +1,51 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+export interface SampleOptions {
+  systemPrompt: string;
+  prompt: string;
+  maxTokens: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Ask the client's model for a text completion (MCP sampling)
+ *
+ * @throws McpError if the client doesn't support sampling or answers with
+ * something other than text
+ */
+export async function sampleText(
+  server: Server,
+  { systemPrompt, prompt, maxTokens, signal }: SampleOptions,
+): Promise<string> {
+  if (!server.getClientCapabilities()?.sampling) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "This tool needs a client that supports MCP sampling (sampling/createMessage)",
+    );
+  }
+
+  const result = await server.createMessage(
+    {
+      systemPrompt,
+      messages: [{ role: "user", content: { type: "text", text: prompt } }],
+      maxTokens,
+      includeContext: "none",
+    },
+    { signal },
+  );
+
+  const blocks = Array.isArray(result.content)
+    ? result.content
+    : [result.content];
+  const text = blocks.flatMap((block) =>
+    block.type === "text" ? [block.text] : [],
+  );
+  if (text.length === 0) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Expected a text response from the client's model, got ${blocks.map((block) => block.type).join(", ")}`,
+    );
+  }
+  return text.join("\n");
+}
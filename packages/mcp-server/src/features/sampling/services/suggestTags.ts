@@ -0,0 +1,156 @@
+import {
+  MCP_TAGS,
+  requireScopeInSession,
+  SCOPES,
+  validateVaultPath,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { sampleText } from "./sample";
+import type { WorkflowContext } from "./workflow";
+
+/** Tags suggested when no maximum is given */
+export const DEFAULT_MAX_TAGS = 5;
+
+/** Characters of the note sent to the model */
+const MAX_NOTE_CHARS = 12_000;
+
+const SYSTEM_PROMPT =
+  'You suggest tags for notes in an Obsidian vault. Reply with only a JSON array of short, lowercase tags, e.g. ["project/alpha", "meeting-notes"]. Use "-" instead of spaces and "/" for nesting.';
+
+export interface SuggestTagsArgs {
+  path: string;
+  maxTags?: number;
+  /** Only return the suggestions (default: true) */
+  dryRun?: boolean;
+}
+
+export interface SuggestTagsResult {
+  mode: "dry-run" | "write";
+  path: string;
+  existingTags: string[];
+  suggestedTags: string[];
+  message: string;
+}
+
+/**
+ * Normalize a tag to Obsidian's syntax, or return undefined if it can't be one
+ */
+function normalizeTag(raw: string): string | undefined {
+  const tag = raw
+    .trim()
+    .replace(/^[-*]\s+/, "")
+    .replace(/^["'`#]+|["'`]+$/g, "")
+    .trim()
+    .replace(/\s+/g, "-")
+    .toLowerCase();
+  if (!/^[\p{L}\p{N}_\-/]+$/u.test(tag) || /^\d+$/.test(tag)) {
+    return undefined;
+  }
+  return tag;
+}
+
+/**
+ * Extract tags from the model's reply: a JSON array if there is one,
+ * otherwise a comma- or line-separated list
+ */
+export function parseTagSuggestions(reply: string): string[] {
+  let items: unknown[] | undefined;
+  const json = reply.match(/\[[\s\S]*\]/)?.[0];
+  if (json) {
+    try {
+      const parsed = JSON.parse(json);
+      if (Array.isArray(parsed)) items = parsed;
+    } catch {
+      // Not JSON after all; fall back to splitting
+    }
+  }
+  items ??= reply.split(/[,\n]/);
+
+  const tags = items
+    .filter((item): item is string => typeof item === "string")
+    .map(normalizeTag)
+    .filter((tag): tag is string => tag !== undefined);
+  return [...new Set(tags)];
+}
+
+/**
+ * Tags listed in a note's frontmatter (a list or a comma/space separated string)
+ */
+function frontmatterTags(frontmatter: Record<string, unknown>): string[] {
+  const tags = frontmatter.tags;
+  if (Array.isArray(tags)) return tags.map(String);
+  if (typeof tags === "string") return tags.split(/[,\s]+/).filter(Boolean);
+  return [];
+}
+
+/**
+ * Ask the client's model for tags for a note and optionally add them to
+ * the note's frontmatter
+ */
+export async function suggestTags(
+  args: SuggestTagsArgs,
+  { server, vault, signal, audit }: WorkflowContext,
+): Promise<SuggestTagsResult> {
+  const dryRun = args.dryRun ?? true;
+  const maxTags = args.maxTags ?? DEFAULT_MAX_TAGS;
+  const path = validateVaultPath(args.path);
+  requireScopeInSession(SCOPES.VAULT_READ, path);
+  if (!dryRun) requireScopeInSession(SCOPES.VAULT_WRITE, path);
+
+  const note = await vault.readNote(path, signal);
+  if (!note) {
+    throw new McpError(ErrorCode.InvalidParams, `Note not found: ${path}`);
+  }
+  if (!dryRun && note.tags.includes(MCP_TAGS.READONLY)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `File "${path}" is read-only (has ${MCP_TAGS.READONLY} tag)`,
+    );
+  }
+
+  const existingTags = note.tags.map((tag) => tag.replace(/^#/, ""));
+  const existing = new Set(existingTags.map((tag) => tag.toLowerCase()));
+  const reply = await sampleText(server, {
+    systemPrompt: SYSTEM_PROMPT,
+    prompt: [
+      `Suggest up to ${maxTags} tags for the note "${path}".`,
+      existingTags.length > 0
+        ? `It already has these tags, don't repeat them: ${existingTags.join(", ")}`
+        : "It has no tags yet.",
+      "",
+      note.content.slice(0, MAX_NOTE_CHARS),
+    ].join("\n"),
+    maxTokens: 200,
+    signal,
+  });
+  const suggestedTags = parseTagSuggestions(reply)
+    .filter((tag) => !existing.has(tag))
+    .slice(0, maxTags);
+
+  if (dryRun || suggestedTags.length === 0) {
+    return {
+      mode: "dry-run",
+      path,
+      existingTags,
+      suggestedTags,
+      message:
+        suggestedTags.length === 0
+          ? "The model suggested no new tags."
+          : `Set dryRun: false to add these tags to ${path}.`,
+    };
+  }
+
+  await audit?.track(path);
+  await vault.setTags(
+    path,
+    [...frontmatterTags(note.frontmatter), ...suggestedTags],
+    signal,
+  );
+  return {
+    mode: "write",
+    path,
+    existingTags,
+    suggestedTags,
+    message: `Added ${suggestedTags.length} tags to ${path}.`,
+  };
+}
@@ -0,0 +1,170 @@
+import {
+  currentSessionHasScope,
+  MCP_TAGS,
+  requireScopeInSession,
+  SCOPES,
+  validateOptionalPath,
+  validateVaultPath,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { sampleText } from "./sample";
+import type { WorkflowContext } from "./workflow";
+
+/** Notes summarized when no limit is given */
+export const DEFAULT_SUMMARY_NOTE_LIMIT = 20;
+
+/** Characters of each note sent to the model */
+const MAX_NOTE_CHARS = 8_000;
+
+const SYSTEM_PROMPT =
+  "You summarize notes from an Obsidian vault. Write concise Markdown: key points, decisions and open questions. Do not add a top-level heading.";
+
+export interface SummarizeNotesArgs {
+  /** Summarize the notes in this folder (and its subfolders) */
+  folder?: string;
+  /** Summarize the notes matching this search */
+  query?: string;
+  /** Where to write the summary note */
+  outputPath?: string;
+  limit?: number;
+  maxTokens?: number;
+  /** Only return the summary (default: true) */
+  dryRun?: boolean;
+  /** Replace an existing note at `outputPath` */
+  overwrite?: boolean;
+}
+
+export interface SummarizeNotesResult {
+  mode: "dry-run" | "write";
+  outputPath: string;
+  sources: string[];
+  truncated: boolean;
+  summary: string;
+  message: string;
+}
+
+/**
+ * Summary note path used when none is given
+ */
+export function defaultSummaryPath({ folder, query }: SummarizeNotesArgs) {
+  if (folder) return `${folder.replace(/\/+$/, "")}/Summary.md`;
+  const name = (query ?? "notes").replace(/[\\/:*?"<>|#^[\]]+/g, "-").trim();
+  return `Summaries/${name}.md`;
+}
+
+/**
+ * Build the summary note: the model's summary plus links to its sources
+ */
+export function formatSummaryNote(
+  title: string,
+  summary: string,
+  sources: string[],
+): string {
+  const links = sources
+    .map((path) => `- [[${path.replace(/\.md$/, "")}]]`)
+    .join("\n");
+  return `# Summary: ${title}\n\n${summary.trim()}\n\n## Sources\n\n${links}\n`;
+}
+
+/**
+ * Summarize a folder or search result with the client's model and
+ * optionally write the summary to a note
+ */
+export async function summarizeNotes(
+  args: SummarizeNotesArgs,
+  { server, vault, signal, reportProgress, audit }: WorkflowContext,
+): Promise<SummarizeNotesResult> {
+  if (!args.folder && !args.query) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Provide a folder or a query to choose the notes to summarize",
+    );
+  }
+  const dryRun = args.dryRun ?? true;
+  const limit = args.limit ?? DEFAULT_SUMMARY_NOTE_LIMIT;
+  const outputPath = validateVaultPath(
+    args.outputPath ?? defaultSummaryPath(args),
+  );
+
+  // Check before spending tokens on a summary that can't be written
+  if (!dryRun) {
+    requireScopeInSession(SCOPES.VAULT_WRITE, outputPath);
+    const existing = await vault.readNote(outputPath, signal);
+    if (existing && !args.overwrite) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `"${outputPath}" already exists. Set overwrite: true to replace it.`,
+      );
+    }
+    if (existing?.tags.includes(MCP_TAGS.READONLY)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `File "${outputPath}" is read-only (has ${MCP_TAGS.READONLY} tag)`,
+      );
+    }
+  }
+
+  const candidates = (
+    args.folder
+      ? await vault.listNotes(validateOptionalPath(args.folder), signal)
+      : await vault.searchNotes(args.query!, signal)
+  ).filter(
+    (path) =>
+      path !== outputPath && currentSessionHasScope(SCOPES.VAULT_READ, path),
+  );
+  const paths = candidates.slice(0, limit);
+
+  const sources: string[] = [];
+  const sections: string[] = [];
+  for (const [index, path] of paths.entries()) {
+    signal?.throwIfAborted();
+    await reportProgress?.(index, paths.length, `Reading ${path}`);
+    const note = await vault.readNote(path, signal);
+    if (!note || note.tags.includes(MCP_TAGS.HIDDEN)) continue;
+    sources.push(path);
+    sections.push(`## ${path}\n\n${note.content.slice(0, MAX_NOTE_CHARS)}`);
+  }
+  await reportProgress?.(paths.length, paths.length, "Summarizing");
+
+  if (sources.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `No notes found for ${args.folder ? `folder "${args.folder}"` : `query "${args.query}"`}`,
+    );
+  }
+
+  const summary = await sampleText(server, {
+    systemPrompt: SYSTEM_PROMPT,
+    prompt: `Summarize these ${sources.length} notes:\n\n${sections.join("\n\n")}`,
+    maxTokens: args.maxTokens ?? 1024,
+    signal,
+  });
+  const truncated = candidates.length > limit;
+
+  if (dryRun) {
+    return {
+      mode: "dry-run",
+      outputPath,
+      sources,
+      truncated,
+      summary,
+      message: `Set dryRun: false to write the summary to ${outputPath}.`,
+    };
+  }
+
+  const title = args.folder ?? `"${args.query}"`;
+  await audit?.track(outputPath);
+  await vault.writeNote(
+    outputPath,
+    formatSummaryNote(title, summary, sources),
+    signal,
+  );
+  return {
+    mode: "write",
+    outputPath,
+    sources,
+    truncated,
+    summary,
+    message: `Wrote a summary of ${sources.length} notes to ${outputPath}.`,
+  };
+}
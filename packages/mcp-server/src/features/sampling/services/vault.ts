@@ -0,0 +1,99 @@
+import {
+  encodeVaultPath,
+  listVaultFiles,
+  makeRequest,
+  saveRevision,
+} from "$/shared";
+import { type } from "arktype";
+import { LocalRestAPI } from "shared";
+
+const noteSchema = type({
+  path: "string",
+  content: "string",
+  frontmatter: "Record<string, unknown>",
+  tags: "string[]",
+});
+
+export type Note = typeof noteSchema.infer;
+
+/**
+ * The vault operations the sampling workflows need.
+ * Tests pass an in-memory implementation.
+ */
+export interface VaultAccess {
+  /** Markdown files in a folder and its subfolders */
+  listNotes(folder: string, signal?: AbortSignal): Promise<string[]>;
+  /** Markdown files matching a simple search */
+  searchNotes(query: string, signal?: AbortSignal): Promise<string[]>;
+  /** Read a note, or return undefined if it doesn't exist */
+  readNote(path: string, signal?: AbortSignal): Promise<Note | undefined>;
+  /** Create or replace a note */
+  writeNote(path: string, content: string, signal?: AbortSignal): Promise<void>;
+  /** Replace the `tags` frontmatter field */
+  setTags(path: string, tags: string[], signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Vault access through the Local REST API
+ */
+export const localRestApiVault: VaultAccess = {
+  async listNotes(folder, signal) {
+    const files = await listVaultFiles(folder, signal);
+    return files.filter((file) => file.endsWith(".md"));
+  },
+
+  async searchNotes(query, signal) {
+    const results = await makeRequest(
+      LocalRestAPI.ApiSimpleSearchResponse,
+      `/search/simple/?query=${encodeURIComponent(query)}`,
+      { method: "POST", signal },
+    );
+    return [...new Set(results.map((result) => result.filename))].filter(
+      (file) => file.endsWith(".md"),
+    );
+  },
+
+  async readNote(path, signal) {
+    try {
+      return await makeRequest(noteSchema, `/vault/${encodeVaultPath(path)}`, {
+        headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON },
+        signal,
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      if (error instanceof Error && / 404: /.test(error.message)) {
+        return undefined;
+      }
+      throw error;
+    }
+  },
+
+  async writeNote(path, content, signal) {
+    await saveRevision(path, signal);
+    await makeRequest(
+      LocalRestAPI.ApiNoContentResponse,
+      `/vault/${encodeVaultPath(path)}`,
+      { method: "PUT", body: content, signal },
+    );
+  },
+
+  async setTags(path, tags, signal) {
+    await saveRevision(path, signal);
+    await makeRequest(
+      LocalRestAPI.ApiContentResponse.or("unknown"),
+      `/vault/${encodeVaultPath(path)}`,
+      {
+        method: "PATCH",
+        headers: {
+          Operation: "replace",
+          "Target-Type": "frontmatter",
+          Target: "tags",
+          "Create-Target-If-Missing": "true",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(tags),
+        signal,
+      },
+    );
+  },
+};
@@ -0,0 +1,200 @@
+/**
+ * Tests for the sampling workflows, using a stub client that answers
+ * sampling/createMessage and an in-memory vault
+ */
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CreateMessageRequestSchema,
+  type CreateMessageRequest,
+} from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, it } from "bun:test";
+import { parseTagSuggestions, suggestTags } from "./suggestTags";
+import { summarizeNotes } from "./summarize";
+import type { Note, VaultAccess } from "./vault";
+
+type SamplingParams = CreateMessageRequest["params"];
+
+/**
+ * Connect a server to a client that answers every sampling request with
+ * `reply`, or to a client without sampling support if `reply` is omitted
+ */
+async function connect(reply?: string) {
+  const requests: SamplingParams[] = [];
+  const server = new Server({ name: "test", version: "0.0.0" });
+  const client = new Client(
+    { name: "stub-client", version: "0.0.0" },
+    { capabilities: reply === undefined ? {} : { sampling: {} } },
+  );
+  if (reply !== undefined) {
+    client.setRequestHandler(CreateMessageRequestSchema, async (request) => {
+      requests.push(request.params);
+      return {
+        model: "stub-model",
+        role: "assistant",
+        content: { type: "text", text: reply },
+      };
+    });
+  }
+
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await Promise.all([
+    server.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return { server, requests };
+}
+
+function createVault(notes: Record<string, Partial<Note>>) {
+  const written: Record<string, string> = {};
+  const tagged: Record<string, string[]> = {};
+  const read = (path: string): Note | undefined =>
+    notes[path] && {
+      path,
+      content: "",
+      frontmatter: {},
+      tags: [],
+      ...notes[path],
+    };
+  const vault: VaultAccess = {
+    listNotes: async (folder) =>
+      Object.keys(notes).filter((path) => path.startsWith(`${folder}/`)),
+    searchNotes: async (query) =>
+      Object.keys(notes).filter((path) => notes[path].content?.includes(query)),
+    readNote: async (path) => read(path),
+    writeNote: async (path, content) => {
+      written[path] = content;
+    },
+    setTags: async (path, tags) => {
+      tagged[path] = tags;
+    },
+  };
+  return { vault, written, tagged };
+}
+
+describe("summarizeNotes", () => {
+  it("returns the summary without writing in dry-run mode", async () => {
+    const { server, requests } = await connect("Two meetings happened.");
+    const { vault, written } = createVault({
+      "Meetings/a.md": { content: "Kickoff" },
+      "Meetings/b.md": { content: "Retro" },
+      "Other/c.md": { content: "Unrelated" },
+    });
+
+    const result = await summarizeNotes(
+      { folder: "Meetings" },
+      { server, vault },
+    );
+
+    expect(result).toMatchObject({
+      mode: "dry-run",
+      outputPath: "Meetings/Summary.md",
+      sources: ["Meetings/a.md", "Meetings/b.md"],
+      summary: "Two meetings happened.",
+    });
+    expect(written).toEqual({});
+    expect(requests).toHaveLength(1);
+    expect(JSON.stringify(requests[0].messages)).toContain("Kickoff");
+  });
+
+  it("writes a summary note linking its sources", async () => {
+    const { server } = await connect("Summary text");
+    const { vault, written } = createVault({
+      "Inbox/idea.md": { content: "An idea about gardens" },
+    });
+
+    await summarizeNotes(
+      { query: "gardens", outputPath: "Summaries/gardens.md", dryRun: false },
+      { server, vault },
+    );
+
+    expect(written["Summaries/gardens.md"]).toBe(
+      '# Summary: "gardens"\n\nSummary text\n\n## Sources\n\n- [[Inbox/idea]]\n',
+    );
+  });
+
+  it("skips hidden notes and refuses to overwrite", async () => {
+    const { server } = await connect("Summary");
+    const { vault } = createVault({
+      "Notes/Summary.md": { content: "Old summary" },
+      "Notes/secret.md": { content: "Secret", tags: ["mcp-hidden"] },
+      "Notes/public.md": { content: "Public" },
+    });
+
+    const dryRun = await summarizeNotes({ folder: "Notes" }, { server, vault });
+    expect(dryRun.sources).toEqual(["Notes/public.md"]);
+
+    await expect(
+      summarizeNotes({ folder: "Notes", dryRun: false }, { server, vault }),
+    ).rejects.toThrow(/already exists/);
+  });
+
+  it("requires a client that supports sampling", async () => {
+    const { server } = await connect();
+    const { vault } = createVault({ "Notes/a.md": { content: "A" } });
+
+    await expect(
+      summarizeNotes({ folder: "Notes" }, { server, vault }),
+    ).rejects.toThrow(/supports MCP sampling/);
+  });
+});
+
+describe("suggestTags", () => {
+  it("suggests new tags without writing in dry-run mode", async () => {
+    const { server } = await connect('["Gardening", "#plants", "ideas"]');
+    const { vault, tagged } = createVault({
+      "idea.md": { content: "Tomatoes", tags: ["ideas"] },
+    });
+
+    const result = await suggestTags({ path: "idea.md" }, { server, vault });
+
+    expect(result.suggestedTags).toEqual(["gardening", "plants"]);
+    expect(result.mode).toBe("dry-run");
+    expect(tagged).toEqual({});
+  });
+
+  it("adds suggestions to the frontmatter tags", async () => {
+    const { server } = await connect('["gardening", "plants", "food"]');
+    const { vault, tagged } = createVault({
+      "idea.md": {
+        content: "Tomatoes",
+        frontmatter: { tags: ["ideas"] },
+        tags: ["ideas"],
+      },
+    });
+
+    await suggestTags(
+      { path: "idea.md", maxTags: 2, dryRun: false },
+      { server, vault },
+    );
+
+    expect(tagged["idea.md"]).toEqual(["ideas", "gardening", "plants"]);
+  });
+
+  it("refuses to tag read-only notes", async () => {
+    const { server } = await connect('["gardening"]');
+    const { vault } = createVault({
+      "idea.md": { content: "Tomatoes", tags: ["mcp-readonly"] },
+    });
+
+    await expect(
+      suggestTags({ path: "idea.md", dryRun: false }, { server, vault }),
+    ).rejects.toThrow(/read-only/);
+  });
+});
+
+describe("parseTagSuggestions", () => {
+  it("reads a JSON array inside other text", () => {
+    expect(parseTagSuggestions('Sure! ["a", "b/c"]')).toEqual(["a", "b/c"]);
+  });
+
+  it("falls back to a comma or line separated list", () => {
+    expect(parseTagSuggestions("- Project Alpha\n- #meeting, 2024")).toEqual([
+      "project-alpha",
+      "meeting",
+    ]);
+  });
+});
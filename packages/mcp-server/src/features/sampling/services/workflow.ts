@@ -0,0 +1,16 @@
+import type { AuditTrail, ProgressReporter } from "$/shared";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { VaultAccess } from "./vault";
+
+/**
+ * What a sampling workflow needs from the tool call
+ */
+export interface WorkflowContext {
+  /** Session whose client answers sampling requests */
+  server: Server;
+  vault: VaultAccess;
+  signal?: AbortSignal;
+  reportProgress?: ProgressReporter;
+  /** Records the notes the workflow changes in the audit log */
+  audit?: AuditTrail;
+}
@@ -1,4 +1,9 @@
-import { makeRequest, type ToolRegistry } from "$/shared";
+import {
+  filterReadableInSession,
+  makeRequest,
+  SCOPES,
+  type ToolRegistry,
+} from "$/shared";
 import { type } from "arktype";
 import { LocalRestAPI } from "shared";
 
@@ -21,19 +26,31 @@ export function registerSmartConnectionsTools(tools: ToolRegistry) {
         },
       },
     }).describe("Search for documents semantically matching a text string."),
-    async ({ arguments: args }) => {
+    async ({ arguments: args }, { signal }) => {
       const data = await makeRequest(
         LocalRestAPI.ApiSmartSearchResponse,
         `/search/smart`,
         {
           method: "POST",
           body: JSON.stringify(args),
+          signal,
         },
       );
+      const results = filterReadableInSession(
+        SCOPES.VAULT_SEARCH,
+        data.results,
+        (result) => result.path,
+      );
 
       return {
-        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify({ ...data, results }, null, 2),
+          },
+        ],
       };
     },
+    { scope: SCOPES.VAULT_SEARCH },
   );
 }
@@ -2,6 +2,8 @@ import {
   formatMcpError,
   makeRequest,
   parseTemplateParameters,
+  requireScopeInSession,
+  SCOPES,
   type ToolRegistry,
 } from "$/shared";
 import { type } from "arktype";
@@ -18,13 +20,19 @@ export function registerTemplaterTools(tools: ToolRegistry) {
         },
       ),
     }).describe("Execute a Templater template with the given arguments"),
-    async ({ arguments: args }) => {
+    async ({ arguments: args }, { audit, signal }) => {
+      requireScopeInSession(SCOPES.VAULT_READ, args.name);
+      if (args.createFile === "true" && args.targetPath) {
+        requireScopeInSession(SCOPES.VAULT_WRITE, args.targetPath);
+      }
+
       // Get prompt content
       const data = await makeRequest(
         LocalRestAPI.ApiVaultFileResponse,
         `/vault/${args.name}`,
         {
           headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON },
+          signal,
         },
       );
 
@@ -49,6 +57,13 @@ export function registerTemplaterTools(tools: ToolRegistry) {
         targetPath: args.targetPath,
       };
 
+      if (
+        templateExecutionArgs.createFile &&
+        templateExecutionArgs.targetPath
+      ) {
+        await audit.track(templateExecutionArgs.targetPath);
+      }
+
       // Process template through Templater plugin
       const response = await makeRequest(
         LocalRestAPI.ApiTemplateExecutionResponse,
@@ -57,6 +72,7 @@ export function registerTemplaterTools(tools: ToolRegistry) {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify(templateExecutionArgs),
+          signal,
         },
       );
 
@@ -64,5 +80,6 @@ export function registerTemplaterTools(tools: ToolRegistry) {
         content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
       };
     },
+    { scope: SCOPES.PLUGINS_EXECUTE },
   );
 }
@@ -0,0 +1,65 @@
+/**
+ * Tests for reading the trash folder's layout
+ */
+
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { describe, expect, test } from "bun:test";
+import {
+  filterTrashEntries,
+  parseTrashPath,
+  type TrashEntry,
+} from "./services";
+
+const FOLDER = ".mcp-trash";
+
+function entry(batch: string, path: string): TrashEntry {
+  const parsed = parseTrashPath(`${FOLDER}/${batch}/${path}`, FOLDER);
+  if (!parsed) throw new Error(`Invalid trash path: ${batch}/${path}`);
+  return parsed;
+}
+
+describe("parseTrashPath", () => {
+  test("splits the batch from the original path", () => {
+    expect(
+      parseTrashPath(".mcp-trash/2024-05-01T10-20-30-456Z/Inbox/a.md", FOLDER),
+    ).toEqual({
+      batch: "2024-05-01T10-20-30-456Z",
+      deletedAt: "2024-05-01T10:20:30.456Z",
+      path: "Inbox/a.md",
+      trashPath: ".mcp-trash/2024-05-01T10-20-30-456Z/Inbox/a.md",
+    });
+  });
+
+  test("ignores files the server didn't put there", () => {
+    expect(parseTrashPath(".mcp-trash/notes.md", FOLDER)).toBeUndefined();
+    expect(parseTrashPath(".mcp-trash/old/a.md", FOLDER)).toBeUndefined();
+    expect(parseTrashPath("Inbox/a.md", FOLDER)).toBeUndefined();
+  });
+});
+
+describe("filterTrashEntries", () => {
+  const entries = [
+    entry("2024-05-01T10-00-00-000Z", "Inbox/a.md"),
+    entry("2024-05-03T10-00-00-000Z", "Projects/b.md"),
+    entry("2024-05-03T10-00-00-000Z", "Inbox/c.md"),
+  ];
+  const paths = (filter: Parameters<typeof filterTrashEntries>[1]) =>
+    filterTrashEntries(entries, filter).map((entry) => entry.path);
+
+  test("sorts newest batches first", () => {
+    expect(paths({})).toEqual(["Inbox/c.md", "Projects/b.md", "Inbox/a.md"]);
+  });
+
+  test("filters by batch, path and age", () => {
+    expect(paths({ batch: "2024-05-01T10-00-00-000Z" })).toEqual([
+      "Inbox/a.md",
+    ]);
+    expect(paths({ path: "Inbox" })).toEqual(["Inbox/c.md", "Inbox/a.md"]);
+    expect(paths({ path: "Projects/b.md" })).toEqual(["Projects/b.md"]);
+    expect(paths({ olderThan: "2024-05-02" })).toEqual(["Inbox/a.md"]);
+  });
+
+  test("rejects invalid dates", () => {
+    expect(() => paths({ olderThan: "last week" })).toThrow(McpError);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  getTrashFolder,
+  requireScopeInSession,
+  SCOPES,
+  type Scope,
+  type ToolRegistry,
+  withMcpFolderAccess,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { type } from "arktype";
+import { listTrash, purgeTrash, restoreFromTrash } from "./services";
+
+export * from "./services";
+
+/** Scope each trash operation needs */
+const OPERATION_SCOPES: Record<string, Scope> = {
+  list: SCOPES.VAULT_LIST,
+  restore: SCOPES.VAULT_WRITE,
+  purge: SCOPES.VAULT_DELETE,
+};
+
+/**
+ * Register the `trash` tool, which lists, restores and purges the files
+ * deleted or overwritten through the server
+ */
+export function registerTrashTool(tools: ToolRegistry) {
+  tools.register(
+    type({
+      name: '"trash"',
+      arguments: {
+        operation: type('"list" | "restore" | "purge"').describe(
+          "list: show files in the trash. restore: move a batch (or one file of it) back. purge: permanently delete files from the trash.",
+        ),
+        "batch?": type("string").describe(
+          "Trash batch, one per tool call that removed files (required for restore)",
+        ),
+        "path?": type("string").describe(
+          "Only this original file path, or files under this folder",
+        ),
+        "olderThan?": type("string").describe(
+          "list and purge: only files removed before this ISO 8601 date or time",
+        ),
+        "overwrite?": type("boolean").describe(
+          "restore: replace files that exist again (they're moved to the trash first)",
+        ),
+        "dryRun?": type("boolean").describe(
+          "purge: if true (default), only list the files that would be deleted",
+        ),
+      },
+    }).describe(
+      "Deleted files, and files overwritten by moves and renames, are copied to the trash folder first. List, restore or permanently delete them. Files tagged mcp-protected can't be purged.",
+    ),
+    async ({ arguments: args }, context) => {
+      requireScopeInSession(OPERATION_SCOPES[args.operation]);
+
+      let result: unknown;
+      if (args.operation === "list") {
+        const entries = await listTrash(args, context.signal);
+        result = { folder: getTrashFolder(), entries };
+      } else if (args.operation === "restore") {
+        if (!args.batch) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            "batch is required for restore; use the list operation to find it",
+          );
+        }
+        const { batch } = args;
+        result = await withMcpFolderAccess(() =>
+          restoreFromTrash(
+            { batch, path: args.path, overwrite: args.overwrite },
+            context,
+          ),
+        );
+      } else {
+        result = await withMcpFolderAccess(() => purgeTrash(args, context));
+      }
+
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+    {
+      scope: SCOPES.VAULT_LIST,
+      annotations: { readOnlyHint: false, destructiveHint: true },
+      operationScope: (operation) => OPERATION_SCOPES[operation],
+    },
+  );
+}
@@ -0,0 +1,344 @@
+import {
+  assertNotReadonly,
+  copyToTrash,
+  createTrashBatch,
+  DELETED_FILES_QUOTA,
+  encodeVaultPath,
+  filterByScopeInSession,
+  getTrashFolder,
+  hasTag,
+  listVaultFiles,
+  makeRequest,
+  MCP_TAGS,
+  requireScopeInSession,
+  SCOPES,
+  type AuditTrail,
+  type Confirmation,
+  type ProgressReporter,
+} from "$/shared";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { LocalRestAPI } from "shared";
+
+/**
+ * A file copied to the trash before it was deleted or overwritten
+ */
+export interface TrashEntry {
+  /** Trash folder of the tool call that removed the file */
+  batch: string;
+  /** When the file was removed (ISO 8601) */
+  deletedAt: string;
+  /** Vault path the file was removed from */
+  path: string;
+  /** Vault path of the copy in the trash */
+  trashPath: string;
+}
+
+export interface TrashFilter {
+  /** Only files from this batch */
+  batch?: string;
+  /** Only this file, or files under this folder */
+  path?: string;
+  /** Only files removed before this ISO 8601 date or time */
+  olderThan?: string;
+}
+
+export interface TrashContext {
+  signal?: AbortSignal;
+  reportProgress?: ProgressReporter;
+  confirm?: Confirmation;
+  consumeLimit?: (key: string, amount: number) => void;
+  refundLimit?: (key: string, amount: number) => void;
+  audit?: AuditTrail;
+}
+
+function requireTrashFolder(): string {
+  const folder = getTrashFolder();
+  if (!folder) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      "The trash is turned off (OBSIDIAN_MCP_TRASH_FOLDER=off)",
+    );
+  }
+  return folder;
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Split the vault path of a file in the trash into its batch and original
+ * path. Returns undefined for files that weren't put there by the server.
+ */
+export function parseTrashPath(
+  trashPath: string,
+  folder: string,
+): TrashEntry | undefined {
+  if (!trashPath.startsWith(`${folder}/`)) return undefined;
+  const rest = trashPath.slice(folder.length + 1);
+  const slash = rest.indexOf("/");
+  if (slash <= 0 || slash === rest.length - 1) return undefined;
+
+  const batch = rest.slice(0, slash);
+  const deletedAt = batch.replace(
+    /T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/,
+    "T$1:$2:$3.$4Z",
+  );
+  if (deletedAt === batch || Number.isNaN(Date.parse(deletedAt))) {
+    return undefined;
+  }
+  return { batch, deletedAt, path: rest.slice(slash + 1), trashPath };
+}
+
+/**
+ * Entries matching every filter, newest first
+ *
+ * @throws McpError if `olderThan` isn't a valid date
+ */
+export function filterTrashEntries(
+  entries: TrashEntry[],
+  { batch, path, olderThan }: TrashFilter,
+): TrashEntry[] {
+  const before = olderThan === undefined ? undefined : Date.parse(olderThan);
+  if (before !== undefined && Number.isNaN(before)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "olderThan must be an ISO 8601 date or time, e.g. 2024-05-01",
+    );
+  }
+  const folder = path?.replace(/\/+$/, "");
+
+  return entries
+    .filter(
+      (entry) =>
+        (!batch || entry.batch === batch) &&
+        (!folder ||
+          entry.path === folder ||
+          entry.path.startsWith(`${folder}/`)) &&
+        (before === undefined || Date.parse(entry.deletedAt) < before),
+    )
+    .sort(
+      (a, b) => b.batch.localeCompare(a.batch) || a.path.localeCompare(b.path),
+    );
+}
+
+/**
+ * Files in the trash the session may list, newest first
+ */
+export async function listTrash(
+  filter: TrashFilter = {},
+  signal?: AbortSignal,
+): Promise<TrashEntry[]> {
+  const folder = requireTrashFolder();
+
+  let files: string[];
+  try {
+    files = await listVaultFiles(folder, signal);
+  } catch (error) {
+    // Nothing has been deleted yet
+    if (error instanceof McpError && / 404:/.test(error.message)) return [];
+    throw error;
+  }
+
+  const entries = files
+    .map((file) => parseTrashPath(file, folder))
+    .filter((entry): entry is TrashEntry => entry !== undefined);
+  return filterByScopeInSession(
+    SCOPES.VAULT_LIST,
+    filterTrashEntries(entries, filter),
+    (entry) => entry.path,
+  );
+}
+
+async function readFile(path: string, signal?: AbortSignal) {
+  return makeRequest(
+    LocalRestAPI.ApiContentResponse,
+    `/vault/${encodeVaultPath(path)}`,
+    { headers: { Accept: "text/markdown" }, signal },
+  );
+}
+
+async function fileExists(path: string, signal?: AbortSignal) {
+  try {
+    await readFile(path, signal);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export interface RestoreOptions {
+  batch: string;
+  /** Only this file, or files under this folder (default: the whole batch) */
+  path?: string;
+  /** Replace files that exist again; they're moved to the trash first */
+  overwrite?: boolean;
+}
+
+/**
+ * Move files from a trash batch back to where they were removed from
+ *
+ * @throws McpError if nothing in the trash matches, or the session may not
+ *   write to one of the original paths
+ */
+export async function restoreFromTrash(
+  { batch, path, overwrite = false }: RestoreOptions,
+  { signal, reportProgress, audit }: TrashContext = {},
+) {
+  const entries = await listTrash({ batch, path }, signal);
+  if (entries.length === 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Nothing in the trash matches batch "${batch}"${path ? ` and path "${path}"` : ""}`,
+    );
+  }
+  for (const entry of entries) {
+    requireScopeInSession(SCOPES.VAULT_WRITE, entry.path);
+  }
+
+  // Files replaced by the restore go to a batch of their own
+  const replacedBatch = createTrashBatch();
+  const restored: string[] = [];
+  const skipped: Array<{ path: string; reason: string }> = [];
+  const failed: Array<{ path: string; error: string }> = [];
+
+  for (const [index, entry] of entries.entries()) {
+    if (signal?.aborted) break;
+    await reportProgress?.(index, entries.length, `Restoring ${entry.path}`);
+    try {
+      if (await fileExists(entry.path, signal)) {
+        if (!overwrite) {
+          skipped.push({
+            path: entry.path,
+            reason:
+              "A file exists at this path; use overwrite: true to replace it",
+          });
+          continue;
+        }
+        await assertNotReadonly(entry.path);
+        await copyToTrash(entry.path, replacedBatch, { signal });
+      }
+
+      const content = await readFile(entry.trashPath, signal);
+      await audit?.track(entry.path);
+      await audit?.track(entry.trashPath);
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeVaultPath(entry.path)}`,
+        { method: "PUT", body: content, signal },
+      );
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeVaultPath(entry.trashPath)}`,
+        { method: "DELETE", signal },
+      );
+      restored.push(entry.path);
+    } catch (error) {
+      if (signal?.aborted) break;
+      failed.push({ path: entry.path, error: describeError(error) });
+    }
+  }
+  await reportProgress?.(entries.length, entries.length);
+
+  return {
+    batch,
+    restored,
+    skipped,
+    failed,
+    cancelled: signal?.aborted ?? false,
+  };
+}
+
+export interface PurgeOptions extends TrashFilter {
+  /** Only list what would be deleted (default: true) */
+  dryRun?: boolean;
+}
+
+/**
+ * Permanently delete files from the trash. Files tagged `mcp-protected`
+ * stay in the trash, as they would in the vault.
+ */
+export async function purgeTrash(
+  { dryRun = true, ...filter }: PurgeOptions,
+  {
+    signal,
+    reportProgress,
+    confirm,
+    consumeLimit,
+    refundLimit,
+    audit,
+  }: TrashContext = {},
+) {
+  const listed = await listTrash(filter, signal);
+  // Leave out files the session may not delete
+  const entries = filterByScopeInSession(
+    SCOPES.VAULT_DELETE,
+    listed,
+    (entry) => entry.path,
+  );
+  const outOfScopeCount = listed.length - entries.length;
+
+  if (dryRun) {
+    return {
+      mode: "dry-run",
+      wouldPurge: entries,
+      count: entries.length,
+      outOfScopeCount,
+      message:
+        entries.length === 0
+          ? "Nothing in the trash matches."
+          : `Set dryRun: false to permanently delete ${entries.length} files from the trash.`,
+    };
+  }
+
+  const trashPaths = entries.map((entry) => entry.trashPath);
+  if (entries.length > 0) {
+    await confirm?.({
+      action: `Permanently delete ${entries.length} files from the trash`,
+      files: trashPaths,
+    });
+    consumeLimit?.(DELETED_FILES_QUOTA, entries.length);
+  }
+
+  const purged: string[] = [];
+  const skipped: string[] = [];
+  const failed: Array<{ file: string; error: string }> = [];
+
+  for (const [index, file] of trashPaths.entries()) {
+    if (signal?.aborted) break;
+    await reportProgress?.(index, trashPaths.length, `Deleting ${file}`);
+    try {
+      if (await hasTag(file, MCP_TAGS.PROTECTED)) {
+        skipped.push(file);
+        continue;
+      }
+      await audit?.track(file);
+      await makeRequest(
+        LocalRestAPI.ApiNoContentResponse,
+        `/vault/${encodeVaultPath(file)}`,
+        { method: "DELETE", signal },
+      );
+      purged.push(file);
+    } catch (error) {
+      if (signal?.aborted) break;
+      failed.push({ file, error: describeError(error) });
+    }
+  }
+  // Only files actually deleted count against the quota
+  if (trashPaths.length > 0) {
+    refundLimit?.(DELETED_FILES_QUOTA, trashPaths.length - purged.length);
+  }
+  await reportProgress?.(trashPaths.length, trashPaths.length);
+
+  return {
+    mode: "purge",
+    purged,
+    skipped,
+    failed,
+    purgedCount: purged.length,
+    skippedCount: skipped.length,
+    failedCount: failed.length,
+    outOfScopeCount,
+    cancelled: signal?.aborted ?? false,
+  };
+}
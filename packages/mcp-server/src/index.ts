@@ -1,15 +1,21 @@
 #!/usr/bin/env bun
-import { logger } from "$/shared";
+import {
+  getHistoryLimit,
+  getLimits,
+  getVaultConnection,
+  logger,
+} from "$/shared";
+import { isCliCommand, runCli } from "./features/cli";
 import { ObsidianMcpServer } from "./features/core";
 import { getVersion } from "./features/version" with { type: "macro" };
 
 async function main() {
   try {
-    // Verify required environment variables
-    const API_KEY = process.env.OBSIDIAN_API_KEY;
-    if (!API_KEY) {
-      throw new Error("OBSIDIAN_API_KEY environment variable is required");
-    }
+    // Verify there is at least one valid vault connection
+    getVaultConnection();
+    // Fail now on invalid limits rather than on every tool call
+    getLimits();
+    getHistoryLimit();
 
     logger.debug("Starting MCP Tools for Obsidian server...");
     const server = new ObsidianMcpServer();
@@ -24,7 +30,24 @@ async function main() {
   }
 }
 
-if (process.argv.includes("--version")) {
+const [command] = process.argv.slice(2);
+
+if (isCliCommand(command)) {
+  const loadTools = () => {
+    // Fail early, as `main` does, without a valid vault connection
+    getVaultConnection();
+    return new ObsidianMcpServer().loadTools();
+  };
+  runCli(process.argv.slice(2), { loadTools })
+    .then(async (code) => {
+      await logger.flush();
+      process.exit(code);
+    })
+    .catch((error) => {
+      console.error(error);
+      process.exit(1);
+    });
+} else if (process.argv.includes("--version")) {
   try {
     console.log(getVersion());
   } catch (error) {
@@ -0,0 +1,198 @@
+/**
+ * Unit tests for tool list change tracking
+ */
+
+import { describe, expect, it } from "bun:test";
+import { type } from "arktype";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { logger } from "./logger";
+import { ToolRegistryClass, type ToolRegistry } from "./ToolRegistry";
+import { getVaultConnection } from "./vaults";
+
+function createRegistry() {
+  const tools: ToolRegistry = new ToolRegistryClass();
+  const schema = type({
+    name: '"echo"',
+    arguments: { "text?": "string" },
+  }).describe("Echo");
+  tools.register(schema, async () => ({ content: [] }));
+
+  let changes = 0;
+  tools.onListChanged(() => changes++);
+  return { tools, schema, changes: () => changes };
+}
+
+describe("ToolRegistry", () => {
+  it("should notify listeners when a tool is enabled or disabled", () => {
+    const { tools, changes } = createRegistry();
+
+    expect(tools.setEnabled("echo", false)).toBe(true);
+    expect(tools.setEnabled("echo", true)).toBe(true);
+    expect(changes()).toBe(2);
+  });
+
+  it("should not notify when nothing changes", () => {
+    const { tools, schema, changes } = createRegistry();
+
+    expect(tools.setEnabled("echo", true)).toBe(false);
+    tools.enable(schema);
+    expect(changes()).toBe(0);
+  });
+
+  it("should stop notifying removed listeners", () => {
+    const { tools } = createRegistry();
+    let calls = 0;
+    const remove = tools.onListChanged(() => calls++);
+
+    remove();
+    tools.setEnabled("echo", false);
+    expect(calls).toBe(0);
+  });
+
+  it("should replace a tool's schema in place and notify when it changes", () => {
+    const { tools, changes } = createRegistry();
+    tools.register(
+      type({ name: '"other"', arguments: { "text?": "string" } }),
+      async () => ({ content: [] }),
+    );
+    const before = changes();
+
+    const replacement = type({
+      name: '"echo"',
+      arguments: { text: "string" },
+    }).describe("Echo text");
+    expect(tools.replace(replacement, async () => ({ content: [] }))).toBe(
+      true,
+    );
+    expect(tools.names()).toEqual(["echo", "other"]);
+    expect(tools.list().tools[0].description).toBe("Echo text");
+    expect(changes()).toBe(before + 1);
+
+    // The same schema again isn't a change
+    const same = type({
+      name: '"echo"',
+      arguments: { text: "string" },
+    }).describe("Echo text");
+    expect(tools.replace(same, async () => ({ content: [] }))).toBe(false);
+    expect(changes()).toBe(before + 1);
+  });
+
+  it("should keep a replaced tool disabled", () => {
+    const { tools, changes } = createRegistry();
+    tools.setEnabled("echo", false);
+
+    const replacement = type({
+      name: '"echo"',
+      arguments: { "text?": "string" },
+    }).describe("New");
+    expect(tools.replace(replacement, async () => ({ content: [] }))).toBe(
+      false,
+    );
+    expect(tools.list().tools).toEqual([]);
+    expect(changes()).toBe(1);
+  });
+
+  it("should list computed descriptions", () => {
+    const tools: ToolRegistry = new ToolRegistryClass();
+    let plugins = "templater";
+    tools.register(
+      type({ name: '"plugin"', arguments: { "text?": "string" } }).describe(
+        "Static",
+      ),
+      async () => ({ content: [] }),
+      { description: () => `Plugins: ${plugins}` },
+    );
+
+    expect(tools.list().tools[0].description).toBe("Plugins: templater");
+    plugins = "dataview";
+    expect(tools.list().tools[0].description).toBe("Plugins: dataview");
+  });
+
+  it("should route calls to the vault named in the vault argument", async () => {
+    const original = process.env.OBSIDIAN_MCP_VAULTS;
+    process.env.OBSIDIAN_API_KEY ??= "key";
+    process.env.OBSIDIAN_MCP_VAULTS = '[{"name":"work","apiKey":"w"}]';
+    try {
+      const tools: ToolRegistry = new ToolRegistryClass();
+      const received: unknown[] = [];
+      tools.register(
+        type({ name: '"echo"', arguments: { "text?": "string" } }),
+        async ({ arguments: args }) => {
+          received.push(args);
+          return {
+            content: [{ type: "text", text: getVaultConnection().name }],
+          };
+        },
+      );
+
+      const [echo] = tools.list().tools;
+      expect(echo.inputSchema).toMatchObject({
+        properties: { vault: { enum: ["default", "work"] } },
+      });
+
+      const result = await tools.dispatch(
+        { name: "echo", arguments: { text: "hi", vault: "work" } },
+        { server: {} as Server },
+      );
+      expect(result.content).toEqual([{ type: "text", text: "work" }]);
+      expect(received).toEqual([{ text: "hi" }]);
+    } finally {
+      if (original === undefined) delete process.env.OBSIDIAN_MCP_VAULTS;
+      else process.env.OBSIDIAN_MCP_VAULTS = original;
+    }
+  });
+
+  it("should rate limit calls per session", async () => {
+    const original = process.env.OBSIDIAN_MCP_LIMITS;
+    process.env.OBSIDIAN_MCP_LIMITS = '{"rates": {"echo": "1/minute"}}';
+    try {
+      const { tools } = createRegistry();
+      const session = {} as Server;
+      const call = (server: Server) =>
+        tools.dispatch({ name: "echo", arguments: {} }, { server });
+
+      await call(session);
+      await expect(call(session)).rejects.toMatchObject({
+        data: { limit: "echo", retryAfter: 60 },
+      });
+      // Another session has its own limits
+      await call({} as Server);
+    } finally {
+      if (original === undefined) delete process.env.OBSIDIAN_MCP_LIMITS;
+      else process.env.OBSIDIAN_MCP_LIMITS = original;
+    }
+  });
+
+  it("should log failed calls without their content", async () => {
+    const tools: ToolRegistry = new ToolRegistryClass();
+    tools.register(
+      type({
+        name: '"write"',
+        arguments: { path: "string", content: "string" },
+      }),
+      async () => {
+        throw new Error("Write failed");
+      },
+    );
+    const entries: Array<Record<string, unknown>> = [];
+    const removeSink = logger.addSink(({ level, meta }) => {
+      if (level === "ERROR") entries.push(meta);
+    });
+    try {
+      await expect(
+        tools.dispatch(
+          { name: "write", arguments: { path: "a.md", content: "Dear diary" } },
+          { server: {} as Server },
+        ),
+      ).rejects.toThrow("Write failed");
+    } finally {
+      removeSink();
+    }
+
+    expect(entries[0].arguments).toEqual({
+      path: "a.md",
+      content: "[redacted: 10 characters]",
+    });
+    expect(JSON.stringify(entries)).not.toContain("Dear diary");
+  });
+});
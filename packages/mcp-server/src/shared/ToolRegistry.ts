@@ -2,14 +2,80 @@ import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   ErrorCode,
   McpError,
+  type ProgressToken,
   type Result,
+  type ToolAnnotations,
 } from "@modelcontextprotocol/sdk/types.js";
 import { type, type Type } from "arktype";
+import {
+  currentSessionHasScope,
+  requireScopeInSession,
+  type Scope,
+} from "../auth/scopes.js";
+import { AuditRecorder, redactArguments, type AuditTrail } from "./audit.js";
+import { createConfirmation, type Confirmation } from "./confirm.js";
+import { collectDryRun } from "./dryRun.js";
 import { formatMcpError } from "./formatMcpError.js";
 import { logger } from "./logger.js";
+import { collectPendingChanges } from "./pendingChanges.js";
+import { createProgressReporter, type ProgressReporter } from "./progress.js";
+import { getLimitKeys, RateLimiter } from "./rateLimit.js";
+import { deriveToolAnnotations } from "./toolAnnotations.js";
+import { getVaultConnections, withVault } from "./vaults.js";
 
-interface HandlerContext {
+/**
+ * Per-request context passed to `dispatch` by the server
+ */
+export interface DispatchContext {
   server: Server;
+  /** `_meta.progressToken` from the tools/call request, if any */
+  progressToken?: ProgressToken;
+  /** Aborted when the client cancels the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * Context available to tool handlers
+ */
+export interface HandlerContext extends DispatchContext {
+  /** Sends `notifications/progress`; a no-op if the client didn't ask */
+  reportProgress: ProgressReporter;
+  /** Asks the user to confirm a destructive action before it happens */
+  confirm: Confirmation;
+  /**
+   * Counts units other than calls, e.g. deleted files, against the
+   * session's limits for `key`. Throws McpError if a limit is exceeded.
+   */
+  consumeLimit: (key: string, amount: number) => void;
+  /** Gives back units counted by `consumeLimit` for work that wasn't done */
+  refundLimit: (key: string, amount: number) => void;
+  /** Records a file in the audit log; call it right before changing the file */
+  audit: AuditTrail;
+}
+
+/**
+ * Metadata declared when registering a tool
+ */
+export interface ToolOptions {
+  /**
+   * Scope a session needs to call the tool.
+   * Tools the session can't call are hidden from `list` and rejected by `dispatch`.
+   */
+  scope?: Scope;
+  /** Behavior hints that differ from the defaults for `scope` */
+  annotations?: ToolAnnotations;
+  /** Computes the description when it depends on runtime state */
+  description?: () => string;
+  /**
+   * Whether the tool takes a `vault` argument choosing the vault connection
+   * (default: true). Set to false for tools that don't use the vault.
+   */
+  vault?: boolean;
+  /**
+   * Scope of a dispatcher operation, so calls count against its rate
+   * limits (default: `scope`)
+   */
+  operationScope?: (operation: string) => Scope | undefined;
 }
 
 const textResult = type({
@@ -47,6 +113,9 @@ export class ToolRegistryClass<
   ) => Promise<Result>,
 > extends Map<TSchema, THandler> {
   private enabled = new Set<TSchema>();
+  private options = new Map<TSchema, ToolOptions>();
+  private listeners = new Set<() => void>();
+  private limiters = new WeakMap<Server, RateLimiter>();
 
   register<
     Schema extends TSchema,
@@ -54,10 +123,11 @@ export class ToolRegistryClass<
       request: Schema["infer"],
       context: HandlerContext,
     ) => ResultSchema | Promise<ResultSchema>,
-  >(schema: Schema, handler: Handler) {
+  >(schema: Schema, handler: Handler, options: ToolOptions = {}) {
     if (this.has(schema)) {
       throw new Error(`Tool already registered: ${schema.get("name")}`);
     }
+    this.options.set(schema, options);
     this.enable(schema);
     return super.set(
       schema as unknown as TSchema,
@@ -65,29 +135,210 @@ export class ToolRegistryClass<
     );
   }
 
+  /**
+   * Register a tool in place of the one registered with the same name, so
+   * its schema and handler can change at runtime. The tool keeps its place
+   * in the list and whether it's enabled; a tool that isn't registered yet
+   * is registered.
+   *
+   * @returns Whether the tool list changed
+   */
+  replace<
+    Schema extends TSchema,
+    Handler extends (
+      request: Schema["infer"],
+      context: HandlerContext,
+    ) => ResultSchema | Promise<ResultSchema>,
+  >(schema: Schema, handler: Handler, options: ToolOptions = {}): boolean {
+    const name = this.nameOf(schema);
+    const previous = Array.from(this.keys()).find(
+      (registered) => this.nameOf(registered) === name,
+    );
+    if (!previous) {
+      this.register(schema, handler, options);
+      return true;
+    }
+
+    const changed =
+      this.enabled.has(previous) &&
+      JSON.stringify(previous.json) !== JSON.stringify(schema.json);
+    const entries = Array.from(this.entries());
+    const enabled = Array.from(this.enabled);
+    this.clear();
+    this.enabled.clear();
+    for (const [registered, registeredHandler] of entries) {
+      if (registered === previous) {
+        super.set(schema, handler as unknown as THandler);
+      } else {
+        super.set(registered, registeredHandler);
+      }
+    }
+    for (const registered of enabled) {
+      this.enabled.add(registered === previous ? schema : registered);
+    }
+    this.options.delete(previous);
+    this.options.set(schema, options);
+
+    if (changed) this.notifyListChanged();
+    return changed;
+  }
+
   enable = <Schema extends TSchema>(schema: Schema) => {
-    this.enabled.add(schema);
+    if (!this.enabled.has(schema)) {
+      this.enabled.add(schema);
+      this.notifyListChanged();
+    }
     return this;
   };
 
   disable = <Schema extends TSchema>(schema: Schema) => {
-    this.enabled.delete(schema);
+    if (this.enabled.delete(schema)) {
+      this.notifyListChanged();
+    }
     return this;
   };
 
+  /**
+   * Call `listener` whenever the tool list changes
+   *
+   * @returns A function that removes the listener
+   */
+  onListChanged = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Tell listeners the tool list changed. Called automatically when a tool
+   * is enabled or disabled; call it when a computed description changes.
+   */
+  notifyListChanged = () => {
+    for (const listener of this.listeners) {
+      try {
+        listener();
+      } catch (error) {
+        logger.error("Tool list listener failed", { error });
+      }
+    }
+  };
+
+  /**
+   * Names of all registered tools, enabled or not
+   */
+  names = (): string[] => {
+    return Array.from(this.keys()).map(this.nameOf);
+  };
+
+  /**
+   * Enable or disable a tool by name
+   *
+   * @returns Whether the tool's enabled state changed
+   */
+  setEnabled = (name: string, enabled: boolean): boolean => {
+    const schema = Array.from(this.keys()).find(
+      (schema) => this.nameOf(schema) === name,
+    );
+    if (!schema || this.enabled.has(schema) === enabled) return false;
+    if (enabled) this.enable(schema);
+    else this.disable(schema);
+    return true;
+  };
+
   list = () => {
     return {
-      tools: Array.from(this.enabled.values()).map((schema) => {
-        return {
-          // @ts-expect-error We know the const property is present for a string
-          name: schema.get("name").toJsonSchema().const,
-          description: schema.description,
-          inputSchema: schema.get("arguments").toJsonSchema(),
-        };
-      }),
+      tools: Array.from(this.enabled.values())
+        .filter(this.isAllowed)
+        .map((schema) => {
+          return {
+            name: this.nameOf(schema),
+            description:
+              this.options.get(schema)?.description?.() ?? schema.description,
+            inputSchema: this.getInputSchema(schema),
+            annotations: this.getAnnotations(schema),
+          };
+        }),
     };
   };
 
+  /**
+   * JSON schema of a tool's arguments, with a `vault` property when more
+   * than one vault connection is configured
+   */
+  private getInputSchema = <Schema extends TSchema>(schema: Schema) => {
+    const inputSchema = schema.get("arguments").toJsonSchema() as {
+      properties?: Record<string, unknown>;
+    };
+    const vaults = getVaultConnections();
+    if (vaults.length < 2 || this.options.get(schema)?.vault === false) {
+      return inputSchema;
+    }
+    return {
+      ...inputSchema,
+      properties: {
+        ...inputSchema.properties,
+        vault: {
+          type: "string",
+          enum: vaults.map((vault) => vault.name),
+          description: `Vault to use (default: ${vaults[0].name})`,
+        },
+      },
+    };
+  };
+
+  private nameOf = <Schema extends TSchema>(schema: Schema): string => {
+    // @ts-expect-error We know the const property is present for a string
+    return schema.get("name").toJsonSchema().const;
+  };
+
+  /**
+   * Whether the session's scopes allow calling a tool
+   */
+  isAllowed = <Schema extends TSchema>(schema: Schema): boolean => {
+    const scope = this.options.get(schema)?.scope;
+    return !scope || currentSessionHasScope(scope);
+  };
+
+  /**
+   * MCP tool annotations derived from the tool's declared scope and behavior
+   */
+  getAnnotations = <Schema extends TSchema>(
+    schema: Schema,
+  ): ToolAnnotations => {
+    const { scope, annotations } = this.options.get(schema) ?? {};
+    return deriveToolAnnotations(scope, annotations);
+  };
+
+  /**
+   * Separate the `vault` argument from the tool's own arguments
+   */
+  private extractVault = <Schema extends TSchema>(
+    schema: Schema,
+    params: Schema["infer"],
+  ): { vault?: string; request: Schema["infer"] } => {
+    if (this.options.get(schema)?.vault === false || !params.arguments) {
+      return { request: params };
+    }
+    const { vault, ...args } = params.arguments;
+    if (vault !== undefined && typeof vault !== "string") {
+      throw new McpError(ErrorCode.InvalidParams, "vault must be a string");
+    }
+    return { vault, request: { ...params, arguments: args } };
+  };
+
+  /**
+   * Rate limits and quotas of a session
+   */
+  private limiterFor = (server: Server): RateLimiter => {
+    let limiter = this.limiters.get(server);
+    if (!limiter) {
+      limiter = new RateLimiter();
+      this.limiters.set(server, limiter);
+    }
+    return limiter;
+  };
+
   /**
    * MCP SDK sends boolean values as "true" or "false". This method coerces the boolean
    * values in the request parameters to the expected type.
@@ -121,16 +372,59 @@ export class ToolRegistryClass<
 
   dispatch = async <Schema extends TSchema>(
     params: Schema["infer"],
-    context: HandlerContext,
+    context: DispatchContext,
   ) => {
     try {
       for (const [schema, handler] of this.entries()) {
+        if (!this.enabled.has(schema)) continue;
         if (schema.get("name").allows(params.name)) {
+          const scope = this.options.get(schema)?.scope;
+          if (scope) requireScopeInSession(scope);
+          context.signal?.throwIfAborted();
+          const { vault, request } = this.extractVault(schema, params);
           const validParams = schema.assert(
-            this.coerceBooleanParams(schema, params),
+            this.coerceBooleanParams(schema, request),
           );
+
+          // Count the call against the session's rate limits and quotas
+          const limiter = this.limiterFor(context.server);
+          const { operation } = validParams.arguments ?? {};
+          const operationName =
+            typeof operation === "string" ? operation : undefined;
+          const operationScope =
+            operationName &&
+            this.options.get(schema)?.operationScope?.(operationName);
+          limiter.consume(
+            getLimitKeys(params.name, operationName, operationScope || scope),
+          );
+          const audit = new AuditRecorder({
+            tool: params.name,
+            operation: operationName,
+            vault,
+            arguments: validParams.arguments,
+          });
           // return await to handle runtime errors here
-          return await handler(validParams, context);
+          return await withVault(vault, () =>
+            audit.record(() =>
+              collectDryRun(() =>
+                collectPendingChanges(params.name, () =>
+                  handler(validParams, {
+                    ...context,
+                    reportProgress: createProgressReporter(
+                      context.server,
+                      context.progressToken,
+                    ),
+                    confirm: createConfirmation(context.server, context.signal),
+                    consumeLimit: (key, amount) =>
+                      limiter.consume([key], amount),
+                    refundLimit: (key, amount) =>
+                      limiter.refund([key], amount),
+                    audit,
+                  }),
+                ),
+              ),
+            ),
+          );
         }
       }
       throw new McpError(
@@ -144,7 +438,8 @@ export class ToolRegistryClass<
         message: formattedError.message,
         stack: formattedError.stack,
         error,
-        params,
+        // Arguments can hold note content and secrets
+        arguments: redactArguments(params.arguments),
       });
       throw formattedError;
     }
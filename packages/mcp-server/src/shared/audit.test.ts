@@ -0,0 +1,140 @@
+import { describe, expect, test } from "bun:test";
+import {
+  AuditRecorder,
+  getAuditLogPath,
+  redactArguments,
+  type AuditEntry,
+} from "./audit";
+
+/**
+ * A recorder over an in-memory vault, collecting the lines it would append
+ */
+function createRecorder(files: Record<string, string>) {
+  const lines: string[] = [];
+  const recorder = new AuditRecorder(
+    {
+      tool: "vault",
+      operation: "write",
+      arguments: { path: "a.md", content: "hello" },
+    },
+    {
+      logPath: "/logs/audit.jsonl",
+      hashFile: async (path) => files[path] ?? null,
+      append: async (_path, line) => {
+        lines.push(line);
+      },
+    },
+  );
+  const entries = () => lines.map((line) => JSON.parse(line) as AuditEntry);
+  return { recorder, entries };
+}
+
+describe("redactArguments", () => {
+  test("replaces content with its length", () => {
+    expect(redactArguments({ path: "a.md", content: "hello" })).toEqual({
+      path: "a.md",
+      content: "[redacted: 5 characters]",
+    });
+  });
+
+  test("replaces patches, template arguments and secrets", () => {
+    expect(
+      redactArguments({
+        patch: "@@ -1 +1 @@",
+        arguments: { title: "Salary review" },
+        plugin: { name: "x", apiKey: "k" },
+        authToken: "t",
+      }),
+    ).toEqual({
+      patch: "[redacted: 11 characters]",
+      arguments: "[redacted]",
+      plugin: { name: "x", apiKey: "[redacted]" },
+      authToken: "[redacted]",
+    });
+  });
+});
+
+describe("getAuditLogPath", () => {
+  test("uses the configured path, or none when turned off", () => {
+    expect(getAuditLogPath("/tmp/audit.jsonl")).toBe("/tmp/audit.jsonl");
+    expect(getAuditLogPath("off")).toBeUndefined();
+    expect(getAuditLogPath(undefined)).toEndWith(
+      "mcp-server-obsidian-mcp-tools-audit.jsonl",
+    );
+  });
+});
+
+describe("AuditRecorder", () => {
+  test("logs tracked files with hashes before and after", async () => {
+    const files: Record<string, string> = { "a.md": "old" };
+    const { recorder, entries } = createRecorder(files);
+
+    await recorder.record(async () => {
+      await recorder.track("a.md");
+      await recorder.track("a.md");
+      files["a.md"] = "new";
+      return { content: [] };
+    });
+
+    const [entry] = entries();
+    expect(entries()).toHaveLength(1);
+    expect(entry).toMatchObject({
+      tool: "vault",
+      operation: "write",
+      arguments: { path: "a.md", content: "[redacted: 5 characters]" },
+      targets: [{ path: "a.md", before: "old", after: "new" }],
+      outcome: "success",
+    });
+    expect(entry.scopes).toBeArray();
+  });
+
+  test("logs failed calls and rethrows their error", async () => {
+    const { recorder, entries } = createRecorder({});
+
+    const call = recorder.record(async () => {
+      await recorder.track("b.md");
+      throw new Error("boom");
+    });
+
+    await expect(call).rejects.toThrow("boom");
+    expect(entries()[0]).toMatchObject({
+      outcome: "error",
+      error: "boom",
+      targets: [{ path: "b.md", before: null, after: null }],
+    });
+  });
+
+  test("logs calls that changed nothing in dry runs and approval mode", async () => {
+    const originalDryRun = process.env.OBSIDIAN_MCP_DRY_RUN;
+    const originalApproval = process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL;
+    const call = (recorder: AuditRecorder) =>
+      recorder.record(async () => {
+        await recorder.track("a.md");
+        return { content: [] };
+      });
+    try {
+      process.env.OBSIDIAN_MCP_DRY_RUN = "true";
+      const dryRun = createRecorder({ "a.md": "old" });
+      await call(dryRun.recorder);
+      expect(dryRun.entries()[0].outcome).toBe("dry_run");
+
+      delete process.env.OBSIDIAN_MCP_DRY_RUN;
+      process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL = "true";
+      const queued = createRecorder({ "a.md": "old" });
+      await call(queued.recorder);
+      expect(queued.entries()[0].outcome).toBe("queued");
+    } finally {
+      if (originalDryRun === undefined) delete process.env.OBSIDIAN_MCP_DRY_RUN;
+      else process.env.OBSIDIAN_MCP_DRY_RUN = originalDryRun;
+      if (originalApproval === undefined) {
+        delete process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL;
+      } else process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL = originalApproval;
+    }
+  });
+
+  test("logs nothing when no file was tracked", async () => {
+    const { recorder, entries } = createRecorder({});
+    await recorder.record(async () => ({ content: [], isError: true }));
+    expect(entries()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,223 @@
+import { createHash } from "node:crypto";
+import { mkdir, appendFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { getLogFilePath, LocalRestAPI } from "shared";
+import { getGrantedScopes } from "../auth/scopes";
+import { isDryRun } from "./dryRun";
+import { encodeVaultPath } from "./listVaultFiles";
+import { logger, SECRET_KEY } from "./logger";
+import { makeRequest } from "./makeRequest";
+import { isApprovalRequired } from "./pendingChanges";
+
+/**
+ * Argument names whose values are replaced by a summary in the log: file
+ * content, patches and request bodies, and template arguments
+ */
+const REDACTED_ARGUMENTS = ["content", "patch", "body", "arguments"];
+
+/**
+ * A file changed by a tool call, with SHA-256 hashes of its content before
+ * and after the call (null if it didn't exist or couldn't be read)
+ */
+export interface AuditTarget {
+  path: string;
+  before: string | null;
+  after: string | null;
+}
+
+/**
+ * One line of the audit log
+ */
+export interface AuditEntry {
+  /** ISO 8601 time the call finished */
+  timestamp: string;
+  tool: string;
+  /** Dispatcher operation, e.g. "delete" for the `vault` tool */
+  operation?: string;
+  /** Vault connection named in the call, if any */
+  vault?: string;
+  /** Call arguments, with file content and secrets redacted */
+  arguments: Record<string, unknown>;
+  targets: AuditTarget[];
+  scopes: string[];
+  /**
+   * Whether the call succeeded. A call that succeeded without changing the
+   * vault is "dry_run" when its changes were only described
+   * (OBSIDIAN_MCP_DRY_RUN), or "queued" when they're waiting for approval
+   * (OBSIDIAN_MCP_REQUIRE_APPROVAL).
+   */
+  outcome: "success" | "error" | "dry_run" | "queued";
+  error?: string;
+}
+
+/**
+ * Records the files a tool call changes. Call `track` right before
+ * changing a file: the call is only logged if it tracked a file.
+ */
+export interface AuditTrail {
+  track(path: string): Promise<void>;
+}
+
+/**
+ * Path of the audit log: OBSIDIAN_MCP_AUDIT_LOG, or a file next to the
+ * server log. Returns undefined if the log is turned off with "off".
+ */
+export function getAuditLogPath(
+  value = process.env.OBSIDIAN_MCP_AUDIT_LOG,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (trimmed?.toLowerCase() === "off") return undefined;
+  return (
+    trimmed ||
+    getLogFilePath("Claude", "mcp-server-obsidian-mcp-tools-audit.jsonl")
+  );
+}
+
+/**
+ * Replace file content, patches and template arguments in call arguments
+ * with a summary, and secrets at any depth with "[redacted]"
+ */
+export function redactArguments(
+  args: Record<string, unknown> = {},
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => [
+      key,
+      redactArgument(key, value),
+    ]),
+  );
+}
+
+function redactArgument(key: string, value: unknown): unknown {
+  if (SECRET_KEY.test(key)) return "[redacted]";
+  if (REDACTED_ARGUMENTS.includes(key)) {
+    return typeof value === "string"
+      ? `[redacted: ${value.length} characters]`
+      : "[redacted]";
+  }
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    return redactArguments(value as Record<string, unknown>);
+  }
+  return value;
+}
+
+/**
+ * SHA-256 of a vault file's content, or null if it can't be read
+ */
+async function hashVaultFile(path: string): Promise<string | null> {
+  try {
+    const content = await makeRequest(
+      LocalRestAPI.ApiContentResponse,
+      `/vault/${encodeVaultPath(path)}`,
+      { headers: { Accept: "text/markdown" } },
+    );
+    return createHash("sha256").update(content).digest("hex");
+  } catch {
+    return null;
+  }
+}
+
+export interface AuditCall {
+  tool: string;
+  operation?: string;
+  vault?: string;
+  arguments?: Record<string, unknown>;
+}
+
+export interface AuditRecorderOptions {
+  /** Log file (default: `getAuditLogPath()`); undefined turns logging off */
+  logPath?: string;
+  /** Hash a file's content (default: read it through the Local REST API) */
+  hashFile?: (path: string) => Promise<string | null>;
+  /** Append a line to the log */
+  append?: (path: string, line: string) => Promise<void>;
+}
+
+async function appendLine(path: string, line: string) {
+  await mkdir(dirname(path), { recursive: true });
+  await appendFile(path, line);
+}
+
+/**
+ * Outcome of a call that succeeded: its changes were made, only described
+ * in a dry run, or queued for approval
+ */
+function getSuccessOutcome(): AuditEntry["outcome"] {
+  if (isDryRun()) return "dry_run";
+  if (isApprovalRequired()) return "queued";
+  return "success";
+}
+
+/**
+ * Audit trail of one tool call. `record` runs the handler and, if it
+ * tracked any files, appends an entry with their hashes after the call.
+ */
+export class AuditRecorder implements AuditTrail {
+  private targets = new Map<string, string | null>();
+  private logPath?: string;
+  private hashFile: (path: string) => Promise<string | null>;
+  private append: (path: string, line: string) => Promise<void>;
+
+  constructor(
+    private call: AuditCall,
+    options: AuditRecorderOptions = { logPath: getAuditLogPath() },
+  ) {
+    this.logPath = options.logPath;
+    this.hashFile = options.hashFile ?? hashVaultFile;
+    this.append = options.append ?? appendLine;
+  }
+
+  track = async (path: string) => {
+    if (!this.logPath || this.targets.has(path)) return;
+    this.targets.set(path, await this.hashFile(path));
+  };
+
+  /**
+   * Run a tool call and log the files it changed
+   */
+  async record<T>(run: () => Promise<T>): Promise<T> {
+    try {
+      const result = await run();
+      const { isError } = (result ?? {}) as { isError?: unknown };
+      await this.write(isError === true ? "error" : getSuccessOutcome());
+      return result;
+    } catch (error) {
+      await this.write("error", error);
+      throw error;
+    }
+  }
+
+  private async write(outcome: AuditEntry["outcome"], error?: unknown) {
+    if (!this.logPath || this.targets.size === 0) return;
+
+    try {
+      const targets = await Promise.all(
+        Array.from(this.targets, async ([path, before]) => ({
+          path,
+          before,
+          after: await this.hashFile(path),
+        })),
+      );
+      const entry: AuditEntry = {
+        timestamp: new Date().toISOString(),
+        tool: this.call.tool,
+        ...(this.call.operation ? { operation: this.call.operation } : {}),
+        ...(this.call.vault ? { vault: this.call.vault } : {}),
+        arguments: redactArguments(this.call.arguments),
+        targets,
+        scopes: getGrantedScopes(),
+        outcome,
+        ...(error
+          ? { error: error instanceof Error ? error.message : String(error) }
+          : {}),
+      };
+      await this.append(this.logPath, `${JSON.stringify(entry)}\n`);
+    } catch (writeError) {
+      // A failed audit write shouldn't hide the call's own result
+      logger.error("Failed to write audit log entry", {
+        error: writeError,
+        tool: this.call.tool,
+      });
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, test } from "bun:test";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { ElicitResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  createConfirmation,
+  formatConfirmationMessage,
+  getConfirmationFallback,
+} from "./confirm";
+
+function stubServer(reply?: ElicitResult | Error) {
+  const sent: unknown[] = [];
+  const server = {
+    getClientCapabilities: () =>
+      reply === undefined ? {} : { elicitation: {} },
+    elicitInput: async (params: unknown) => {
+      sent.push(params);
+      if (reply instanceof Error) throw reply;
+      return reply;
+    },
+  } as unknown as Server;
+  return { server, sent };
+}
+
+const request = { action: "Delete 2 files", files: ["a.md", "b/c.md"] };
+
+describe("createConfirmation", () => {
+  test("proceeds when the user accepts", async () => {
+    const { server, sent } = stubServer({
+      action: "accept",
+      content: { confirm: true },
+    });
+    await expect(createConfirmation(server)(request)).resolves.toBeUndefined();
+    expect(sent).toHaveLength(1);
+    expect(JSON.stringify(sent[0])).toContain("b/c.md");
+  });
+
+  test("refuses unless the user accepts and confirms", async () => {
+    for (const reply of [
+      { action: "accept", content: { confirm: false } },
+      { action: "decline" },
+      { action: "cancel" },
+      new Error("Request timed out"),
+    ] as const) {
+      const { server } = stubServer(reply);
+      await expect(createConfirmation(server)(request)).rejects.toThrow(
+        /not confirmed/,
+      );
+    }
+  });
+
+  test("uses the fallback when the client lacks elicitation", async () => {
+    const { server, sent } = stubServer();
+    await expect(
+      createConfirmation(server, undefined, "allow")(request),
+    ).resolves.toBeUndefined();
+    await expect(
+      createConfirmation(server, undefined, "deny")(request),
+    ).rejects.toThrow(/doesn't support elicitation/);
+    expect(sent).toEqual([]);
+  });
+});
+
+describe("formatConfirmationMessage", () => {
+  test("lists the affected files and summarizes the rest", () => {
+    const files = Array.from({ length: 52 }, (_, i) => `note-${i}.md`);
+    const message = formatConfirmationMessage({ action: "Delete", files });
+    expect(message).toContain("- note-49.md");
+    expect(message).not.toContain("note-50.md");
+    expect(message).toContain("…and 2 more");
+  });
+
+  test("says where deleted files can be restored from", () => {
+    const request = { action: "Delete 1 file", files: ["a.md"] };
+    expect(formatConfirmationMessage(request, ".mcp-trash")).toStartWith(
+      "Delete 1 file? They're copied to .mcp-trash/ first and can be restored with the trash tool.",
+    );
+    process.env.OBSIDIAN_MCP_TRASH_FOLDER = "off";
+    try {
+      expect(formatConfirmationMessage(request)).toStartWith(
+        "Delete 1 file? This can't be undone.",
+      );
+    } finally {
+      delete process.env.OBSIDIAN_MCP_TRASH_FOLDER;
+    }
+    expect(
+      formatConfirmationMessage(
+        { action: "Purge", files: [".mcp-trash/b/a.md"] },
+        ".mcp-trash",
+      ),
+    ).toStartWith("Purge? This can't be undone.");
+  });
+});
+
+describe("getConfirmationFallback", () => {
+  test("defaults to allow and rejects unknown values", () => {
+    expect(getConfirmationFallback(undefined)).toBe("allow");
+    expect(getConfirmationFallback(" Deny ")).toBe("deny");
+    expect(() => getConfirmationFallback("ask")).toThrow(/Valid values/);
+  });
+});
@@ -0,0 +1,126 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger";
+import { getTrashFolder, isInTrash } from "./trash";
+
+/**
+ * What to do when a destructive call can't be confirmed because the client
+ * doesn't support elicitation:
+ * - `allow`: proceed, as before elicitation was supported (default)
+ * - `deny`: refuse the call
+ */
+export type ConfirmationFallback = "allow" | "deny";
+
+const FALLBACKS: ConfirmationFallback[] = ["allow", "deny"];
+
+/** Files listed in a confirmation prompt before the rest are summarized */
+const MAX_LISTED_FILES = 50;
+
+/**
+ * A destructive action awaiting the user's confirmation
+ */
+export interface ConfirmationRequest {
+  /** What will happen, e.g. "Delete 3 files" */
+  action: string;
+  /** Vault paths affected by the action */
+  files: string[];
+}
+
+/**
+ * Asks the user to confirm a destructive action.
+ * Resolves if the call may proceed and throws McpError if it may not.
+ */
+export type Confirmation = (request: ConfirmationRequest) => Promise<void>;
+
+/**
+ * Reads the fallback from OBSIDIAN_MCP_CONFIRM_FALLBACK
+ */
+export function getConfirmationFallback(
+  value = process.env.OBSIDIAN_MCP_CONFIRM_FALLBACK,
+): ConfirmationFallback {
+  const trimmed = value?.trim().toLowerCase();
+  if (!trimmed) return "allow";
+  if (!FALLBACKS.includes(trimmed as ConfirmationFallback)) {
+    throw new Error(
+      `Invalid OBSIDIAN_MCP_CONFIRM_FALLBACK: "${value}". Valid values: ${FALLBACKS.join(", ")}`,
+    );
+  }
+  return trimmed as ConfirmationFallback;
+}
+
+/**
+ * Builds the message shown to the user, saying where the files can be
+ * restored from unless the trash is off or they're already in it
+ */
+export function formatConfirmationMessage(
+  { action, files }: ConfirmationRequest,
+  trashFolder = getTrashFolder(),
+): string {
+  const listed = files.slice(0, MAX_LISTED_FILES).map((file) => `- ${file}`);
+  if (files.length > MAX_LISTED_FILES) {
+    listed.push(`- …and ${files.length - MAX_LISTED_FILES} more`);
+  }
+  const restorable =
+    !!trashFolder && files.every((file) => !isInTrash(file, trashFolder));
+  const recovery = restorable
+    ? `They're copied to ${trashFolder}/ first and can be restored with the trash tool.`
+    : "This can't be undone.";
+  return `${action}? ${recovery}\n\n${listed.join("\n")}`;
+}
+
+/**
+ * Creates a confirmation that sends `elicitation/create` to the client.
+ * The call proceeds only if the user accepts and ticks the confirmation box;
+ * declining, cancelling or a failed request all refuse it.
+ *
+ * Clients without elicitation get the configured fallback.
+ */
+export function createConfirmation(
+  server: Server,
+  signal?: AbortSignal,
+  fallback?: ConfirmationFallback,
+): Confirmation {
+  return async (request) => {
+    if (!server.getClientCapabilities()?.elicitation) {
+      if ((fallback ?? getConfirmationFallback()) === "allow") return;
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${request.action} needs confirmation, but the client doesn't support elicitation. ` +
+          `Set OBSIDIAN_MCP_CONFIRM_FALLBACK=allow to proceed without confirmation.`,
+      );
+    }
+
+    let confirmed = false;
+    try {
+      const result = await server.elicitInput(
+        {
+          message: formatConfirmationMessage(request),
+          requestedSchema: {
+            type: "object",
+            properties: {
+              confirm: {
+                type: "boolean",
+                title: request.action,
+                description: "Tick to confirm",
+              },
+            },
+            required: ["confirm"],
+          },
+        },
+        { signal },
+      );
+      confirmed =
+        result.action === "accept" && result.content?.confirm === true;
+    } catch (error) {
+      signal?.throwIfAborted();
+      logger.warn("Confirmation request failed", { error });
+    }
+
+    if (!confirmed) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `${request.action}: not confirmed by the user. Nothing was changed.`,
+      );
+    }
+  };
+}
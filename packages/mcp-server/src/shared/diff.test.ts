@@ -0,0 +1,65 @@
+/**
+ * Tests for the unified diffs between revisions
+ */
+
+import { describe, expect, test } from "bun:test";
+import { createUnifiedDiff } from "./diff";
+
+const labels = { fromLabel: "a.md (old)", toLabel: "a.md (current)" };
+
+function lines(count: number) {
+  return Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+}
+
+describe("createUnifiedDiff", () => {
+  test("returns nothing for identical text", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  test("shows a change with three lines of context", () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = "changed";
+
+    expect(createUnifiedDiff(before.join("\n"), after.join("\n"), labels)).toBe(
+      [
+        "--- a.md (old)",
+        "+++ a.md (current)",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+changed",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("splits distant changes into hunks", () => {
+    const before = lines(20);
+    const after = [...before];
+    after[1] = "first";
+    after[18] = "second";
+
+    const diff = createUnifiedDiff(before.join("\n"), after.join("\n"));
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual([
+      "@@ -1,5 +1,5 @@",
+      "@@ -16,5 +16,5 @@",
+    ]);
+  });
+
+  test("shows added and removed lines", () => {
+    expect(createUnifiedDiff("", "new\n")).toBe(
+      ["--- a", "+++ b", "@@ -0,0 +1 @@", "+new", ""].join("\n"),
+    );
+    expect(createUnifiedDiff("a\nb\nc\n", "a\nc\nd\n")).toBe(
+      ["--- a", "+++ b", "@@ -1,3 +1,3 @@", " a", "-b", " c", "+d", ""].join(
+        "\n",
+      ),
+    );
+  });
+});
@@ -0,0 +1,174 @@
+type Edit = { type: " " | "-" | "+"; line: string };
+
+/**
+ * Beyond this many differences, the changed region is shown as removed
+ * and re-added, which keeps memory use bounded on rewritten notes
+ */
+const MAX_EDIT_DISTANCE = 2_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace, offset);
+    }
+  }
+
+  return [
+    ...a.map((line) => ({ type: "-" as const, line })),
+    ...b.map((line) => ({ type: "+" as const, line })),
+  ];
+}
+
+function backtrack(
+  a: string[],
+  b: string[],
+  trace: Int32Array[],
+  offset: number,
+): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const prevX = v[offset + prevK];
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: " ", line: a[--x] });
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) edits.push({ type: "+", line: b[--y] });
+      else edits.push({ type: "-", line: a[--x] });
+    }
+  }
+  return edits.reverse();
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+export interface UnifiedDiffOptions {
+  /** Label of the old text in the `---` header */
+  fromLabel?: string;
+  /** Label of the new text in the `+++` header */
+  toLabel?: string;
+  /** Unchanged lines shown around each change (default: 3) */
+  context?: number;
+}
+
+/**
+ * Unified diff between two texts, as produced by `diff -u`.
+ * Returns an empty string if they have the same lines.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  { fromLabel = "a", toLabel = "b", context = 3 }: UnifiedDiffOptions = {},
+): string {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Only diff the part between the common prefix and suffix
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const edits: Edit[] = [
+    ...a.slice(0, prefix).map((line) => ({ type: " " as const, line })),
+    ...diffLines(
+      a.slice(prefix, a.length - suffix),
+      b.slice(prefix, b.length - suffix),
+    ),
+    ...a.slice(a.length - suffix).map((line) => ({ type: " " as const, line })),
+  ];
+  if (edits.every((edit) => edit.type === " ")) return "";
+
+  // Line numbers (0-based) of each edit in the old and new text
+  const oldLines: number[] = [];
+  const newLines: number[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const edit of edits) {
+    oldLines.push(oldLine);
+    newLines.push(newLine);
+    if (edit.type !== "+") oldLine++;
+    if (edit.type !== "-") newLine++;
+  }
+
+  const output = [`--- ${fromLabel}`, `+++ ${toLabel}`];
+  let i = 0;
+  while (i < edits.length) {
+    while (i < edits.length && edits[i].type === " ") i++;
+    if (i >= edits.length) break;
+
+    // Extend the hunk over changes separated by little unchanged text
+    let end = i;
+    let j = i;
+    while (j < edits.length) {
+      if (edits[j].type !== " ") {
+        end = ++j;
+        continue;
+      }
+      let k = j;
+      while (k < edits.length && edits[k].type === " ") k++;
+      if (k === edits.length || k - j > 2 * context) break;
+      j = k;
+    }
+
+    const start = Math.max(0, i - context);
+    const stop = Math.min(edits.length, end + context);
+    const hunk = edits.slice(start, stop);
+    const oldCount = hunk.filter((edit) => edit.type !== "+").length;
+    const newCount = hunk.filter((edit) => edit.type !== "-").length;
+    output.push(
+      `@@ -${formatRange(oldLines[start] + (oldCount > 0 ? 1 : 0), oldCount)} +${formatRange(newLines[start] + (newCount > 0 ? 1 : 0), newCount)} @@`,
+      ...hunk.map((edit) => `${edit.type}${edit.line}`),
+    );
+    i = stop;
+  }
+  return `${output.join("\n")}\n`;
+}
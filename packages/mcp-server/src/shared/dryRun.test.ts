@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import {
+  collectDryRun,
+  formatSkippedRequest,
+  isDryRun,
+  skipForDryRun,
+} from "./dryRun";
+
+describe("isDryRun", () => {
+  test("is off unless OBSIDIAN_MCP_DRY_RUN is true", () => {
+    expect(isDryRun(undefined)).toBe(false);
+    expect(isDryRun("0")).toBe(false);
+    expect(isDryRun("true")).toBe(true);
+  });
+});
+
+describe("formatSkippedRequest", () => {
+  test("shows patch headers and content when there's no diff", () => {
+    expect(
+      formatSkippedRequest(
+        {
+          method: "PATCH",
+          path: "/vault/a.md",
+          headers: { operation: "append", target: "H" },
+          body: "new line\n",
+          summary: 'Patch a.md: append heading "H"',
+        },
+        0,
+      ),
+    ).toBe(
+      [
+        '1. Patch a.md: append heading "H" (PATCH /vault/a.md)',
+        'Headers: {"operation":"append","target":"H"}',
+        "Content:",
+        "```",
+        "new line",
+        "```",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("skipForDryRun", () => {
+  const originalFetch = globalThis.fetch;
+  const fetchMock = mock(
+    async () =>
+      new Response("one\n", { headers: { "Content-Type": "text/markdown" } }),
+  );
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "test-key";
+    fetchMock.mockClear();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("reports the skipped requests with diffs in the result", async () => {
+    const result = await collectDryRun(async () => {
+      await skipForDryRun("/vault/a.md", { method: "PUT", body: "two\n" });
+      return { content: [{ type: "text", text: "File written" }] };
+    });
+
+    // Only the current content is read
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.content).toHaveLength(2);
+    expect(result.content[1].text).toBe(
+      [
+        "Dry run (OBSIDIAN_MCP_DRY_RUN): nothing was changed. The call would have made 1 change(s):",
+        [
+          "1. Overwrite a.md (PUT /vault/a.md)",
+          "```diff",
+          "--- a.md",
+          "+++ a.md",
+          "@@ -1 +1 @@",
+          "-one",
+          "+two",
+          "```",
+        ].join("\n"),
+      ].join("\n\n"),
+    );
+  });
+
+  test("leaves results of calls that change nothing alone", async () => {
+    const result = { content: [{ type: "text", text: "Read" }] };
+    expect(await collectDryRun(async () => result)).toBe(result);
+  });
+});
@@ -0,0 +1,80 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isApprovalRequired } from "./pendingChanges";
+import { describeRequest, type DescribedRequest } from "./previewChange";
+
+/**
+ * Whether mutating requests are described instead of being sent:
+ * OBSIDIAN_MCP_DRY_RUN=true
+ */
+export function isDryRun(value = process.env.OBSIDIAN_MCP_DRY_RUN): boolean {
+  return value?.trim().toLowerCase() === "true";
+}
+
+const skippedRequests = new AsyncLocalStorage<DescribedRequest[]>();
+
+/**
+ * Why a call's changes weren't made: they were only described in a dry
+ * run, or queued for approval. Undefined when changes are made.
+ */
+export function describeUnappliedChanges(): string | undefined {
+  if (isDryRun()) return "Dry run: nothing was changed.";
+  if (isApprovalRequired()) {
+    return "The change is waiting for approval and hasn't been made yet.";
+  }
+  return undefined;
+}
+
+/**
+ * Describe a skipped request: its summary and the exact request, with the
+ * diff of the file, or the content it would have sent if there's no diff
+ */
+export function formatSkippedRequest(
+  request: DescribedRequest,
+  index: number,
+): string {
+  const lines = [
+    `${index + 1}. ${request.summary} (${request.method} ${request.path})`,
+  ];
+  if (request.method === "PATCH") {
+    lines.push(`Headers: ${JSON.stringify(request.headers)}`);
+  }
+  if (request.diff) {
+    lines.push("```diff", request.diff.trimEnd(), "```");
+  } else if (request.body) {
+    lines.push("Content:", "```", request.body.trimEnd(), "```");
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Run a tool call, adding what it would have changed to its result
+ */
+export async function collectDryRun<T>(run: () => Promise<T>): Promise<T> {
+  const requests: DescribedRequest[] = [];
+  const result = await skippedRequests.run(requests, run);
+  const content = (result as { content?: unknown } | undefined)?.content;
+  if (requests.length === 0 || !Array.isArray(content)) return result;
+
+  const report = {
+    type: "text",
+    text: [
+      `Dry run (OBSIDIAN_MCP_DRY_RUN): nothing was changed. The call would have made ${requests.length} change(s):`,
+      ...requests.map(formatSkippedRequest),
+    ].join("\n\n"),
+  };
+  return { ...result, content: [...content, report] } as T;
+}
+
+/**
+ * Record a mutating request instead of sending it (see `describeRequest`)
+ *
+ * @returns What the request would have returned, as far as it's known
+ */
+export async function skipForDryRun(
+  path: string,
+  init: RequestInit = {},
+): Promise<unknown> {
+  const { request, response } = await describeRequest(path, init);
+  skippedRequests.getStore()?.push(request);
+  return response;
+}
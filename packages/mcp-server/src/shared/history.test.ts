@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createRevisionId,
+  getHistoryFolder,
+  getHistoryLimit,
+  getRevisionPath,
+  isInHistory,
+  REVISION_ID,
+} from "./history";
+
+describe("getHistoryFolder", () => {
+  test("defaults to .mcp-history and can be turned off", () => {
+    expect(getHistoryFolder(undefined)).toBe(".mcp-history");
+    expect(getHistoryFolder("/Archive/History/")).toBe("Archive/History");
+    expect(getHistoryFolder("off")).toBeUndefined();
+  });
+});
+
+describe("getHistoryLimit", () => {
+  test("defaults to 20 revisions per note", () => {
+    expect(getHistoryLimit(undefined)).toBe(20);
+    expect(getHistoryLimit("5")).toBe(5);
+  });
+
+  test("throws on anything but a positive integer", () => {
+    expect(() => getHistoryLimit("0")).toThrow(/OBSIDIAN_MCP_HISTORY_LIMIT/);
+    expect(() => getHistoryLimit("many")).toThrow();
+    expect(() => getHistoryLimit("2.5")).toThrow();
+  });
+});
+
+describe("revisions", () => {
+  test("are stored under the note's path, named after the time", () => {
+    const revision = createRevisionId(new Date("2024-05-01T10:20:30.456Z"));
+    expect(revision).toBe("2024-05-01T10-20-30-456Z");
+    expect(REVISION_ID.test(revision)).toBe(true);
+    expect(getRevisionPath(".mcp-history", "Inbox/a.md", revision)).toBe(
+      ".mcp-history/Inbox/a.md/2024-05-01T10-20-30-456Z.md",
+    );
+  });
+
+  test("aren't kept for files in the history folder", () => {
+    expect(isInHistory(".mcp-history/a.md/x.md", ".mcp-history")).toBe(true);
+    expect(isInHistory("Inbox/a.md", ".mcp-history")).toBe(false);
+    expect(isInHistory("Inbox/a.md", undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import { LocalRestAPI } from "shared";
+import { isDryRun } from "./dryRun";
+import { encodeVaultPath, listVaultFiles } from "./listVaultFiles";
+import { logger } from "./logger";
+import { makeRequest } from "./makeRequest";
+import { withMcpFolderAccess } from "./mcpFolders";
+import { isApprovalRequired, proposeBackup } from "./pendingChanges";
+import { isInTrash } from "./trash";
+
+/** Vault folder revisions of edited notes are kept in by default */
+export const DEFAULT_HISTORY_FOLDER = ".mcp-history";
+
+/** Revisions kept per note by default */
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+/** A revision ID: the time it was saved, e.g. `2024-05-01T10-00-00-000Z` */
+export const REVISION_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z$/;
+
+/**
+ * Vault folder of the revision history: OBSIDIAN_MCP_HISTORY_FOLDER, or
+ * `.mcp-history`. Returns undefined if history is turned off with "off".
+ */
+export function getHistoryFolder(
+  value = process.env.OBSIDIAN_MCP_HISTORY_FOLDER,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (trimmed?.toLowerCase() === "off") return undefined;
+  return trimmed?.replace(/^\/+|\/+$/g, "") || DEFAULT_HISTORY_FOLDER;
+}
+
+/**
+ * Revisions kept per note: OBSIDIAN_MCP_HISTORY_LIMIT, or 20
+ *
+ * @throws Error if the limit isn't a positive integer
+ */
+export function getHistoryLimit(
+  value = process.env.OBSIDIAN_MCP_HISTORY_LIMIT,
+): number {
+  const trimmed = value?.trim();
+  if (!trimmed) return DEFAULT_HISTORY_LIMIT;
+  const limit = Number(trimmed);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(
+      `Invalid OBSIDIAN_MCP_HISTORY_LIMIT: "${value}". Use a positive number of revisions per note.`,
+    );
+  }
+  return limit;
+}
+
+/**
+ * Whether a vault path is inside the history folder
+ */
+export function isInHistory(
+  path: string,
+  folder = getHistoryFolder(),
+): boolean {
+  return !!folder && (path === folder || path.startsWith(`${folder}/`));
+}
+
+/**
+ * ID of a revision saved at `now`
+ */
+export function createRevisionId(now = new Date()): string {
+  return now.toISOString().replace(/[:.]/g, "-");
+}
+
+/**
+ * Vault path of a note's revision, e.g.
+ * `.mcp-history/Inbox/note.md/2024-05-01T10-00-00-000Z.md`
+ */
+export function getRevisionPath(
+  folder: string,
+  path: string,
+  revision: string,
+): string {
+  return `${folder}/${path}/${revision}.md`;
+}
+
+/**
+ * IDs of a note's saved revisions, oldest first
+ */
+export async function listRevisionIds(
+  folder: string,
+  path: string,
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const prefix = `${folder}/${path}/`;
+  let files: string[];
+  try {
+    files = await listVaultFiles(`${folder}/${path}`, signal);
+  } catch (error) {
+    // The note has no history yet
+    if (error instanceof Error && / 404:/.test(error.message)) return [];
+    throw error;
+  }
+  return files
+    .map((file) => file.slice(prefix.length).replace(/\.md$/, ""))
+    .filter((revision) => REVISION_ID.test(revision))
+    .sort();
+}
+
+/**
+ * Save a note's current content as a revision before an edit replaces it,
+ * then drop the oldest revisions beyond the limit. Does nothing for new
+ * files, files in the history or trash folders, or during a dry run. While
+ * changes require approval, the revision is saved when the change is
+ * approved instead (see `proposeBackup`).
+ *
+ * @returns The revision's ID, or undefined if nothing was saved
+ */
+export async function saveRevision(
+  path: string,
+  signal?: AbortSignal,
+): Promise<string | undefined> {
+  const folder = getHistoryFolder();
+  if (!folder || isInHistory(path, folder) || isInTrash(path) || isDryRun()) {
+    return undefined;
+  }
+  if (isApprovalRequired()) {
+    proposeBackup({ type: "revision", path, folder, limit: getHistoryLimit() });
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = await makeRequest(
+      LocalRestAPI.ApiContentResponse,
+      `/vault/${encodeVaultPath(path)}`,
+      { headers: { Accept: "text/markdown" }, signal },
+    );
+  } catch {
+    // A new file has no earlier revision
+    return undefined;
+  }
+
+  const revision = createRevisionId();
+  await withMcpFolderAccess(async () => {
+    await makeRequest(
+      LocalRestAPI.ApiNoContentResponse,
+      `/vault/${encodeVaultPath(getRevisionPath(folder, path, revision))}`,
+      { method: "PUT", body: content, signal },
+    );
+
+    // A failed cleanup leaves extra revisions, which the next save removes
+    try {
+      const revisions = await listRevisionIds(folder, path, signal);
+      const excess = revisions.slice(0, -getHistoryLimit());
+      for (const old of excess) {
+        await makeRequest(
+          LocalRestAPI.ApiNoContentResponse,
+          `/vault/${encodeVaultPath(getRevisionPath(folder, path, old))}`,
+          { method: "DELETE", signal },
+        );
+      }
+    } catch (error) {
+      logger.warn("Failed to prune revision history", { path, error });
+    }
+  });
+  return revision;
+}
@@ -1,9 +1,24 @@
 export * from "../auth/scopes";
+export * from "./audit";
+export * from "./confirm";
+export * from "./diff";
+export * from "./dryRun";
 export * from "./formatMcpError";
 export * from "./formatString";
+export * from "./history";
+export * from "./listVaultFiles";
 export * from "./logger";
 export * from "./makeRequest";
+export * from "./mcpFolders";
 export * from "./mcpTags";
 export * from "./parseTemplateParameters";
+export * from "./pendingChanges";
+export * from "./previewChange";
+export * from "./progress";
+export * from "./rateLimit";
+export * from "./requireActiveFileScope";
+export * from "./toolAnnotations";
+export * from "./trash";
 export * from "./ToolRegistry";
 export * from "./validatePath";
+export * from "./vaults";
@@ -0,0 +1,41 @@
+import { LocalRestAPI } from "shared";
+import { makeRequest } from "./makeRequest";
+
+/**
+ * Encodes each segment of a vault-relative path for use in a URL,
+ * leaving the "/" separators intact.
+ */
+export function encodeVaultPath(path: string): string {
+  return path.split("/").map(encodeURIComponent).join("/");
+}
+
+/**
+ * Recursively lists every file in the vault (or below a directory).
+ *
+ * The Local REST API only lists one directory level at a time and marks
+ * subdirectories with a trailing "/", so subdirectories are walked in parallel.
+ *
+ * @param directory - Vault-relative directory to start from (default: vault root)
+ * @param signal - Stops walking the vault when aborted
+ * @returns Vault-relative file paths
+ */
+export async function listVaultFiles(
+  directory = "",
+  signal?: AbortSignal,
+): Promise<string[]> {
+  const prefix = directory ? `${directory.replace(/\/+$/, "")}/` : "";
+  const { files } = await makeRequest(
+    LocalRestAPI.ApiVaultDirectoryResponse,
+    `/vault/${encodeVaultPath(prefix)}`,
+    { signal },
+  );
+
+  const nested = await Promise.all(
+    files.map(async (entry) =>
+      entry.endsWith("/")
+        ? listVaultFiles(`${prefix}${entry.slice(0, -1)}`, signal)
+        : [`${prefix}${entry}`],
+    ),
+  );
+  return nested.flat();
+}
@@ -10,3 +10,7 @@ export const logger = createLogger({
   filename: "mcp-server-obsidian-mcp-tools.log",
   level: process.env.NODE_ENV === "production" ? "INFO" : "DEBUG",
 });
+
+/** Keys whose values are never logged or sent to clients */
+export const SECRET_KEY =
+  /api[-_]?key|token|secret|password|authorization|^env$/i;
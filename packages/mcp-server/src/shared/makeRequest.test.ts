@@ -0,0 +1,97 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { type } from "arktype";
+import { makeRequest } from "./makeRequest";
+import { withMcpFolderAccess } from "./mcpFolders";
+
+describe("makeRequest", () => {
+  const originalFetch = globalThis.fetch;
+  const fetchMock = mock(
+    async () =>
+      new Response(JSON.stringify({ ok: true }), {
+        headers: { "Content-Type": "application/json" },
+      }),
+  );
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "test-key";
+    fetchMock.mockClear();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("passes the abort signal to fetch", async () => {
+    const controller = new AbortController();
+    await makeRequest(type({ ok: "boolean" }), "/", {
+      signal: controller.signal,
+    });
+    const init = (fetchMock.mock.calls[0] as unknown[])[1] as RequestInit;
+    expect(init.signal).toBe(controller.signal);
+  });
+
+  test("does not send a request once the signal is aborted", async () => {
+    const controller = new AbortController();
+    controller.abort(new Error("Cancelled by client"));
+
+    await expect(
+      makeRequest(type({ ok: "boolean" }), "/", { signal: controller.signal }),
+    ).rejects.toThrow("Cancelled by client");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("only reads the file during a dry run", async () => {
+    fetchMock.mockImplementationOnce(
+      async () =>
+        new Response("old\n", {
+          headers: { "Content-Type": "text/markdown" },
+        }),
+    );
+    process.env.OBSIDIAN_MCP_DRY_RUN = "true";
+    try {
+      await makeRequest(type("unknown"), "/vault/a.md", {
+        method: "DELETE",
+      });
+    } finally {
+      delete process.env.OBSIDIAN_MCP_DRY_RUN;
+    }
+    const [url, init] = fetchMock.mock.calls[0] as unknown[];
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(url).toEndWith("/vault/a.md");
+    expect((init as RequestInit).method).toBeUndefined();
+  });
+
+  test("refuses to change the trash and history folders", async () => {
+    for (const path of [
+      "/vault/.mcp-trash/2024-05-01T10-00-00-000Z/a.md",
+      "/vault/.MCP-History/a.md/2024-05-01T10-00-00-000Z.md",
+      "/vault/.mcp-trash/",
+    ]) {
+      await expect(
+        makeRequest(type("unknown"), path, { method: "DELETE" }),
+      ).rejects.toThrow(/only the trash and history tools can change/);
+    }
+    await expect(
+      makeRequest(type("unknown"), "/templates/execute", {
+        method: "POST",
+        body: JSON.stringify({
+          name: "Templates/Daily.md",
+          arguments: {},
+          createFile: true,
+          targetPath: ".mcp-history/a.md",
+        }),
+      }),
+    ).rejects.toThrow(/only the trash and history tools can change/);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  test("lets the trash and history features change their folders", async () => {
+    await withMcpFolderAccess(() =>
+      makeRequest(type("unknown"), "/vault/.mcp-trash/b/a.md", {
+        method: "DELETE",
+      }),
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,22 +1,30 @@
 import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { type, type Type } from "arktype";
+import { isDryRun, skipForDryRun } from "./dryRun";
 import { logger } from "./logger";
-
-// Default to HTTPS port, fallback to HTTP if specified
-const USE_HTTP = process.env.OBSIDIAN_USE_HTTP === "true";
-const PORT = USE_HTTP ? 27123 : 27124;
-const PROTOCOL = USE_HTTP ? "http" : "https";
-const HOST = process.env.OBSIDIAN_HOST || "127.0.0.1";
-export const BASE_URL = `${PROTOCOL}://${HOST}:${PORT}`;
+import { assertNotInMcpFolder } from "./mcpFolders";
+import { isApprovalRequired, queueForApproval } from "./pendingChanges";
+import { getRequestTargetPath, isMutatingRequest } from "./previewChange";
+import { getVaultConnection, getVaultUrl } from "./vaults";
 
 // Disable TLS certificate validation for local self-signed certificates
 process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
 
 /**
  * Makes a request to the Obsidian Local REST API with the provided path and optional request options.
- * Automatically adds the required API key to the request headers.
+ * The request goes to the vault selected with `withVault` (or the default
+ * connection) and automatically carries that vault's API key.
  * Throws an `McpError` if the API response is not successful.
  *
+ * Pass `init.signal` to cancel the request; if the signal is already aborted,
+ * no request is made and the abort reason is thrown.
+ *
+ * Requests that change the vault aren't sent during a dry run
+ * (OBSIDIAN_MCP_DRY_RUN, see `skipForDryRun`), and are proposed in Obsidian
+ * instead while OBSIDIAN_MCP_REQUIRE_APPROVAL is on (see `queueForApproval`).
+ * They're refused for the trash and history folders, except from the trash
+ * and history features (see `withMcpFolderAccess`).
+ *
  * @param path - The path to the Obsidian API endpoint.
  * @param init - Optional request options to pass to the `fetch` function.
  * @returns The response from the Obsidian API.
@@ -24,23 +32,30 @@ process.env.NODE_TLS_REJECT_UNAUTHORIZED = "0";
 
 export async function makeRequest<
   T extends
-  | Type<{}, {}>
-  | Type<null | undefined, {}>
-  | Type<{} | null | undefined, {}>,
+    | Type<{}, {}>
+    | Type<null | undefined, {}>
+    | Type<{} | null | undefined, {}>,
 >(schema: T, path: string, init?: RequestInit): Promise<T["infer"]> {
-  const API_KEY = process.env.OBSIDIAN_API_KEY;
-  if (!API_KEY) {
-    logger.error("OBSIDIAN_API_KEY environment variable is required", {
-      env: process.env,
-    });
-    throw new Error("OBSIDIAN_API_KEY environment variable is required");
+  init?.signal?.throwIfAborted();
+  if (isMutatingRequest(path, init)) {
+    assertNotInMcpFolder(getRequestTargetPath(path, init));
+    if (isDryRun()) return skipForDryRun(path, init);
+    if (isApprovalRequired()) return queueForApproval(path, init);
+  }
+
+  let connection;
+  try {
+    connection = getVaultConnection();
+  } catch (error) {
+    logger.error("No vault connection for request", { error });
+    throw error;
   }
 
-  const url = `${BASE_URL}${path}`;
+  const url = `${getVaultUrl(connection)}${path}`;
   const response = await fetch(url, {
     ...init,
     headers: {
-      Authorization: `Bearer ${API_KEY}`,
+      Authorization: `Bearer ${connection.apiKey}`,
       "Content-Type": "text/markdown",
       ...init?.headers,
     },
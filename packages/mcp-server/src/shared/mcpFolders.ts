@@ -0,0 +1,43 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { getHistoryFolder } from "./history";
+import { getTrashFolder } from "./trash";
+
+const mcpFolderAccess = new AsyncLocalStorage<boolean>();
+
+/**
+ * Whether a vault path is in the trash or history folder, ignoring case
+ * like the file systems vaults usually live on
+ */
+export function isInMcpFolder(path: string): boolean {
+  const target = path.replace(/^(\.?\/)+/, "").toLowerCase();
+  return [getTrashFolder(), getHistoryFolder()].some((folder) => {
+    const prefix = folder?.toLowerCase();
+    return !!prefix && (target === prefix || target.startsWith(`${prefix}/`));
+  });
+}
+
+/**
+ * Run code that may change the trash and history folders: the trash tool,
+ * and the copies and revisions saved before a change
+ */
+export function withMcpFolderAccess<T>(run: () => Promise<T>): Promise<T> {
+  return mcpFolderAccess.run(true, run);
+}
+
+/**
+ * Refuse a change to the trash or history folder, so writes, moves,
+ * deletes and templates can't destroy the copies kept there. Only code run
+ * with `withMcpFolderAccess` may change them.
+ *
+ * @throws McpError if the path is in either folder
+ */
+export function assertNotInMcpFolder(path: string | undefined): void {
+  if (path === undefined || mcpFolderAccess.getStore()) return;
+  if (isInMcpFolder(path)) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${path} is in the trash or history folder, which only the trash and history tools can change`,
+    );
+  }
+}
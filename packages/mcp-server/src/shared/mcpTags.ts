@@ -31,17 +31,22 @@ export type McpTag = (typeof MCP_TAGS)[keyof typeof MCP_TAGS];
  * Fetches tags for a file from the vault.
  * Returns empty array if file has no tags or doesn't exist.
  */
-export async function getFileTags(filePath: string): Promise<string[]> {
+export async function getFileTags(
+  filePath: string,
+  signal?: AbortSignal,
+): Promise<string[]> {
   try {
     const data = await makeRequest(
       LocalRestAPI.ApiNoteJson,
       `/vault/${encodeURIComponent(filePath)}`,
       {
         headers: { Accept: "application/vnd.olrapi.note+json" },
+        signal,
       },
     );
     return data.tags ?? [];
   } catch {
+    signal?.throwIfAborted();
     // File doesn't exist or can't be read - no tags
     return [];
   }
@@ -50,8 +55,12 @@ export async function getFileTags(filePath: string): Promise<string[]> {
 /**
  * Checks if a file has a specific MCP protection tag.
  */
-export async function hasTag(filePath: string, tag: McpTag): Promise<boolean> {
-  const tags = await getFileTags(filePath);
+export async function hasTag(
+  filePath: string,
+  tag: McpTag,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  const tags = await getFileTags(filePath, signal);
   return tags.includes(tag);
 }
 
@@ -59,8 +68,11 @@ export async function hasTag(filePath: string, tag: McpTag): Promise<boolean> {
  * Checks if a file is protected from deletion.
  * Throws McpError if file is protected.
  */
-export async function assertNotProtected(filePath: string): Promise<void> {
-  if (await hasTag(filePath, MCP_TAGS.PROTECTED)) {
+export async function assertNotProtected(
+  filePath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (await hasTag(filePath, MCP_TAGS.PROTECTED, signal)) {
     throw new McpError(
       ErrorCode.InvalidRequest,
       `File "${filePath}" is protected (has ${MCP_TAGS.PROTECTED} tag)`,
@@ -72,8 +84,11 @@ export async function assertNotProtected(filePath: string): Promise<void> {
  * Checks if a file is read-only.
  * Throws McpError if file is read-only.
  */
-export async function assertNotReadonly(filePath: string): Promise<void> {
-  if (await hasTag(filePath, MCP_TAGS.READONLY)) {
+export async function assertNotReadonly(
+  filePath: string,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (await hasTag(filePath, MCP_TAGS.READONLY, signal)) {
     throw new McpError(
       ErrorCode.InvalidRequest,
       `File "${filePath}" is read-only (has ${MCP_TAGS.READONLY} tag)`,
@@ -0,0 +1,85 @@
+import { describe, expect, test } from "bun:test";
+import { patchContent, type ContentPatch } from "./patchContent";
+
+const NOTE = [
+  "---",
+  "tags:",
+  "  - a",
+  "title: Old",
+  "---",
+  "# Plan",
+  "",
+  "## Risks",
+  "",
+  "- late",
+  "",
+  "## Next",
+  "",
+  "Ship it ^ship",
+  "",
+  "```",
+  "# not a heading",
+  "```",
+  "",
+].join("\n");
+
+function patch(changes: Partial<ContentPatch>) {
+  return patchContent(NOTE, {
+    operation: "append",
+    targetType: "heading",
+    target: "Plan::Risks",
+    content: "- scope\n",
+    ...changes,
+  });
+}
+
+describe("patchContent", () => {
+  test("appends to, prepends to and replaces a heading's section", () => {
+    expect(patch({})).toContain("## Risks\n\n- late\n- scope\n\n## Next");
+    expect(patch({ operation: "prepend" })).toContain(
+      "## Risks\n- scope\n\n- late\n",
+    );
+    expect(
+      patch({
+        operation: "replace",
+        target: "Plan / Next",
+        targetDelimiter: " / ",
+      }),
+    ).toEndWith("## Next\n- scope\n");
+  });
+
+  test("patches blocks, keeping the reference of a replaced block", () => {
+    expect(patch({ targetType: "block", target: "ship" })).toContain(
+      "Ship it ^ship\n- scope\n",
+    );
+    expect(
+      patch({
+        operation: "replace",
+        targetType: "block",
+        target: "ship",
+        content: "Wait",
+      }),
+    ).toContain("\nWait ^ship\n");
+  });
+
+  test("patches frontmatter fields", () => {
+    expect(
+      patch({ targetType: "frontmatter", target: "tags", content: "b" }),
+    ).toStartWith("---\ntags:\n  - a\n  - b\ntitle: Old\n---\n");
+    expect(
+      patch({
+        operation: "replace",
+        targetType: "frontmatter",
+        target: "count",
+        content: "3",
+        contentType: "application/json",
+      }),
+    ).toStartWith("---\ntags:\n  - a\ntitle: Old\ncount: 3\n---\n");
+  });
+
+  test("gives up on targets it can't find", () => {
+    expect(patch({ target: "Missing" })).toBeUndefined();
+    expect(patch({ target: "not a heading" })).toBeUndefined();
+    expect(patch({ targetType: "block", target: "nope" })).toBeUndefined();
+  });
+});
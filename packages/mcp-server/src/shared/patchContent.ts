@@ -0,0 +1,247 @@
+/**
+ * A Local REST API patch: what to insert and where, as sent in the
+ * `Operation`, `Target-Type`, `Target`, `Target-Delimiter`,
+ * `Trim-Target-Whitespace` and `Content-Type` headers
+ */
+export interface ContentPatch {
+  operation: string;
+  targetType: string;
+  target: string;
+  targetDelimiter?: string;
+  trimTargetWhitespace?: boolean;
+  contentType?: string;
+  content: string;
+}
+
+const HEADING = /^(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const FENCE = /^[ \t]*(```|~~~)/;
+
+/**
+ * Ensure text ends with a line break, so inserted lines stay lines
+ */
+function asLines(text: string): string {
+  return text === "" || text.endsWith("\n") ? text : `${text}\n`;
+}
+
+function insert(
+  lines: string[],
+  start: number,
+  end: number,
+  operation: string,
+  content: string,
+): string[] | undefined {
+  const inserted = asLines(content).split("\n").slice(0, -1);
+  switch (operation) {
+    case "append":
+      return [...lines.slice(0, end), ...inserted, ...lines.slice(end)];
+    case "prepend":
+      return [...lines.slice(0, start), ...inserted, ...lines.slice(start)];
+    case "replace":
+      return [...lines.slice(0, start), ...inserted, ...lines.slice(end)];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Lines of the section under a heading path such as "Plan::Risks":
+ * from the line after the heading to the next heading of the same or a
+ * higher level. Headings in code blocks don't count.
+ */
+function findSection(
+  lines: string[],
+  path: string[],
+): { start: number; end: number } | undefined {
+  const stack: Array<{ level: number; title: string }> = [];
+  let inFence = false;
+  let found: { start: number; level: number } | undefined;
+
+  for (const [index, line] of lines.entries()) {
+    if (FENCE.test(line)) inFence = !inFence;
+    const match = inFence ? null : HEADING.exec(line);
+    if (!match) continue;
+
+    const level = match[1].length;
+    if (found && level <= found.level) {
+      return { start: found.start, end: index };
+    }
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    stack.push({ level, title: match[2] });
+    if (
+      !found &&
+      stack.length === path.length &&
+      stack.every(({ title }, depth) => title === path[depth])
+    ) {
+      found = { start: index + 1, level };
+    }
+  }
+  return found && { start: found.start, end: lines.length };
+}
+
+/**
+ * Lines of the paragraph or list item that ends with the block reference
+ * `^id`
+ */
+function findBlock(
+  lines: string[],
+  id: string,
+): { start: number; end: number } | undefined {
+  const reference = new RegExp(
+    `(?:^|\\s)\\^${id.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`,
+  );
+  const end = lines.findIndex((line) => reference.test(line));
+  if (end === -1) return undefined;
+
+  let start = end;
+  while (
+    start > 0 &&
+    lines[start - 1].trim() !== "" &&
+    !HEADING.test(lines[start - 1]) &&
+    !/^\s*([-*+]|\d+\.)\s/.test(lines[start])
+  ) {
+    start--;
+  }
+  return { start, end: end + 1 };
+}
+
+/**
+ * YAML for a frontmatter value; JSON is valid YAML, so anything but a
+ * plain string is written as JSON
+ */
+function formatYamlValue(value: unknown): string {
+  if (typeof value === "string" && /^[\w][\w .,/-]*$/.test(value)) {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function parseYamlScalar(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value.replace(/^(["'])(.*)\1$/, "$2");
+  }
+}
+
+/**
+ * Patch a top-level frontmatter field. Values are taken as JSON with
+ * `Content-Type: application/json`, else as text. Appending or
+ * prepending adds to a list, or to the end or start of a text.
+ */
+function patchFrontmatter(
+  lines: string[],
+  patch: ContentPatch,
+  field: string,
+): string[] | undefined {
+  const hasFrontmatter = lines[0] === "---";
+  const close = hasFrontmatter ? lines.indexOf("---", 1) : -1;
+  if (hasFrontmatter && close === -1) return undefined;
+  const body = hasFrontmatter ? lines.slice(1, close) : [];
+  const rest = hasFrontmatter ? lines.slice(close + 1) : lines;
+
+  let value: unknown = patch.content;
+  if (patch.contentType?.includes("json")) {
+    try {
+      value = JSON.parse(patch.content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  const start = body.findIndex((line) => line.startsWith(`${field}:`));
+  let end = start + 1;
+  while (start !== -1 && end < body.length && /^\s|^-\s/.test(body[end])) {
+    end++;
+  }
+
+  let blockList = false;
+  if (start !== -1 && patch.operation !== "replace") {
+    const inline = body[start].slice(field.length + 1).trim();
+    const items = body.slice(start + 1, end).map((line) => line.trim());
+    let current: unknown;
+    if (inline === "" && items.every((line) => line.startsWith("- "))) {
+      current = items.map((line) => parseYamlScalar(line.slice(2).trim()));
+      blockList = true;
+    } else if (items.length === 0) {
+      current = parseYamlScalar(inline);
+    } else {
+      return undefined;
+    }
+
+    if (Array.isArray(current)) {
+      const added = Array.isArray(value) ? value : [value];
+      value =
+        patch.operation === "append"
+          ? [...current, ...added]
+          : [...added, ...current];
+    } else if (typeof current === "string" && typeof value === "string") {
+      value = patch.operation === "append" ? current + value : value + current;
+    } else {
+      return undefined;
+    }
+  } else if (!["append", "prepend", "replace"].includes(patch.operation)) {
+    return undefined;
+  }
+
+  // Lists written one item per line stay that way
+  const updated =
+    blockList && Array.isArray(value)
+      ? [`${field}:`, ...value.map((item) => `  - ${formatYamlValue(item)}`)]
+      : [`${field}: ${formatYamlValue(value)}`];
+  const patched =
+    start === -1
+      ? [...body, ...updated]
+      : [...body.slice(0, start), ...updated, ...body.slice(end)];
+  return ["---", ...patched, "---", ...rest];
+}
+
+/**
+ * Work out a note's content after a Local REST API patch, to preview it.
+ * Heading, block and frontmatter targets are supported like the Local
+ * REST API does; a target that isn't found isn't created.
+ *
+ * @returns The patched content, or undefined if the patch can't be worked
+ *   out
+ */
+export function patchContent(
+  content: string,
+  patch: ContentPatch,
+): string | undefined {
+  const lines = content.split("\n");
+  const target = patch.trimTargetWhitespace
+    ? patch.target.trim()
+    : patch.target;
+
+  let patched: string[] | undefined;
+  if (patch.targetType === "frontmatter") {
+    patched = patchFrontmatter(lines, patch, target);
+  } else {
+    const range =
+      patch.targetType === "heading"
+        ? findSection(
+            lines,
+            target
+              .split(patch.targetDelimiter || "::")
+              .map((part) => (patch.trimTargetWhitespace ? part.trim() : part)),
+          )
+        : patch.targetType === "block"
+          ? findBlock(lines, target)
+          : undefined;
+    if (!range) return undefined;
+
+    // Keep the blank lines before the next heading after the section
+    let { end } = range;
+    if (patch.targetType === "heading" && patch.operation !== "prepend") {
+      while (end > range.start && lines[end - 1].trim() === "") end--;
+    }
+    // A replaced block keeps its reference
+    const inserted =
+      patch.targetType === "block" && patch.operation === "replace"
+        ? `${patch.content.trimEnd()} ^${target}`
+        : patch.content;
+    patched = insert(lines, range.start, end, patch.operation, inserted);
+  }
+  return patched?.join("\n");
+}
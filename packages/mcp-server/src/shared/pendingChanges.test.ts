@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import {
+  collectPendingChanges,
+  groupPendingChanges,
+  isApprovalRequired,
+  queueForApproval,
+} from "./pendingChanges";
+import { copyToTrash } from "./trash";
+
+describe("isApprovalRequired", () => {
+  test("is off unless OBSIDIAN_MCP_REQUIRE_APPROVAL is true", () => {
+    expect(isApprovalRequired(undefined)).toBe(false);
+    expect(isApprovalRequired("false")).toBe(false);
+    expect(isApprovalRequired(" TRUE ")).toBe(true);
+  });
+});
+
+describe("queueForApproval", () => {
+  const originalFetch = globalThis.fetch;
+  const fetchMock = mock(async (url: string, init?: RequestInit) => {
+    if (url.endsWith("/vault/Inbox/a.md")) {
+      return new Response("one\n", {
+        headers: { "Content-Type": "text/markdown" },
+      });
+    }
+    if (url.endsWith("/mcp-tools/pending-changes")) {
+      const change = JSON.parse(init?.body as string);
+      return Response.json({
+        ...change,
+        id: "change-1",
+        status: "pending",
+        createdAt: "2024-05-01T10:00:00.000Z",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  });
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "test-key";
+    fetchMock.mockClear();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  function proposed() {
+    const [, init] = fetchMock.mock.calls.at(-1) as [string, RequestInit];
+    return JSON.parse(init.body as string);
+  }
+
+  test("proposes the request with a diff instead of sending it", async () => {
+    const result = await collectPendingChanges("vault", async () => {
+      await queueForApproval("/vault/Inbox/a.md", {
+        method: "POST",
+        body: "two\n",
+      });
+      return { content: [{ type: "text", text: "Appended" }] };
+    });
+
+    expect(proposed()).toEqual({
+      method: "POST",
+      path: "/vault/Inbox/a.md",
+      headers: { "content-type": "text/markdown" },
+      body: "two\n",
+      tool: "vault",
+      summary: "Append to Inbox/a.md",
+      diff: [
+        "--- Inbox/a.md",
+        "+++ Inbox/a.md",
+        "@@ -1 +1,2 @@",
+        " one",
+        "+two",
+        "",
+      ].join("\n"),
+    });
+    expect(
+      fetchMock.mock.calls.some(
+        ([url, init]) =>
+          url.endsWith("/vault/Inbox/a.md") && init?.method === "POST",
+      ),
+    ).toBe(false);
+    expect(result.content[1].text).toContain("change-1");
+  });
+
+  test("leaves the trash copy of a queued delete for approval", async () => {
+    const original = process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL;
+    process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL = "true";
+    try {
+      await collectPendingChanges("vault", async () => {
+        const batch = "2024-05-01T10-00-00-000Z";
+        expect(await copyToTrash("Inbox/a.md", batch)).toBeUndefined();
+        await queueForApproval("/vault/Inbox/a.md", { method: "DELETE" });
+        return { content: [] };
+      });
+    } finally {
+      if (original === undefined) {
+        delete process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL;
+      } else {
+        process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL = original;
+      }
+    }
+
+    expect(proposed().backups).toEqual([
+      {
+        type: "trash",
+        path: "Inbox/a.md",
+        folder: ".mcp-trash",
+        batch: "2024-05-01T10-00-00-000Z",
+      },
+    ]);
+    expect(
+      fetchMock.mock.calls.some(([, init]) => init?.method === "PUT"),
+    ).toBe(false);
+  });
+
+  test("links the changes of a group", async () => {
+    await groupPendingChanges(async () => {
+      await queueForApproval("/vault/Inbox/b.md", { method: "PUT", body: "" });
+      await queueForApproval("/vault/Inbox/a.md", { method: "DELETE" });
+    });
+    await queueForApproval("/vault/Inbox/a.md", { method: "DELETE" });
+
+    const [move, remove, other] = fetchMock.mock.calls
+      .filter(([url]) => url.endsWith("/mcp-tools/pending-changes"))
+      .map(([, init]) => JSON.parse(init?.body as string));
+    expect(move.group).toBeString();
+    expect(remove.group).toBe(move.group);
+    expect(other.group).toBeUndefined();
+  });
+});
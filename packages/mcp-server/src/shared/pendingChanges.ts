@@ -0,0 +1,115 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import { LocalRestAPI } from "shared";
+import { makeRequest } from "./makeRequest";
+import { describeRequest, getRequestVaultPath } from "./previewChange";
+
+/** Route of the MCP Tools plugin's queue of proposed changes */
+export const PENDING_CHANGES_ROUTE = "/mcp-tools/pending-changes";
+
+/**
+ * Whether mutating requests are queued for approval in Obsidian instead of
+ * being sent: OBSIDIAN_MCP_REQUIRE_APPROVAL=true
+ */
+export function isApprovalRequired(
+  value = process.env.OBSIDIAN_MCP_REQUIRE_APPROVAL,
+): boolean {
+  return value?.trim().toLowerCase() === "true";
+}
+
+const currentCall = new AsyncLocalStorage<{
+  tool: string;
+  ids: string[];
+  backups: LocalRestAPI.ApiPendingChangeBackupType[];
+}>();
+
+const currentGroup = new AsyncLocalStorage<string>();
+
+/**
+ * Run requests that only make sense together, like the write and delete of
+ * a move. If they're queued, they're approved or rejected as one.
+ */
+export function groupPendingChanges<T>(run: () => Promise<T>): Promise<T> {
+  return currentGroup.run(randomUUID(), run);
+}
+
+/**
+ * Run a tool call, noting any changes it proposed in its result so the
+ * client knows they're waiting for approval
+ */
+export async function collectPendingChanges<T>(
+  tool: string,
+  run: () => Promise<T>,
+): Promise<T> {
+  const call = {
+    tool,
+    ids: [] as string[],
+    backups: [] as LocalRestAPI.ApiPendingChangeBackupType[],
+  };
+  const result = await currentCall.run(call, run);
+  const content = (result as { content?: unknown } | undefined)?.content;
+  if (call.ids.length === 0 || !Array.isArray(content)) return result;
+
+  const note = {
+    type: "text",
+    text: `${call.ids.length} change(s) are waiting for approval in Obsidian and haven't been applied yet: ${call.ids.join(", ")}. Use the pending_changes tool to check on them.`,
+  };
+  return { ...result, content: [...content, note] } as T;
+}
+
+/**
+ * Have a trash copy or revision saved when the call's next proposed change
+ * to the file is approved, rather than when it's proposed, so it holds the
+ * content the change replaces
+ */
+export function proposeBackup(backup: LocalRestAPI.ApiPendingChangeBackupType) {
+  currentCall.getStore()?.backups.push(backup);
+}
+
+/**
+ * Send a mutating request to the MCP Tools plugin's queue instead of the
+ * vault, with a preview of what it will change (see `describeRequest`) and
+ * the backups proposed for its file (see `proposeBackup`)
+ *
+ * @returns What the request would have returned, as far as it's known
+ */
+export async function queueForApproval(
+  path: string,
+  init: RequestInit = {},
+): Promise<unknown> {
+  const { request, response } = await describeRequest(path, init);
+  const call = currentCall.getStore();
+  const vaultPath = getRequestVaultPath(request.path);
+  const backups = call?.backups.filter((backup) => backup.path === vaultPath);
+  if (call && backups?.length) {
+    call.backups = call.backups.filter((backup) => !backups.includes(backup));
+  }
+  const change = await makeRequest(
+    LocalRestAPI.ApiPendingChange,
+    PENDING_CHANGES_ROUTE,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        ...request,
+        tool: call?.tool,
+        ...(backups?.length ? { backups } : {}),
+        group: currentGroup.getStore(),
+      }),
+      signal: init.signal,
+    },
+  );
+  call?.ids.push(change.id);
+  return response;
+}
+
+/**
+ * Proposed changes from the MCP Tools plugin's queue, oldest first
+ */
+export async function listPendingChanges(signal?: AbortSignal) {
+  return makeRequest(
+    LocalRestAPI.ApiPendingChangesResponse,
+    PENDING_CHANGES_ROUTE,
+    { signal },
+  );
+}
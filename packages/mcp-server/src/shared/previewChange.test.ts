@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from "bun:test";
+import { describeRequest, isMutatingRequest } from "./previewChange";
+
+describe("isMutatingRequest", () => {
+  test("is any request but GET", () => {
+    expect(isMutatingRequest("/vault/a.md")).toBe(false);
+    expect(isMutatingRequest("/vault/a.md", { method: "PUT" })).toBe(true);
+    expect(isMutatingRequest("/active/", { method: "PATCH" })).toBe(true);
+    expect(isMutatingRequest("/custom/run", { method: "POST" })).toBe(true);
+  });
+
+  test("skips searches, opening files and the plugin's own routes", () => {
+    const post = { method: "POST" };
+    expect(isMutatingRequest("/search/simple/?query=a", post)).toBe(false);
+    expect(isMutatingRequest("/search/smart", post)).toBe(false);
+    expect(isMutatingRequest("/open/a.md", post)).toBe(false);
+    expect(isMutatingRequest("/mcp-tools/pending-changes", post)).toBe(false);
+  });
+
+  test("only counts template runs that create a file", () => {
+    const run = (body: object) =>
+      isMutatingRequest("/templates/execute", {
+        method: "POST",
+        body: JSON.stringify({ name: "t.md", arguments: {}, ...body }),
+      });
+    expect(run({})).toBe(false);
+    expect(run({ createFile: true, targetPath: "a.md" })).toBe(true);
+  });
+});
+
+describe("describeRequest", () => {
+  const originalFetch = globalThis.fetch;
+  const fetchMock = mock(async (url: string, init?: RequestInit) => {
+    if (url.endsWith("/vault/Inbox/a.md")) {
+      return new Response("one\ntwo\n", {
+        headers: { "Content-Type": "text/markdown" },
+      });
+    }
+    if (url.endsWith("/active/")) {
+      return Response.json({
+        content: "one\ntwo\n",
+        frontmatter: {},
+        path: "Inbox/a.md",
+        stat: { ctime: 0, mtime: 0, size: 8 },
+        tags: [],
+      });
+    }
+    if (url.endsWith("/templates/execute")) {
+      const params = JSON.parse(init?.body as string);
+      return Response.json({
+        message: params.createFile ? "created" : "not created",
+        content: "# From template\n",
+      });
+    }
+    return new Response("Not Found", { status: 404 });
+  });
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "test-key";
+    fetchMock.mockClear();
+    globalThis.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("diffs new files and deletes", async () => {
+    const created = await describeRequest("/vault/new.md", {
+      method: "PUT",
+      body: "hi\n",
+    });
+    expect(created.request.summary).toBe("Create new.md");
+    expect(created.request.diff).toBe(
+      ["--- /dev/null", "+++ new.md", "@@ -0,0 +1 @@", "+hi", ""].join("\n"),
+    );
+
+    const deleted = await describeRequest("/vault/Inbox/a.md", {
+      method: "DELETE",
+    });
+    expect(deleted.request.summary).toBe("Delete Inbox/a.md");
+    expect(deleted.request.diff).toBe(
+      [
+        "--- Inbox/a.md",
+        "+++ /dev/null",
+        "@@ -1,2 +0,0 @@",
+        "-one",
+        "-two",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("describes patches to the active file by their target", async () => {
+    const { request } = await describeRequest("/active/", {
+      method: "PATCH",
+      headers: { Operation: "append", "Target-Type": "heading", Target: "H" },
+      body: "x",
+    });
+    expect(request).toEqual({
+      method: "PATCH",
+      path: "/vault/Inbox/a.md",
+      headers: {
+        "content-type": "text/markdown",
+        operation: "append",
+        "target-type": "heading",
+        target: "H",
+      },
+      body: "x",
+      summary: 'Patch Inbox/a.md: append heading "H"',
+    });
+  });
+
+  test("diffs patches it can apply", async () => {
+    const { request } = await describeRequest("/vault/Inbox/a.md", {
+      method: "PATCH",
+      headers: {
+        Operation: "replace",
+        "Target-Type": "frontmatter",
+        Target: "status",
+      },
+      body: "done",
+    });
+    expect(request.summary).toBe(
+      'Patch Inbox/a.md: replace frontmatter "status"',
+    );
+    expect(request.diff).toBe(
+      [
+        "--- Inbox/a.md",
+        "+++ Inbox/a.md",
+        "@@ -1,2 +1,5 @@",
+        "+---",
+        "+status: done",
+        "+---",
+        " one",
+        " two",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  test("renders templates without creating the file", async () => {
+    const { request, response } = await describeRequest("/templates/execute", {
+      method: "POST",
+      body: JSON.stringify({
+        name: "Templates/t.md",
+        arguments: {},
+        createFile: true,
+        targetPath: "Notes/new.md",
+      }),
+    });
+    const [, init] = fetchMock.mock.calls[0] as [string, RequestInit];
+    expect(JSON.parse(init.body as string).createFile).toBe(false);
+    expect(request.summary).toBe("Create Notes/new.md");
+    expect(request.body).toBe("# From template\n");
+    expect(response).toEqual({
+      message: "Prompt executed; Notes/new.md wasn't created",
+      content: "# From template\n",
+    });
+  });
+});
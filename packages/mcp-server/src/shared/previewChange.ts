@@ -0,0 +1,265 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { type } from "arktype";
+import { LocalRestAPI } from "shared";
+import { createUnifiedDiff } from "./diff";
+import { encodeVaultPath } from "./listVaultFiles";
+import { makeRequest } from "./makeRequest";
+import { patchContent } from "./patchContent";
+
+export interface ChangePreview {
+  /** What the request does, e.g. "Append to Inbox/note.md" */
+  summary: string;
+  /** Unified diff of the file's content, if it can be worked out */
+  diff?: string;
+}
+
+/** A mutating request that wasn't sent, with what it would have changed */
+export type DescribedRequest = Omit<
+  LocalRestAPI.ApiPendingChangeParamsType,
+  "tool"
+>;
+
+/** Routes that only read, even though they're called with POST */
+const READ_ONLY_ROUTES = ["/search/", "/open/", "/mcp-tools/"];
+
+const mutatingMethod = type("'POST' | 'PUT' | 'PATCH' | 'DELETE'");
+
+const templateExecution = type("string.json.parse").to(
+  LocalRestAPI.ApiTemplateExecutionParams,
+);
+
+/**
+ * Whether a Local REST API request changes the vault: any request but GET,
+ * except searches, opening a file and template runs that don't create a
+ * file
+ */
+export function isMutatingRequest(path: string, init?: RequestInit): boolean {
+  const method = init?.method?.toUpperCase() ?? "GET";
+  if (method === "GET") return false;
+  if (READ_ONLY_ROUTES.some((route) => path.startsWith(route))) return false;
+  if (path.startsWith("/templates/execute")) {
+    const params = templateExecution(init?.body);
+    return (
+      !(params instanceof type.errors) &&
+      !!params.createFile &&
+      !!params.targetPath
+    );
+  }
+  return true;
+}
+
+/**
+ * Vault path of a `/vault/` request, or undefined for other routes and
+ * directories
+ */
+export function getRequestVaultPath(path: string): string | undefined {
+  const match = /^\/vault\/([^?]+)/.exec(path);
+  if (!match || match[1].endsWith("/")) return undefined;
+  return decodeURIComponent(match[1]);
+}
+
+/**
+ * Vault path a mutating request changes: the file or folder of a `/vault/`
+ * request, or the file a template run creates
+ */
+export function getRequestTargetPath(
+  path: string,
+  init?: RequestInit,
+): string | undefined {
+  if (path.startsWith("/templates/execute")) {
+    const params = templateExecution(init?.body);
+    return params instanceof type.errors ? undefined : params.targetPath;
+  }
+  const match = /^\/vault\/([^?]+)/.exec(path);
+  return match ? decodeURIComponent(match[1]).replace(/\/+$/, "") : undefined;
+}
+
+/**
+ * The file's content, or undefined if it doesn't exist
+ */
+async function readCurrent(path: string, signal?: AbortSignal) {
+  try {
+    return await makeRequest(
+      LocalRestAPI.ApiContentResponse,
+      `/vault/${encodeVaultPath(path)}`,
+      { headers: { Accept: "text/markdown" }, signal },
+    );
+  } catch (error) {
+    signal?.throwIfAborted();
+    if (error instanceof Error && / 404:/.test(error.message)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describe what a mutating Local REST API request would do, with a diff
+ * of the file for writes, appends, patches and deletes. A patch whose
+ * target isn't found is described by its target alone.
+ */
+export async function previewChange(
+  method: string,
+  path: string,
+  headers: Record<string, string>,
+  body: string | undefined,
+  signal?: AbortSignal,
+): Promise<ChangePreview> {
+  const vaultPath = getRequestVaultPath(path);
+  if (!vaultPath) return { summary: `${method} ${path}` };
+
+  const current = await readCurrent(vaultPath, signal);
+
+  if (method === "PATCH") {
+    const header = (name: string) =>
+      Object.entries(headers).find(
+        ([key]) => key.toLowerCase() === name.toLowerCase(),
+      )?.[1];
+    const summary = `Patch ${vaultPath}: ${header("Operation")} ${header("Target-Type")} "${header("Target")}"`;
+    const patched =
+      current === undefined
+        ? undefined
+        : patchContent(current, {
+            operation: header("Operation") ?? "",
+            targetType: header("Target-Type") ?? "",
+            target: header("Target") ?? "",
+            targetDelimiter: header("Target-Delimiter"),
+            trimTargetWhitespace: header("Trim-Target-Whitespace") === "true",
+            contentType: header("Content-Type"),
+            content: body ?? "",
+          });
+    if (current === undefined || patched === undefined) return { summary };
+
+    const diff = createUnifiedDiff(current, patched, {
+      fromLabel: vaultPath,
+      toLabel: vaultPath,
+    });
+    return { summary, diff: diff || undefined };
+  }
+
+  let summary: string;
+  let proposed: string;
+  switch (method) {
+    case "PUT":
+      summary = `${current === undefined ? "Create" : "Overwrite"} ${vaultPath}`;
+      proposed = body ?? "";
+      break;
+    case "POST":
+      summary = `Append to ${vaultPath}`;
+      // The Local REST API starts appended content on a new line
+      proposed =
+        current === undefined
+          ? (body ?? "")
+          : `${current}${current.endsWith("\n") ? "" : "\n"}${body ?? ""}`;
+      break;
+    case "DELETE":
+      summary = `Delete ${vaultPath}`;
+      proposed = "";
+      break;
+    default:
+      return { summary: `${method} ${path}` };
+  }
+
+  const diff = createUnifiedDiff(current ?? "", proposed, {
+    fromLabel: current === undefined ? "/dev/null" : vaultPath,
+    toLabel: method === "DELETE" ? "/dev/null" : vaultPath,
+  });
+  return { summary, diff: diff || undefined };
+}
+
+/**
+ * Request headers as sent by `makeRequest`, without the API key
+ */
+function toHeaders(init?: RequestInit): Record<string, string> {
+  const headers = new Headers(init?.headers);
+  if (!headers.has("Content-Type")) {
+    headers.set("Content-Type", "text/markdown");
+  }
+  headers.delete("Authorization");
+
+  const result: Record<string, string> = {};
+  headers.forEach((value, key) => {
+    result[key] = value;
+  });
+  return result;
+}
+
+/**
+ * Work out what a mutating request would do, without sending it:
+ * - Requests to the active file are described for the file that's active now
+ * - Template runs that create a file are rendered without creating it, and
+ *   described as a write of the file
+ *
+ * @returns The request as it would change the vault, and what it would
+ *   have returned as far as it's known: nothing, or the rendered template
+ * @throws McpError if the method isn't a mutating one or the body isn't text
+ */
+export async function describeRequest(
+  path: string,
+  init: RequestInit = {},
+): Promise<{ request: DescribedRequest; response: unknown }> {
+  const signal = init.signal ?? undefined;
+
+  if (path.startsWith("/templates/execute")) {
+    const { targetPath, ...params } = templateExecution.assert(init.body);
+    if (!targetPath) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "targetPath is required to create a file",
+      );
+    }
+    const rendered = await makeRequest(
+      LocalRestAPI.ApiTemplateExecutionResponse,
+      path,
+      { ...init, body: JSON.stringify({ ...params, createFile: false }) },
+    );
+    const { request } = await describeRequest(
+      `/vault/${encodeVaultPath(targetPath)}`,
+      { method: "PUT", body: rendered.content, signal },
+    );
+    return {
+      request,
+      response: {
+        message: `Prompt executed; ${targetPath} wasn't created`,
+        content: rendered.content,
+      },
+    };
+  }
+
+  const method = mutatingMethod(init.method?.toUpperCase() ?? "POST");
+  if (method instanceof type.errors) {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${init.method} ${path} can't be described: method ${method.summary}`,
+    );
+  }
+  if (init.body != null && typeof init.body !== "string") {
+    throw new McpError(
+      ErrorCode.InvalidRequest,
+      `${method} ${path} can't be described: only text bodies are supported`,
+    );
+  }
+
+  let target = path;
+  if (path === "/active/") {
+    const active = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
+      headers: { Accept: LocalRestAPI.MIME_TYPE_OLRAPI_NOTE_JSON },
+      signal,
+    });
+    target = `/vault/${encodeVaultPath(active.path)}`;
+  }
+
+  const headers = toHeaders(init);
+  const body = init.body ?? undefined;
+  const preview = await previewChange(method, target, headers, body, signal);
+  return {
+    request: {
+      method,
+      path: target,
+      headers,
+      body,
+      ...preview,
+    },
+    response: undefined,
+  };
+}
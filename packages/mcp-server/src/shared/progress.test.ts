@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { createProgressReporter, noopProgress } from "./progress";
+
+function stubServer() {
+  const sent: unknown[] = [];
+  const server = {
+    notification: async (notification: unknown) => {
+      sent.push(notification);
+    },
+  } as unknown as Server;
+  return { server, sent };
+}
+
+describe("createProgressReporter", () => {
+  test("returns a no-op reporter without a progress token", async () => {
+    const { server, sent } = stubServer();
+    const report = createProgressReporter(server, undefined);
+    expect(report).toBe(noopProgress);
+    await report(1, 2);
+    expect(sent).toEqual([]);
+  });
+
+  test("sends progress notifications with the request's token", async () => {
+    const { server, sent } = stubServer();
+    const report = createProgressReporter(server, "abc");
+    await report(3, 10, "Scanning notes");
+    expect(sent).toEqual([
+      {
+        method: "notifications/progress",
+        params: {
+          progressToken: "abc",
+          progress: 3,
+          total: 10,
+          message: "Scanning notes",
+        },
+      },
+    ]);
+  });
+
+  test("never throws when the notification fails", async () => {
+    const server = {
+      notification: async () => {
+        throw new Error("Not connected");
+      },
+    } as unknown as Server;
+    const report = createProgressReporter(server, 1);
+    await expect(report(1)).resolves.toBeUndefined();
+  });
+});
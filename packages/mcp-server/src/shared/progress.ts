@@ -0,0 +1,46 @@
+import type { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import type { ProgressToken } from "@modelcontextprotocol/sdk/types.js";
+import { logger } from "./logger";
+
+/**
+ * Reports progress of the current request.
+ *
+ * @param progress - Units of work completed so far (must increase)
+ * @param total - Total units of work, if known
+ * @param message - Human-readable description of the current step
+ */
+export type ProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string,
+) => Promise<void>;
+
+/** Reporter used when the client did not send a progress token */
+export const noopProgress: ProgressReporter = async () => {};
+
+/**
+ * Creates a reporter that sends `notifications/progress` for a request.
+ * Returns a no-op reporter if the client did not ask for progress.
+ *
+ * Notification failures are logged and never fail the request.
+ */
+export function createProgressReporter(
+  server: Server,
+  progressToken: ProgressToken | undefined,
+): ProgressReporter {
+  if (progressToken === undefined) return noopProgress;
+
+  return async (progress, total, message) => {
+    try {
+      await server.notification({
+        method: "notifications/progress",
+        params: { progressToken, progress, total, message },
+      });
+    } catch (error) {
+      logger.debug("Failed to send progress notification", {
+        progressToken,
+        error,
+      });
+    }
+  };
+}
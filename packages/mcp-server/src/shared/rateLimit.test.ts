@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  getLimitKeys,
+  parseLimits,
+  RateLimiter,
+  type Limits,
+} from "./rateLimit";
+
+function createLimiter(limits: Partial<Limits>) {
+  let now = 0;
+  const limiter = new RateLimiter(
+    () => ({ rates: {}, quotas: {}, ...limits }),
+    () => now,
+  );
+  return {
+    limiter,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+function errorOf(fn: () => void): McpError {
+  try {
+    fn();
+  } catch (error) {
+    return error as McpError;
+  }
+  throw new Error("Expected an error");
+}
+
+describe("parseLimits", () => {
+  test("returns no limits when unset", () => {
+    expect(parseLimits(undefined)).toEqual({ rates: {}, quotas: {} });
+  });
+
+  test("reads rates and quotas from JSON or a file", () => {
+    const json = JSON.stringify({
+      rates: { fetch: "10/minute", "vault:write": "5 / second" },
+      quotas: { "files-deleted": 100 },
+    });
+    const expected: Limits = {
+      rates: {
+        fetch: { limit: 10, period: "minute" },
+        "vault:write": { limit: 5, period: "second" },
+      },
+      quotas: { "files-deleted": 100 },
+    };
+
+    expect(parseLimits(json)).toEqual(expected);
+    expect(parseLimits("/etc/limits.json", () => json)).toEqual(expected);
+  });
+
+  test("throws on invalid rates and quotas", () => {
+    expect(() => parseLimits('{"rates": {"fetch": "often"}}')).toThrow(
+      /Invalid rate for "fetch"/,
+    );
+    expect(() => parseLimits('{"rates": {"fetch": "0/minute"}}')).toThrow(
+      /Invalid rate/,
+    );
+    expect(() => parseLimits('{"quotas": {"fetch": -1}}')).toThrow(
+      /Invalid limits in OBSIDIAN_MCP_LIMITS/,
+    );
+    expect(() => parseLimits("{")).toThrow(/Invalid limits/);
+  });
+});
+
+describe("getLimitKeys", () => {
+  test("includes the tool, operation, scope and scope category", () => {
+    expect(getLimitKeys("vault", "delete", "vault:delete")).toEqual([
+      "vault",
+      "vault.delete",
+      "vault:delete",
+      "vault:*",
+    ]);
+    expect(getLimitKeys("fetch", undefined, "web:fetch")).toEqual([
+      "fetch",
+      "web:fetch",
+      "web:*",
+    ]);
+  });
+});
+
+describe("RateLimiter", () => {
+  test("allows bursts up to the limit and refills over the period", () => {
+    const { limiter, advance } = createLimiter({
+      rates: { fetch: { limit: 2, period: "minute" } },
+    });
+
+    limiter.consume(["fetch"]);
+    limiter.consume(["fetch"]);
+    const error = errorOf(() => limiter.consume(["fetch"]));
+    expect(error.message).toMatch(
+      /Rate limit exceeded for "fetch" \(2\/minute\)/,
+    );
+    expect(error.data).toEqual({
+      limit: "fetch",
+      rate: "2/minute",
+      retryAfter: 30,
+    });
+
+    advance(30_000);
+    limiter.consume(["fetch"]);
+  });
+
+  test("counts nothing when any limit is exceeded", () => {
+    const { limiter } = createLimiter({
+      rates: {
+        vault: { limit: 5, period: "minute" },
+        "vault:write": { limit: 1, period: "minute" },
+      },
+    });
+
+    limiter.consume(["vault", "vault:write"]);
+    for (let i = 0; i < 3; i++) {
+      expect(() => limiter.consume(["vault", "vault:write"])).toThrow();
+    }
+    limiter.consume(["vault"]);
+    limiter.consume(["vault"]);
+    limiter.consume(["vault"]);
+    limiter.consume(["vault"]);
+  });
+
+  test("enforces session quotas without refilling", () => {
+    const { limiter, advance } = createLimiter({
+      quotas: { "files-deleted": 10 },
+    });
+
+    limiter.consume(["files-deleted"], 8);
+    const error = errorOf(() => limiter.consume(["files-deleted"], 3));
+    expect(error.message).toMatch(/8 of 10 used, and this call needs 3/);
+    expect(error.data).toEqual({ limit: "files-deleted", quota: 10, used: 8 });
+
+    advance(86_400_000);
+    limiter.consume(["files-deleted"], 2);
+    expect(() => limiter.consume(["files-deleted"], 1)).toThrow(/quota/);
+  });
+
+  test("gives back refunded quota units", () => {
+    const { limiter } = createLimiter({ quotas: { "files-deleted": 10 } });
+
+    limiter.consume(["files-deleted"], 10);
+    limiter.refund(["files-deleted"], 4);
+    limiter.consume(["files-deleted"], 4);
+    expect(() => limiter.consume(["files-deleted"], 1)).toThrow(/quota/);
+  });
+
+  test("rejects amounts larger than a rate's limit", () => {
+    const { limiter } = createLimiter({
+      rates: { "files-deleted": { limit: 50, period: "hour" } },
+    });
+
+    const error = errorOf(() => limiter.consume(["files-deleted"], 51));
+    expect(error.message).toMatch(/Split it into smaller calls/);
+    expect(error.data).not.toHaveProperty("retryAfter");
+  });
+});
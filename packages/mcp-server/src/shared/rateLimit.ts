@@ -0,0 +1,218 @@
+import { readFileSync } from "node:fs";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { type } from "arktype";
+import type { Scope } from "../auth/scopes";
+
+/** Quota key counting the files a session deletes */
+export const DELETED_FILES_QUOTA = "files-deleted";
+
+const PERIODS_MS = {
+  second: 1_000,
+  minute: 60_000,
+  hour: 3_600_000,
+};
+
+/**
+ * A token bucket: up to `limit` units at once, refilled evenly over `period`
+ */
+export interface Rate {
+  limit: number;
+  period: keyof typeof PERIODS_MS;
+}
+
+/**
+ * Limits by key. A tool call counts against:
+ * - the tool's name, e.g. `fetch`
+ * - `tool.operation` for dispatcher operations, e.g. `vault.delete`
+ * - the scope it needs and its category, e.g. `vault:write` and `vault:*`
+ *
+ * Handlers count other units against their own keys, e.g. the number of
+ * files deleted against `files-deleted`.
+ */
+export interface Limits {
+  /** Token-bucket rates, e.g. `{ "fetch": "10/minute" }` */
+  rates: Record<string, Rate>;
+  /** Maximum units per session, e.g. `{ "files-deleted": 100 }` */
+  quotas: Record<string, number>;
+}
+
+const RATE_PATTERN = /^(\d+)\s*\/\s*(second|minute|hour)$/;
+
+const limitsSchema = type({
+  "rates?": "Record<string, string>",
+  "quotas?": "Record<string, number.integer>=0>",
+});
+
+function parseRate(key: string, value: string): Rate {
+  const match = RATE_PATTERN.exec(value.trim());
+  if (!match || Number(match[1]) === 0) {
+    throw new Error(
+      `Invalid rate for "${key}": "${value}". Use a count per second, minute or hour, e.g. "10/minute"`,
+    );
+  }
+  return {
+    limit: Number(match[1]),
+    period: match[2] as Rate["period"],
+  };
+}
+
+/**
+ * Read limits from OBSIDIAN_MCP_LIMITS: a JSON object of `rates` and
+ * `quotas`, or the path of a file containing one. No limits apply if it's
+ * unset.
+ *
+ * @throws Error if the limits are invalid
+ */
+export function parseLimits(
+  value = process.env.OBSIDIAN_MCP_LIMITS,
+  readFile: (path: string) => string = (path) => readFileSync(path, "utf8"),
+): Limits {
+  const trimmed = value?.trim();
+  if (!trimmed) return { rates: {}, quotas: {} };
+
+  const source = trimmed.startsWith("{") ? "OBSIDIAN_MCP_LIMITS" : trimmed;
+  let json: unknown;
+  try {
+    json = JSON.parse(trimmed.startsWith("{") ? trimmed : readFile(trimmed));
+  } catch (error) {
+    throw new Error(
+      `Invalid limits in ${source}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  const limits = limitsSchema(json);
+  if (limits instanceof type.errors) {
+    throw new Error(`Invalid limits in ${source}: ${limits.summary}`);
+  }
+
+  return {
+    rates: Object.fromEntries(
+      Object.entries(limits.rates ?? {}).map(([key, rate]) => [
+        key,
+        parseRate(key, rate),
+      ]),
+    ),
+    quotas: limits.quotas ?? {},
+  };
+}
+
+let cached: { value?: string; limits: Limits } | null = null;
+
+/**
+ * Configured limits, re-read when OBSIDIAN_MCP_LIMITS changes
+ */
+export function getLimits(): Limits {
+  const value = process.env.OBSIDIAN_MCP_LIMITS;
+  if (!cached || cached.value !== value) {
+    cached = { value, limits: parseLimits(value) };
+  }
+  return cached.limits;
+}
+
+/**
+ * Keys a tool call counts against
+ */
+export function getLimitKeys(
+  tool: string,
+  operation?: string,
+  scope?: Scope,
+): string[] {
+  const keys = [tool];
+  if (operation) keys.push(`${tool}.${operation}`);
+  if (scope) {
+    const [category] = scope.split(":");
+    keys.push(scope, `${category}:*`);
+  }
+  return [...new Set(keys)];
+}
+
+function formatRate({ limit, period }: Rate): string {
+  return `${limit}/${period}`;
+}
+
+/**
+ * Rate limits and quotas for one session
+ */
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updated: number }>();
+  private used = new Map<string, number>();
+
+  constructor(
+    private limits: () => Limits = getLimits,
+    private now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Count `amount` units against every rate and quota for `keys`.
+   * Nothing is counted if any of them would be exceeded.
+   *
+   * @throws McpError naming the exceeded limit, with `retryAfter` (seconds)
+   *   in its data when waiting would help
+   */
+  consume(keys: string[], amount = 1): void {
+    const { rates, quotas } = this.limits();
+    const now = this.now();
+
+    for (const key of keys) {
+      const quota = quotas[key];
+      const used = this.used.get(key) ?? 0;
+      if (quota !== undefined && used + amount > quota) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Session quota exceeded for "${key}": ${used} of ${quota} used, and this call needs ${amount}. ` +
+            `The quota resets when a new session starts.`,
+          { limit: key, quota, used },
+        );
+      }
+    }
+
+    const refilled = new Map<string, number>();
+    for (const key of keys) {
+      const rate = rates[key];
+      if (!rate) continue;
+
+      if (amount > rate.limit) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Rate limit for "${key}" is ${formatRate(rate)}, and this call needs ${amount}. Split it into smaller calls.`,
+          { limit: key, rate: formatRate(rate) },
+        );
+      }
+
+      const perMs = rate.limit / PERIODS_MS[rate.period];
+      const bucket = this.buckets.get(key);
+      const tokens = bucket
+        ? Math.min(rate.limit, bucket.tokens + (now - bucket.updated) * perMs)
+        : rate.limit;
+      if (tokens < amount) {
+        const retryAfter = Math.ceil((amount - tokens) / perMs / 1000);
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Rate limit exceeded for "${key}" (${formatRate(rate)}). Retry after ${retryAfter} seconds.`,
+          { limit: key, rate: formatRate(rate), retryAfter },
+        );
+      }
+      refilled.set(key, tokens);
+    }
+
+    for (const [key, tokens] of refilled) {
+      this.buckets.set(key, { tokens: tokens - amount, updated: now });
+    }
+    for (const key of keys) {
+      if (quotas[key] !== undefined) {
+        this.used.set(key, (this.used.get(key) ?? 0) + amount);
+      }
+    }
+  }
+
+  /**
+   * Give back quota units counted by `consume` for work that wasn't done,
+   * e.g. files a bulk delete skipped. Rates aren't refunded: the requests
+   * were still made.
+   */
+  refund(keys: string[], amount: number): void {
+    for (const key of keys) {
+      const used = this.used.get(key);
+      if (used !== undefined) this.used.set(key, Math.max(0, used - amount));
+    }
+  }
+}
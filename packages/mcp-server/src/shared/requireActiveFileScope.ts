@@ -0,0 +1,27 @@
+import { LocalRestAPI } from "shared";
+import {
+  requireScopeInSession,
+  sessionHasPathRules,
+  type Scope,
+} from "../auth/scopes";
+import { makeRequest } from "./makeRequest";
+
+/**
+ * Require a scope for the file open in Obsidian.
+ *
+ * The active file's path is only looked up when path-scoped grants or
+ * denials are configured; otherwise the tool's own scope check suffices.
+ *
+ * @throws McpError if the scope isn't granted for the active file
+ */
+export async function requireActiveFileScope(
+  required: Scope,
+  signal?: AbortSignal,
+): Promise<void> {
+  if (!sessionHasPathRules()) return;
+  const { path } = await makeRequest(LocalRestAPI.ApiNoteJson, "/active/", {
+    headers: { Accept: "application/vnd.olrapi.note+json" },
+    signal,
+  });
+  requireScopeInSession(required, path);
+}
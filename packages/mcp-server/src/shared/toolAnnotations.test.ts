@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { SCOPES } from "../auth/scopes";
+import { deriveToolAnnotations } from "./toolAnnotations";
+
+describe("deriveToolAnnotations", () => {
+  test("marks read scopes as read-only", () => {
+    expect(deriveToolAnnotations(SCOPES.VAULT_READ)).toEqual({
+      readOnlyHint: true,
+      openWorldHint: false,
+    });
+  });
+
+  test("marks delete scopes as destructive", () => {
+    expect(deriveToolAnnotations(SCOPES.VAULT_DELETE)).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: true,
+    });
+  });
+
+  test("writes are not destructive by default", () => {
+    expect(deriveToolAnnotations(SCOPES.VAULT_WRITE)).toMatchObject({
+      readOnlyHint: false,
+      destructiveHint: false,
+    });
+  });
+
+  test("applies overrides on top of the scope defaults", () => {
+    expect(
+      deriveToolAnnotations(SCOPES.VAULT_WRITE, {
+        destructiveHint: true,
+        idempotentHint: true,
+      }),
+    ).toMatchObject({ destructiveHint: true, idempotentHint: true });
+  });
+
+  test("marks web access as open world", () => {
+    expect(deriveToolAnnotations(SCOPES.WEB_FETCH)).toEqual({
+      readOnlyHint: true,
+      openWorldHint: true,
+    });
+  });
+
+  test("tools without a scope only get explicit hints", () => {
+    expect(
+      deriveToolAnnotations(undefined, {
+        readOnlyHint: true,
+        openWorldHint: true,
+      }),
+    ).toEqual({ readOnlyHint: true, openWorldHint: true });
+  });
+});
@@ -0,0 +1,58 @@
+import type { ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import { SCOPES, type Scope } from "../auth/scopes";
+
+/**
+ * Default MCP tool annotations for each scope.
+ *
+ * Clients use these hints to decide which calls need confirmation,
+ * e.g. auto-approving read-only tools and asking before destructive ones.
+ * Nothing in the vault is "open world"; only `web:fetch` reaches outside it.
+ */
+const SCOPE_ANNOTATIONS: Record<Scope, ToolAnnotations> = {
+  [SCOPES.VAULT_READ]: { readOnlyHint: true },
+  [SCOPES.VAULT_LIST]: { readOnlyHint: true },
+  [SCOPES.VAULT_SEARCH]: { readOnlyHint: true },
+  [SCOPES.PLUGINS_READ]: { readOnlyHint: true },
+  [SCOPES.VAULT_WRITE]: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+  [SCOPES.VAULT_MOVE]: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+  [SCOPES.VAULT_DELETE]: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
+  [SCOPES.PLUGINS_EXECUTE]: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+  [SCOPES.WEB_FETCH]: { readOnlyHint: true, openWorldHint: true },
+  [SCOPES.VAULT_ALL]: { readOnlyHint: false, destructiveHint: true },
+  [SCOPES.PLUGINS_ALL]: { readOnlyHint: false, destructiveHint: false },
+  [SCOPES.ADMIN]: { readOnlyHint: false, destructiveHint: true },
+};
+
+/**
+ * Derive the MCP annotations for a tool from its required scope.
+ *
+ * @param scope - Scope required to call the tool, if any
+ * @param overrides - Behavior that differs from the scope's default
+ *   (e.g. a write that replaces content is destructive)
+ */
+export function deriveToolAnnotations(
+  scope?: Scope,
+  overrides: ToolAnnotations = {},
+): ToolAnnotations {
+  return {
+    openWorldHint: false,
+    ...(scope ? SCOPE_ANNOTATIONS[scope] : {}),
+    ...overrides,
+  };
+}
@@ -0,0 +1,35 @@
+import { describe, expect, test } from "bun:test";
+import { createTrashBatch, getTrashFolder, isInTrash } from "./trash";
+
+describe("getTrashFolder", () => {
+  test("defaults to .mcp-trash", () => {
+    expect(getTrashFolder(undefined)).toBe(".mcp-trash");
+    expect(getTrashFolder(" ")).toBe(".mcp-trash");
+  });
+
+  test("uses the configured folder without surrounding slashes", () => {
+    expect(getTrashFolder("/Archive/Trash/")).toBe("Archive/Trash");
+  });
+
+  test("can be turned off", () => {
+    expect(getTrashFolder("off")).toBeUndefined();
+    expect(getTrashFolder("OFF")).toBeUndefined();
+  });
+});
+
+describe("isInTrash", () => {
+  test("matches the folder and everything under it", () => {
+    expect(isInTrash(".mcp-trash", ".mcp-trash")).toBe(true);
+    expect(isInTrash(".mcp-trash/2024/a.md", ".mcp-trash")).toBe(true);
+    expect(isInTrash(".mcp-trash-old/a.md", ".mcp-trash")).toBe(false);
+    expect(isInTrash("a.md", undefined)).toBe(false);
+  });
+});
+
+describe("createTrashBatch", () => {
+  test("names the batch after the time, without colons or dots", () => {
+    expect(createTrashBatch(new Date("2024-05-01T10:20:30.456Z"))).toBe(
+      "2024-05-01T10-20-30-456Z",
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { LocalRestAPI } from "shared";
+import { isDryRun } from "./dryRun";
+import { encodeVaultPath } from "./listVaultFiles";
+import { makeRequest } from "./makeRequest";
+import { withMcpFolderAccess } from "./mcpFolders";
+import { isApprovalRequired, proposeBackup } from "./pendingChanges";
+
+/** Vault folder deleted and overwritten files are copied to by default */
+export const DEFAULT_TRASH_FOLDER = ".mcp-trash";
+
+/**
+ * Vault folder of the trash: OBSIDIAN_MCP_TRASH_FOLDER, or `.mcp-trash`.
+ * Returns undefined if the trash is turned off with "off".
+ */
+export function getTrashFolder(
+  value = process.env.OBSIDIAN_MCP_TRASH_FOLDER,
+): string | undefined {
+  const trimmed = value?.trim();
+  if (trimmed?.toLowerCase() === "off") return undefined;
+  return trimmed?.replace(/^\/+|\/+$/g, "") || DEFAULT_TRASH_FOLDER;
+}
+
+/**
+ * Whether a vault path is inside the trash folder
+ */
+export function isInTrash(path: string, folder = getTrashFolder()): boolean {
+  return !!folder && (path === folder || path.startsWith(`${folder}/`));
+}
+
+/**
+ * Name of the trash folder for one tool call's files: the time it was
+ * created, with `:` and `.` replaced so it's a valid folder name
+ * (e.g. `2024-05-01T10-00-00-000Z`)
+ */
+export function createTrashBatch(now = new Date()): string {
+  return now.toISOString().replace(/[:.]/g, "-");
+}
+
+export interface CopyToTrashOptions {
+  signal?: AbortSignal;
+  /** Return undefined instead of throwing if the file can't be read */
+  missingOk?: boolean;
+}
+
+/**
+ * Copy a file into the trash before deleting or overwriting it. The copy
+ * keeps the file's vault path under the batch folder, e.g.
+ * `.mcp-trash/2024-05-01T10-00-00-000Z/Inbox/note.md`, so it can be
+ * restored. Files already in the trash aren't copied again, and nothing is
+ * copied during a dry run. While changes require approval, the copy is
+ * saved when the change is approved instead (see `proposeBackup`).
+ *
+ * @returns The copy's vault path, or undefined if nothing was copied
+ * @throws McpError if the file can't be read (unless `missingOk`) or copied
+ */
+export async function copyToTrash(
+  path: string,
+  batch: string,
+  { signal, missingOk = false }: CopyToTrashOptions = {},
+): Promise<string | undefined> {
+  const folder = getTrashFolder();
+  if (!folder || isInTrash(path, folder) || isDryRun()) return undefined;
+  if (isApprovalRequired()) {
+    proposeBackup({ type: "trash", path, folder, batch });
+    return undefined;
+  }
+
+  let content: string;
+  try {
+    content = await makeRequest(
+      LocalRestAPI.ApiContentResponse,
+      `/vault/${encodeVaultPath(path)}`,
+      { headers: { Accept: "text/markdown" }, signal },
+    );
+  } catch (error) {
+    if (missingOk) return undefined;
+    throw error;
+  }
+
+  const trashPath = `${folder}/${batch}/${path}`;
+  await withMcpFolderAccess(() =>
+    makeRequest(
+      LocalRestAPI.ApiNoContentResponse,
+      `/vault/${encodeVaultPath(trashPath)}`,
+      { method: "PUT", body: content, signal },
+    ),
+  );
+  return trashPath;
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { getVaultConnection, parseVaultConnections, withVault } from "./vaults";
+
+describe("parseVaultConnections", () => {
+  test("adds the default connection from OBSIDIAN_API_KEY", () => {
+    expect(
+      parseVaultConnections({
+        OBSIDIAN_API_KEY: "key",
+        OBSIDIAN_USE_HTTP: "true",
+      }),
+    ).toEqual([
+      {
+        name: "default",
+        host: "127.0.0.1",
+        port: 27123,
+        protocol: "http",
+        apiKey: "key",
+      },
+    ]);
+  });
+
+  test("reads named connections from JSON or a file", () => {
+    const json = JSON.stringify([
+      { name: "work", apiKey: "w", port: 28124 },
+      { name: "home", apiKey: "h", host: "10.0.0.2", protocol: "http" },
+    ]);
+    const fromEnv = parseVaultConnections({ OBSIDIAN_MCP_VAULTS: json });
+    const fromFile = parseVaultConnections(
+      { OBSIDIAN_MCP_VAULTS: "/etc/vaults.json" },
+      () => json,
+    );
+
+    expect(fromFile).toEqual(fromEnv);
+    expect(fromEnv).toEqual([
+      {
+        name: "work",
+        host: "127.0.0.1",
+        port: 28124,
+        protocol: "https",
+        apiKey: "w",
+      },
+      {
+        name: "home",
+        host: "10.0.0.2",
+        port: 27123,
+        protocol: "http",
+        apiKey: "h",
+      },
+    ]);
+  });
+
+  test("rejects invalid and duplicate connections", () => {
+    expect(() =>
+      parseVaultConnections({ OBSIDIAN_MCP_VAULTS: '[{"name":"work"}]' }),
+    ).toThrow(/Invalid vault connections in OBSIDIAN_MCP_VAULTS/);
+    expect(() =>
+      parseVaultConnections({
+        OBSIDIAN_API_KEY: "key",
+        OBSIDIAN_MCP_VAULTS: '[{"name":"default","apiKey":"other"}]',
+      }),
+    ).toThrow(/Duplicate vault connection name: "default"/);
+  });
+});
+
+describe("withVault", () => {
+  const original = { ...process.env };
+
+  beforeEach(() => {
+    process.env.OBSIDIAN_API_KEY = "key";
+    process.env.OBSIDIAN_MCP_VAULTS = '[{"name":"work","apiKey":"w"}]';
+  });
+
+  afterEach(() => {
+    process.env.OBSIDIAN_API_KEY = original.OBSIDIAN_API_KEY;
+    delete process.env.OBSIDIAN_MCP_VAULTS;
+  });
+
+  test("routes requests made inside it to the named vault", async () => {
+    expect(getVaultConnection().name).toBe("default");
+    const name = await withVault("work", async () => {
+      await Promise.resolve();
+      return getVaultConnection().name;
+    });
+    expect(name).toBe("work");
+    expect(getVaultConnection().name).toBe("default");
+  });
+
+  test("rejects unknown vaults", () => {
+    expect(() => withVault("missing", () => {})).toThrow(
+      'Unknown vault: "missing". Available vaults: default, work',
+    );
+  });
+});
@@ -0,0 +1,175 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { readFileSync } from "node:fs";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { type } from "arktype";
+
+/**
+ * A Local REST API connection to one vault
+ */
+export interface VaultConnection {
+  /** Name clients pass as the `vault` argument */
+  name: string;
+  host: string;
+  port: number;
+  protocol: "http" | "https";
+  apiKey: string;
+}
+
+/** Name of the connection configured with OBSIDIAN_API_KEY */
+export const DEFAULT_VAULT_NAME = "default";
+
+const vaultConnectionSchema = type({
+  name: "string>0",
+  apiKey: "string>0",
+  "host?": "string>0",
+  "port?": "number.integer>0",
+  "protocol?": '"http" | "https"',
+}).array();
+
+type VaultEnv = Pick<
+  NodeJS.ProcessEnv,
+  | "OBSIDIAN_API_KEY"
+  | "OBSIDIAN_HOST"
+  | "OBSIDIAN_USE_HTTP"
+  | "OBSIDIAN_MCP_VAULTS"
+>;
+
+function defaultPort(protocol: VaultConnection["protocol"]) {
+  return protocol === "http" ? 27123 : 27124;
+}
+
+/**
+ * Read the vault connections from the environment:
+ * - OBSIDIAN_API_KEY (with OBSIDIAN_HOST and OBSIDIAN_USE_HTTP) adds the
+ *   `default` connection
+ * - OBSIDIAN_MCP_VAULTS adds named connections: a JSON array of
+ *   `{ name, apiKey, host?, port?, protocol? }`, or the path of a file
+ *   containing one
+ *
+ * The first connection is used when a request doesn't name a vault.
+ * Throws an Error if OBSIDIAN_MCP_VAULTS is invalid or names repeat.
+ */
+export function parseVaultConnections(
+  env: VaultEnv = process.env,
+  readFile: (path: string) => string = (path) => readFileSync(path, "utf8"),
+): VaultConnection[] {
+  const connections: VaultConnection[] = [];
+
+  if (env.OBSIDIAN_API_KEY) {
+    const protocol = env.OBSIDIAN_USE_HTTP === "true" ? "http" : "https";
+    connections.push({
+      name: DEFAULT_VAULT_NAME,
+      host: env.OBSIDIAN_HOST || "127.0.0.1",
+      port: defaultPort(protocol),
+      protocol,
+      apiKey: env.OBSIDIAN_API_KEY,
+    });
+  }
+
+  const value = env.OBSIDIAN_MCP_VAULTS?.trim();
+  if (value) {
+    const source = value.startsWith("[") ? "OBSIDIAN_MCP_VAULTS" : value;
+    let json: unknown;
+    try {
+      json = JSON.parse(value.startsWith("[") ? value : readFile(value));
+    } catch (error) {
+      throw new Error(
+        `Invalid vault connections in ${source}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+    const vaults = vaultConnectionSchema(json);
+    if (vaults instanceof type.errors) {
+      throw new Error(
+        `Invalid vault connections in ${source}: ${vaults.summary}`,
+      );
+    }
+    for (const vault of vaults) {
+      if (connections.some(({ name }) => name === vault.name)) {
+        throw new Error(`Duplicate vault connection name: "${vault.name}"`);
+      }
+      const protocol = vault.protocol ?? "https";
+      connections.push({
+        name: vault.name,
+        host: vault.host ?? "127.0.0.1",
+        port: vault.port ?? defaultPort(protocol),
+        protocol,
+        apiKey: vault.apiKey,
+      });
+    }
+  }
+
+  return connections;
+}
+
+let cached: { key: string; connections: VaultConnection[] } | null = null;
+
+/**
+ * Configured vault connections, re-read when the environment changes
+ */
+export function getVaultConnections(): VaultConnection[] {
+  const {
+    OBSIDIAN_API_KEY,
+    OBSIDIAN_HOST,
+    OBSIDIAN_USE_HTTP,
+    OBSIDIAN_MCP_VAULTS,
+  } = process.env;
+  const key = JSON.stringify([
+    OBSIDIAN_API_KEY,
+    OBSIDIAN_HOST,
+    OBSIDIAN_USE_HTTP,
+    OBSIDIAN_MCP_VAULTS,
+  ]);
+  if (cached?.key !== key) {
+    cached = { key, connections: parseVaultConnections() };
+  }
+  return cached.connections;
+}
+
+/**
+ * Base URL of a connection's Local REST API
+ */
+export function getVaultUrl({ protocol, host, port }: VaultConnection): string {
+  return `${protocol}://${host}:${port}`;
+}
+
+const currentVault = new AsyncLocalStorage<string>();
+
+/**
+ * Look up a connection by name, or the one for the current request
+ * (see `withVault`), falling back to the first configured connection
+ *
+ * @throws McpError if no connection has that name
+ * @throws Error if no connection is configured
+ */
+export function getVaultConnection(
+  name = currentVault.getStore(),
+): VaultConnection {
+  const connections = getVaultConnections();
+  if (connections.length === 0) {
+    throw new Error(
+      "OBSIDIAN_API_KEY environment variable is required (or configure vaults with OBSIDIAN_MCP_VAULTS)",
+    );
+  }
+  if (name === undefined) return connections[0];
+
+  const connection = connections.find((vault) => vault.name === name);
+  if (!connection) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown vault: "${name}". Available vaults: ${connections.map((vault) => vault.name).join(", ")}`,
+    );
+  }
+  return connection;
+}
+
+/**
+ * Run `fn` with every Local REST API request it makes sent to the named
+ * vault. Without a name, requests go to the default connection.
+ *
+ * @throws McpError if no connection has that name
+ */
+export function withVault<T>(name: string | undefined, fn: () => T): T {
+  if (name === undefined) return fn();
+  getVaultConnection(name);
+  return currentVault.run(name, fn);
+}
@@ -5,6 +5,21 @@ declare global {
       NODE_TLS_REJECT_UNAUTHORIZED: `${0 | 1}`;
       OBSIDIAN_API_KEY?: string;
       OBSIDIAN_USE_HTTP?: string;
+      OBSIDIAN_HOST?: string;
+      OBSIDIAN_MCP_VAULTS?: string;
+      OBSIDIAN_MCP_LIMITS?: string;
+      OBSIDIAN_MCP_AUDIT_LOG?: string;
+      OBSIDIAN_MCP_TRASH_FOLDER?: string;
+      OBSIDIAN_MCP_HISTORY_FOLDER?: string;
+      OBSIDIAN_MCP_HISTORY_LIMIT?: string;
+      OBSIDIAN_MCP_REQUIRE_APPROVAL?: string;
+      OBSIDIAN_MCP_DRY_RUN?: string;
+      OBSIDIAN_MCP_TRANSPORT?: string;
+      OBSIDIAN_MCP_HTTP_HOST?: string;
+      OBSIDIAN_MCP_HTTP_PORT?: string;
+      OBSIDIAN_MCP_HTTP_TOKEN?: string;
+      OBSIDIAN_MCP_HTTP_SESSION_TTL?: string;
+      OBSIDIAN_MCP_CONFIG?: string;
     }
   }
 }
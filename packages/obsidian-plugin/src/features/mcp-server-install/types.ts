@@ -48,6 +48,12 @@ declare module "obsidian" {
         ["obsidian-local-rest-api"]?: {
           settings?: {
             apiKey?: string;
+            port?: number;
+            insecurePort?: number;
+            enableInsecureServer?: boolean;
+            enableSecureServer?: boolean;
+            authorizationHeaderName?: string;
+            crypto?: { cert: string };
           };
         };
         ["smart-connections"]?: {
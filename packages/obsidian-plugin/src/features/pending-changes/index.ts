@@ -0,0 +1,84 @@
+import { ItemView, type WorkspaceLeaf } from "obsidian";
+import { mount, unmount } from "svelte";
+import type McpToolsPlugin from "../../main";
+import PendingChanges from "./components/PendingChanges.svelte";
+import type { SetupResult } from "../mcp-server-install/types";
+
+export { PendingChangesQueue } from "./services/queue";
+
+export const PENDING_CHANGES_VIEW_TYPE = "mcp-tools-pending-changes";
+
+/**
+ * Side panel listing the changes proposed by the MCP server, each with its
+ * diff and buttons to approve or reject it
+ */
+export class PendingChangesView extends ItemView {
+  component?: Record<string, unknown>;
+
+  constructor(
+    leaf: WorkspaceLeaf,
+    private readonly plugin: McpToolsPlugin,
+  ) {
+    super(leaf);
+  }
+
+  getViewType() {
+    return PENDING_CHANGES_VIEW_TYPE;
+  }
+
+  getDisplayText() {
+    return "Pending MCP changes";
+  }
+
+  getIcon() {
+    return "git-pull-request";
+  }
+
+  async onOpen() {
+    this.component = mount(PendingChanges, {
+      target: this.contentEl,
+      props: { queue: this.plugin.pendingChanges },
+    });
+  }
+
+  async onClose() {
+    this.component && unmount(this.component);
+  }
+}
+
+/**
+ * Open the review panel in the right sidebar, or reveal it if it's open
+ */
+export async function openPendingChangesView(plugin: McpToolsPlugin) {
+  const { workspace } = plugin.app;
+  let [leaf] = workspace.getLeavesOfType(PENDING_CHANGES_VIEW_TYPE);
+  if (!leaf) {
+    leaf = workspace.getRightLeaf(false) ?? workspace.getLeaf(true);
+    await leaf.setViewState({ type: PENDING_CHANGES_VIEW_TYPE, active: true });
+  }
+  workspace.revealLeaf(leaf);
+}
+
+export async function setup(plugin: McpToolsPlugin): Promise<SetupResult> {
+  try {
+    plugin.registerView(
+      PENDING_CHANGES_VIEW_TYPE,
+      (leaf) => new PendingChangesView(leaf, plugin),
+    );
+    plugin.addRibbonIcon("git-pull-request", "Review pending MCP changes", () =>
+      openPendingChangesView(plugin),
+    );
+    plugin.addCommand({
+      id: "review-pending-changes",
+      name: "Review pending MCP changes",
+      callback: () => openPendingChangesView(plugin),
+    });
+
+    return { success: true };
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
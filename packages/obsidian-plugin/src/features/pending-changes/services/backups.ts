@@ -0,0 +1,69 @@
+import { logger } from "$/shared/logger";
+import type { DataAdapter } from "obsidian";
+import type { LocalRestAPI } from "shared";
+
+type Backup = LocalRestAPI.ApiPendingChangeBackupType;
+
+/** A revision ID, named like the MCP server names them */
+const REVISION_ID = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z\.md$/;
+
+function createRevisionId(now: Date) {
+  return now.toISOString().replace(/[:.]/g, "-");
+}
+
+async function write(adapter: DataAdapter, path: string, content: string) {
+  const folder = path.slice(0, path.lastIndexOf("/"));
+  if (folder && !(await adapter.exists(folder))) await adapter.mkdir(folder);
+  await adapter.write(path, content);
+}
+
+/**
+ * Drop a note's oldest revisions beyond the limit. A failed cleanup leaves
+ * extra revisions, which the next save removes.
+ */
+async function pruneRevisions(
+  adapter: DataAdapter,
+  folder: string,
+  limit: number,
+) {
+  try {
+    const { files } = await adapter.list(folder);
+    const revisions = files
+      .filter((file) => REVISION_ID.test(file.slice(folder.length + 1)))
+      .sort();
+    for (const old of revisions.slice(0, -limit)) await adapter.remove(old);
+  } catch (error) {
+    logger.warn("Failed to prune revision history", { folder, error });
+  }
+}
+
+/**
+ * Save the trash copies and revisions proposed with a change, just before
+ * it's applied, so they hold the content it replaces. Files that don't
+ * exist yet have nothing to back up.
+ *
+ * @throws Error if a copy can't be saved, so the change isn't applied
+ *   without it
+ */
+export async function saveBackups(
+  adapter: DataAdapter,
+  backups: Backup[],
+  now = new Date(),
+) {
+  for (const backup of backups) {
+    if (!(await adapter.exists(backup.path))) continue;
+    const content = await adapter.read(backup.path);
+
+    if (backup.type === "trash") {
+      await write(
+        adapter,
+        `${backup.folder}/${backup.batch}/${backup.path}`,
+        content,
+      );
+    } else {
+      const folder = `${backup.folder}/${backup.path}`;
+      await write(adapter, `${folder}/${createRevisionId(now)}.md`, content);
+      await pruneRevisions(adapter, folder, backup.limit);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import http from "http";
+import https from "https";
+import type { App } from "obsidian";
+import type { LocalRestAPI } from "shared";
+
+type Request = Pick<
+  LocalRestAPI.ApiPendingChangeParamsType,
+  "method" | "path" | "headers" | "body"
+>;
+
+/**
+ * Send a request to this vault's Local REST API server, the same way the
+ * MCP server would have sent it. The HTTPS server is trusted through its own
+ * certificate.
+ *
+ * @returns The response body
+ * @throws Error if the Local REST API isn't configured or the request fails
+ */
+export async function sendLocalRestApiRequest(
+  app: App,
+  { method, path, headers, body }: Request,
+): Promise<string> {
+  const settings = app.plugins.plugins["obsidian-local-rest-api"]?.settings;
+  if (!settings?.apiKey) {
+    throw new Error("Local REST API key is not configured");
+  }
+
+  const secure = settings.enableSecureServer !== false;
+  if (!secure && !settings.enableInsecureServer) {
+    throw new Error("Local REST API server is not enabled");
+  }
+  const options: https.RequestOptions = {
+    host: "127.0.0.1",
+    port: secure ? (settings.port ?? 27124) : (settings.insecurePort ?? 27123),
+    path,
+    method,
+    headers: {
+      ...headers,
+      [settings.authorizationHeaderName ?? "Authorization"]:
+        `Bearer ${settings.apiKey}`,
+    },
+    ca: secure ? settings.crypto?.cert : undefined,
+  };
+
+  return new Promise((resolve, reject) => {
+    const request = (secure ? https : http).request(options, (response) => {
+      let data = "";
+      response.setEncoding("utf8");
+      response.on("data", (chunk: string) => (data += chunk));
+      response.on("end", () => {
+        const status = response.statusCode ?? 0;
+        if (status >= 200 && status < 300) {
+          resolve(data);
+        } else {
+          reject(new Error(`${method} ${path} ${status}: ${data}`));
+        }
+      });
+    });
+    request.on("error", reject);
+    request.end(body);
+  });
+}
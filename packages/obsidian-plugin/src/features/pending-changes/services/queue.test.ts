@@ -0,0 +1,183 @@
+import { beforeEach, describe, expect, mock, test } from "bun:test";
+import type { LocalRestAPI } from "shared";
+
+const files = new Map<string, string>();
+const requests: Array<{ method: string; path: string }> = [];
+
+/** Enough of Obsidian's data adapter for the queue, in memory */
+const adapter = {
+  exists: async (path: string) =>
+    files.has(path) ||
+    [...files.keys()].some((file) => file.startsWith(`${path}/`)),
+  read: async (path: string) => files.get(path)!,
+  write: async (path: string, content: string) => void files.set(path, content),
+  mkdir: async () => {},
+  remove: async (path: string) => void files.delete(path),
+  list: async (folder: string) => ({
+    files: [...files.keys()].filter((file) => file.startsWith(`${folder}/`)),
+    folders: [],
+  }),
+};
+
+mock.module("obsidian", () => ({
+  normalizePath: (path: string) => path,
+  Notice: class {},
+}));
+mock.module("$/shared/logger", () => ({
+  logger: { error: () => {}, warn: () => {} },
+}));
+mock.module("./localRestApi", () => ({
+  sendLocalRestApiRequest: async (
+    _app: unknown,
+    request: { method: string; path: string },
+  ) => {
+    requests.push(request);
+    if (request.path === "/vault/fail.md") throw new Error("Refused");
+    if (request.method === "DELETE") {
+      files.delete(decodeURIComponent(request.path.replace(/^\/vault\//, "")));
+    }
+    return "";
+  },
+}));
+
+const { PendingChangesQueue } = await import("./queue");
+
+const DELETE: LocalRestAPI.ApiPendingChangeParamsType = {
+  method: "DELETE",
+  path: "/vault/Inbox/note.md",
+  headers: {},
+  summary: "Delete Inbox/note.md",
+  backups: [
+    {
+      type: "trash",
+      path: "Inbox/note.md",
+      folder: ".mcp-trash",
+      batch: "2024-05-01T10-00-00-000Z",
+    },
+  ],
+};
+
+describe("PendingChangesQueue", () => {
+  let queue: InstanceType<typeof PendingChangesQueue>;
+
+  beforeEach(() => {
+    files.clear();
+    requests.length = 0;
+    queue = new PendingChangesQueue({
+      manifest: { dir: ".obsidian/plugins/mcp-tools" },
+      app: { vault: { adapter } },
+    } as never);
+  });
+
+  test("copies a file to the trash when its deletion is approved", async () => {
+    files.set("Inbox/note.md", "draft");
+    const change = await queue.add(DELETE);
+
+    // Nothing is copied while the change waits
+    files.set("Inbox/note.md", "final");
+    expect(files.has(".mcp-trash/2024-05-01T10-00-00-000Z/Inbox/note.md")).toBe(
+      false,
+    );
+
+    expect((await queue.approve(change.id)).status).toBe("approved");
+    expect(requests).toEqual([expect.objectContaining({ method: "DELETE" })]);
+    expect(files.has("Inbox/note.md")).toBe(false);
+    expect(files.get(".mcp-trash/2024-05-01T10-00-00-000Z/Inbox/note.md")).toBe(
+      "final",
+    );
+  });
+
+  test("saves a revision when an edit is approved, keeping the limit", async () => {
+    const history = ".mcp-history/Inbox/note.md";
+    files.set("Inbox/note.md", "current");
+    files.set(`${history}/2024-05-01T10-00-00-000Z.md`, "old");
+    const change = await queue.add({
+      method: "PUT",
+      path: "/vault/Inbox/note.md",
+      headers: {},
+      body: "new",
+      summary: "Write Inbox/note.md",
+      backups: [
+        {
+          type: "revision",
+          path: "Inbox/note.md",
+          folder: ".mcp-history",
+          limit: 1,
+        },
+      ],
+    });
+
+    await queue.approve(change.id);
+    const revisions = [...files.keys()].filter((file) =>
+      file.startsWith(`${history}/`),
+    );
+    expect(revisions).toHaveLength(1);
+    expect(files.get(revisions[0])).toBe("current");
+  });
+
+  test("doesn't apply a change whose backup fails", async () => {
+    files.set("Inbox/note.md", "draft");
+    const change = await queue.add(DELETE);
+    const write = adapter.write;
+    adapter.write = async (path, content) => {
+      if (path.startsWith(".mcp-trash/")) throw new Error("Disk full");
+      return write(path, content);
+    };
+    try {
+      const approved = await queue.approve(change.id);
+      expect(approved).toMatchObject({ status: "failed", error: "Disk full" });
+      expect(requests).toEqual([]);
+      expect(files.get("Inbox/note.md")).toBe("draft");
+    } finally {
+      adapter.write = write;
+    }
+  });
+
+  test("approves and rejects a move's write and delete together", async () => {
+    files.set("Inbox/note.md", "draft");
+    const write = await queue.add({
+      method: "PUT",
+      path: "/vault/Archive/note.md",
+      headers: {},
+      body: "draft",
+      summary: "Create Archive/note.md",
+      group: "move-1",
+    });
+    const remove = await queue.add({ ...DELETE, group: "move-1" });
+    const rejected = await queue.add({ ...DELETE, group: "move-2" });
+    await queue.add({ ...DELETE, path: "/vault/b.md", group: "move-2" });
+
+    await queue.approve(write.id);
+    expect(requests.map(({ method }) => method)).toEqual(["PUT", "DELETE"]);
+    expect(
+      (await queue.list()).find(({ id }) => id === remove.id)?.status,
+    ).toBe("approved");
+
+    await queue.reject(rejected.id);
+    expect((await queue.list()).map(({ status }) => status)).toEqual([
+      "approved",
+      "approved",
+      "rejected",
+      "rejected",
+    ]);
+  });
+
+  test("doesn't apply the rest of a group after a change fails", async () => {
+    const failing = await queue.add({
+      method: "PUT",
+      path: "/vault/fail.md",
+      headers: {},
+      summary: "Create fail.md",
+      group: "move-1",
+    });
+    await queue.add({ ...DELETE, group: "move-1" });
+
+    const approved = await queue.approve(failing.id);
+    expect(approved).toMatchObject({ status: "failed", error: "Refused" });
+    expect(requests.map(({ method }) => method)).toEqual(["PUT"]);
+    expect((await queue.list())[1]).toMatchObject({
+      status: "failed",
+      error: 'Not applied because "Create fail.md" failed',
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import type McpToolsPlugin from "$/main";
+import { logger } from "$/shared/logger";
+import { type } from "arktype";
+import { normalizePath, Notice } from "obsidian";
+import { LocalRestAPI } from "shared";
+import { get, writable, type Readable } from "svelte/store";
+import { saveBackups } from "./backups";
+import { sendLocalRestApiRequest } from "./localRestApi";
+
+type PendingChange = LocalRestAPI.ApiPendingChangeType;
+
+/** File in the plugin folder the queue is saved to */
+const QUEUE_FILENAME = "pending-changes.json";
+
+/**
+ * Changes proposed by the MCP server while approval is required, saved in
+ * the plugin folder so they survive restarts. Approved changes are sent to
+ * the Local REST API as they were proposed.
+ */
+export class PendingChangesQueue {
+  private readonly changes = writable<PendingChange[]>([]);
+  private loading?: Promise<void>;
+  /** Updates run one at a time so none are lost when saving */
+  private updating: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly plugin: McpToolsPlugin) {}
+
+  /** All proposed changes, oldest first */
+  get store(): Readable<PendingChange[]> {
+    return this.changes;
+  }
+
+  private get path() {
+    return normalizePath(`${this.plugin.manifest.dir}/${QUEUE_FILENAME}`);
+  }
+
+  private load() {
+    this.loading ??= (async () => {
+      const { adapter } = this.plugin.app.vault;
+      if (!(await adapter.exists(this.path))) return;
+
+      const saved = type("string.json.parse").to(
+        LocalRestAPI.ApiPendingChangesResponse,
+      )(await adapter.read(this.path));
+      if (saved instanceof type.errors) {
+        logger.error("Invalid pending changes file", {
+          path: this.path,
+          summary: saved.summary,
+        });
+        return;
+      }
+      this.changes.set(saved);
+    })();
+    return this.loading;
+  }
+
+  private update<T>(fn: (changes: PendingChange[]) => Promise<T>): Promise<T> {
+    const next = this.updating.then(async () => {
+      await this.load();
+      const result = await fn(get(this.changes));
+      this.changes.set([...get(this.changes)]);
+      await this.plugin.app.vault.adapter.write(
+        this.path,
+        JSON.stringify(get(this.changes), null, 2),
+      );
+      return result;
+    });
+    this.updating = next.catch(() => undefined);
+    return next;
+  }
+
+  async list(): Promise<PendingChange[]> {
+    await this.load();
+    return get(this.changes);
+  }
+
+  /**
+   * Add a proposed change and let the user know it's waiting for review
+   */
+  add(params: LocalRestAPI.ApiPendingChangeParamsType) {
+    return this.update(async (changes) => {
+      const change: PendingChange = {
+        ...params,
+        id: crypto.randomUUID(),
+        status: "pending",
+        createdAt: new Date().toISOString(),
+      };
+      changes.push(change);
+      new Notice(`MCP change waiting for approval: ${change.summary}`);
+      return change;
+    });
+  }
+
+  /**
+   * Save a pending change's trash copies and revisions, then apply it
+   * through the Local REST API, along with the rest of its group in order.
+   * If either fails, the change is marked as failed with the error, and the
+   * changes after it in the group aren't applied.
+   */
+  approve(id: string) {
+    return this.update(async (changes) => {
+      const change = findPending(changes, id);
+      let failed: PendingChange | undefined;
+      for (const member of findGroup(changes, change)) {
+        if (failed) {
+          member.status = "failed";
+          member.error = `Not applied because "${failed.summary}" failed`;
+        } else {
+          try {
+            await saveBackups(
+              this.plugin.app.vault.adapter,
+              member.backups ?? [],
+            );
+            await sendLocalRestApiRequest(this.plugin.app, member);
+            member.status = "approved";
+            delete member.error;
+          } catch (error) {
+            member.status = "failed";
+            member.error =
+              error instanceof Error ? error.message : String(error);
+            logger.error("Failed to apply pending change", {
+              id: member.id,
+              error,
+            });
+            failed = member;
+          }
+        }
+        member.reviewedAt = new Date().toISOString();
+      }
+      return change;
+    });
+  }
+
+  /**
+   * Reject a pending change, along with the rest of its group
+   */
+  reject(id: string) {
+    return this.update(async (changes) => {
+      const change = findPending(changes, id);
+      for (const member of findGroup(changes, change)) {
+        member.status = "rejected";
+        member.reviewedAt = new Date().toISOString();
+      }
+      return change;
+    });
+  }
+
+  /**
+   * Remove reviewed changes, keeping the ones still waiting
+   */
+  clearReviewed() {
+    return this.update(async (changes) => {
+      const pending = changes.filter((change) => change.status === "pending");
+      changes.splice(0, changes.length, ...pending);
+    });
+  }
+}
+
+/**
+ * Failed changes can be approved again, e.g. once the Local REST API is
+ * back
+ */
+function findPending(changes: PendingChange[], id: string) {
+  const change = changes.find((change) => change.id === id);
+  if (!change || !["pending", "failed"].includes(change.status)) {
+    throw new Error(`No pending change with ID ${id}`);
+  }
+  return change;
+}
+
+/**
+ * A change and the others proposed with it that are still waiting, oldest
+ * first
+ */
+function findGroup(changes: PendingChange[], change: PendingChange) {
+  if (!change.group) return [change];
+  return changes.filter(
+    (other) =>
+      other.group === change.group &&
+      ["pending", "failed"].includes(other.status),
+  );
+}
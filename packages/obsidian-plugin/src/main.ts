@@ -13,6 +13,10 @@ import {
 } from "shared";
 import { setup as setupCore } from "./features/core";
 import { setup as setupMcpServerInstall } from "./features/mcp-server-install";
+import {
+  PendingChangesQueue,
+  setup as setupPendingChanges,
+} from "./features/pending-changes";
 import {
   loadLocalRestAPI,
   loadSmartSearchAPI,
@@ -29,6 +33,9 @@ export default class McpToolsPlugin extends Plugin {
     installed: false,
   };
 
+  /** Changes proposed by the MCP server, waiting for review */
+  readonly pendingChanges = new PendingChangesQueue(this);
+
   async getLocalRestApiKey(): Promise<string | undefined> {
     // The API key is stored in the plugin's settings
     return this.localRestApi.plugin?.settings?.apiKey;
@@ -38,6 +45,7 @@ export default class McpToolsPlugin extends Plugin {
     // Initialize features in order
     await setupCore(this);
     await setupMcpServerInstall(this);
+    await setupPendingChanges(this);
 
     // Check for required dependencies
     lastValueFrom(loadLocalRestAPI(this)).then((localRestApi) => {
@@ -60,6 +68,19 @@ export default class McpToolsPlugin extends Plugin {
         .addRoute("/templates/execute")
         .post(this.handleTemplateExecution.bind(this));
 
+      this.localRestApi.api
+        .addRoute("/mcp-tools/config")
+        .get(this.handleConfigRequest.bind(this));
+
+      this.localRestApi.api
+        .addRoute("/mcp-tools/plugins")
+        .get(this.handlePluginStatusRequest.bind(this));
+
+      this.localRestApi.api
+        .addRoute("/mcp-tools/pending-changes")
+        .get(this.handlePendingChangesRequest.bind(this))
+        .post(this.handleProposeChange.bind(this));
+
       logger.info("MCP Tools Plugin loaded");
     });
   }
@@ -163,6 +184,78 @@ export default class McpToolsPlugin extends Plugin {
     }
   }
 
+  /**
+   * Serve the dispatcher settings saved by the settings tab so the MCP
+   * server can apply them. Returns `{}` if nothing has been saved yet.
+   */
+  private async handleConfigRequest(_req: Request, res: Response) {
+    try {
+      const data = await this.loadData();
+      res.json(data?.dispatcher ?? {});
+      return;
+    } catch (error) {
+      logger.error("Config request error:", { error });
+      res.status(503).json({
+        error: "An error occurred while reading the MCP Tools settings",
+      });
+      return;
+    }
+  }
+
+  /**
+   * Report which optional plugins are loaded, so the MCP server can hide
+   * tools for plugins that are disabled without triggering their notices.
+   */
+  private async handlePluginStatusRequest(_req: Request, res: Response) {
+    const plugins = this.app.plugins.plugins;
+    const response: LocalRestAPI.ApiPluginStatusResponseType = {
+      "smart-connections": !!plugins["smart-connections"],
+      templater: !!plugins["templater-obsidian"],
+    };
+    res.json(response);
+  }
+
+  /**
+   * List the changes proposed by the MCP server, oldest first
+   */
+  private async handlePendingChangesRequest(_req: Request, res: Response) {
+    try {
+      const response: LocalRestAPI.ApiPendingChangeType[] =
+        await this.pendingChanges.list();
+      res.json(response);
+    } catch (error) {
+      logger.error("Pending changes request error:", { error });
+      res.status(503).json({
+        error: "An error occurred while reading the pending changes",
+      });
+    }
+  }
+
+  /**
+   * Queue a change proposed by the MCP server for review, instead of
+   * applying it
+   */
+  private async handleProposeChange(req: Request, res: Response) {
+    const params = LocalRestAPI.ApiPendingChangeParams(req.body);
+    if (params instanceof type.errors) {
+      res.status(400).json({
+        error: "Invalid request body",
+        summary: params.summary,
+      });
+      return;
+    }
+
+    try {
+      const change = await this.pendingChanges.add(params);
+      res.json(change);
+    } catch (error) {
+      logger.error("Propose change error:", { error, body: req.body });
+      res.status(503).json({
+        error: "An error occurred while saving the proposed change",
+      });
+    }
+  }
+
   private async handleSearchRequest(req: Request, res: Response) {
     try {
       const dep = await lastValueFrom(loadSmartSearchAPI(this));
@@ -61,6 +61,17 @@ export const loggerConfigMorph = loggerConfigSchema.pipe((config) => {
   return { ...config, levels, filename };
 });
 
+/**
+ * A log entry as passed to sinks added with `logger.addSink`
+ */
+export interface LogEntry {
+  level: LogLevel;
+  message: unknown;
+  meta: Record<string, unknown>;
+}
+
+export type LogSink = (entry: LogEntry) => void;
+
 export type InputLoggerConfig = typeof loggerConfigSchema.infer;
 export type FullLoggerConfig = typeof loggerConfigMorph.infer;
 
@@ -75,9 +86,19 @@ export type FullLoggerConfig = typeof loggerConfigMorph.infer;
 export function createLogger(inputConfig: InputLoggerConfig) {
   let config: FullLoggerConfig = loggerConfigMorph.assert(inputConfig);
   let logMeta: Record<string, unknown> = {};
+  const sinks = new Set<LogSink>();
 
   const queue: Promise<void>[] = [];
   const log = (level: LogLevel, message: unknown, meta?: typeof logMeta) => {
+    // Sinks see every entry and apply their own level
+    for (const sink of sinks) {
+      try {
+        sink({ level, message, meta: { ...logMeta, ...(meta ?? {}) } });
+      } catch {
+        // A failing sink must not break logging
+      }
+    }
+
     if (!config.levels.includes(level)) return;
     ensureDirSync(dirname(getLogFilePath(config.appName, config.filename)));
     queue.push(
@@ -108,6 +129,16 @@ export function createLogger(inputConfig: InputLoggerConfig) {
     flush() {
       return Promise.all(queue);
     },
+    /**
+     * Also send every entry, regardless of the configured level, to `sink`.
+     * @returns A function that removes the sink.
+     */
+    addSink(sink: LogSink) {
+      sinks.add(sink);
+      return () => {
+        sinks.delete(sink);
+      };
+    },
     get config(): FullLoggerConfig {
       return { ...config };
     },
@@ -279,6 +279,92 @@ export const ApiTemplateExecutionResponse = type({
   content: "string",
 });
 
+/**
+ * Which optional plugins MCP Tools can use, keyed by plugin ID
+ * Content-Type: application/json
+ * GET /mcp-tools/plugins/
+ */
+export const ApiPluginStatusResponse = type({
+  "smart-connections": "boolean",
+  templater: "boolean",
+});
+
+/**
+ * A copy of a file to save when a proposed change is approved, just before
+ * the change is applied: a trash copy of a file it deletes or overwrites,
+ * or a revision of a note it edits
+ * @property type - trash or revision
+ * @property path - Vault path of the file to copy
+ * @property folder - The trash or history folder
+ * @property batch - Trash folder of the tool call's copies, e.g.
+ *   2024-05-01T10-00-00-000Z
+ * @property limit - Revisions kept per note
+ */
+export const ApiPendingChangeBackup = type({
+  type: "'trash'",
+  path: "string",
+  folder: "string",
+  batch: "string",
+}).or({
+  type: "'revision'",
+  path: "string",
+  folder: "string",
+  limit: "number",
+});
+
+/**
+ * A Local REST API request proposed by the MCP server while changes require
+ * approval. It's sent as-is when approved in Obsidian.
+ * Content-Type: application/json
+ * POST /mcp-tools/pending-changes
+ * @property method - HTTP method of the request
+ * @property path - Request path, e.g. /vault/Inbox/note.md
+ * @property headers - Request headers, without authorization
+ * @property body - Request body, if any
+ * @property tool - MCP tool that proposed the change
+ * @property summary - What the request does, e.g. "Append to Inbox/note.md"
+ * @property diff - Unified diff of the file's content, if it can be previewed
+ * @property backups - Copies to save before the request is sent
+ * @property group - ID shared by requests that are approved or rejected
+ *   together, in order, like the write and delete of a move
+ */
+export const ApiPendingChangeParams = type({
+  method: "'POST' | 'PUT' | 'PATCH' | 'DELETE'",
+  path: "string",
+  headers: "Record<string, string>",
+  "body?": "string",
+  "tool?": "string",
+  summary: "string",
+  "diff?": "string",
+  "backups?": ApiPendingChangeBackup.array(),
+  "group?": "string",
+});
+
+/**
+ * A proposed change and its review status
+ * Content-Type: application/json
+ * Response of POST /mcp-tools/pending-changes
+ * @property id - ID of the change
+ * @property status - pending until reviewed; failed if applying it failed
+ * @property createdAt - When the change was proposed (ISO 8601)
+ * @property reviewedAt - When the change was approved or rejected (ISO 8601)
+ * @property error - Why applying the change failed
+ */
+export const ApiPendingChange = ApiPendingChangeParams.and({
+  id: "string",
+  status: "'pending' | 'approved' | 'rejected' | 'failed'",
+  createdAt: "string",
+  "reviewedAt?": "string",
+  "error?": "string",
+});
+
+/**
+ * Proposed changes, oldest first
+ * Content-Type: application/json
+ * GET /mcp-tools/pending-changes
+ */
+export const ApiPendingChangesResponse = ApiPendingChange.array();
+
 // Export types for TypeScript usage
 export type ApiErrorType = typeof ApiError.infer;
 export type ApiNoteJsonType = typeof ApiNoteJson.infer;
@@ -298,6 +384,10 @@ export type ApiTemplateExecutionParamsType =
   typeof ApiTemplateExecutionParams.infer;
 export type ApiTemplateExecutionResponseType =
   typeof ApiTemplateExecutionResponse.infer;
+export type ApiPluginStatusResponseType = typeof ApiPluginStatusResponse.infer;
+export type ApiPendingChangeBackupType = typeof ApiPendingChangeBackup.infer;
+export type ApiPendingChangeParamsType = typeof ApiPendingChangeParams.infer;
+export type ApiPendingChangeType = typeof ApiPendingChange.infer;
 
 // Additional API response types can be added here
 export const MIME_TYPE_OLRAPI_NOTE_JSON = "application/vnd.olrapi.note+json";